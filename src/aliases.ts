@@ -0,0 +1,91 @@
+/**
+ * Model alias resolution.
+ *
+ * Lets configs say `model: "sonnet"`, `"opus-latest"` or `"latest"` instead of
+ * a dated model ID. Aliases resolve against the discovered model list,
+ * preferring current (non-legacy) models and the newest version, unless the
+ * operator has pinned the alias to a specific ID.
+ */
+
+/** Alias → concrete model ID, set by operators so upgrades are deliberate. */
+export type ModelAliasPins = Record<string, string>;
+
+export interface AliasCandidate {
+  id: string;
+  legacy: boolean;
+}
+
+const MODEL_FAMILIES = ["opus", "sonnet", "haiku"] as const;
+type ModelFamily = (typeof MODEL_FAMILIES)[number];
+
+// "sonnet", "sonnet-latest", "claude-sonnet", "claude-sonnet-latest"
+const FAMILY_ALIAS = /^(?:claude-)?(opus|sonnet|haiku)(?:-latest)?$/;
+const LATEST_ALIASES = new Set(["latest", "claude-latest"]);
+
+function normalizeAlias(alias: string): string {
+  return alias.trim().toLowerCase();
+}
+
+/** True if `model` is an alias this module resolves rather than a model ID. */
+export function isModelAlias(model: string): boolean {
+  const alias = normalizeAlias(model);
+  return FAMILY_ALIAS.test(alias) || LATEST_ALIASES.has(alias);
+}
+
+function familyOf(id: string): ModelFamily | null {
+  for (const family of MODEL_FAMILIES) {
+    if (id.includes(`-${family}`)) return family;
+  }
+  return null;
+}
+
+/**
+ * Sort key for a model ID: version numbers then snapshot date, so that
+ * claude-opus-4-6 > claude-opus-4-5-20251101 > claude-opus-4-20250514 and
+ * old-style IDs like claude-3-7-sonnet-20250219 compare correctly.
+ */
+function versionKey(id: string): number[] {
+  const parts = id.split("-").filter((p) => /^\d+$/.test(p));
+  const date = parts.find((p) => p.length === 8);
+  const version = parts.filter((p) => p.length < 8).map(Number);
+  while (version.length < 3) version.push(0);
+  return [...version, date ? Number(date) : 0];
+}
+
+function compareNewestFirst(a: AliasCandidate, b: AliasCandidate): number {
+  // Current models before legacy ones
+  if (a.legacy !== b.legacy) return a.legacy ? 1 : -1;
+  const ka = versionKey(a.id);
+  const kb = versionKey(b.id);
+  for (let i = 0; i < Math.max(ka.length, kb.length); i++) {
+    const diff = (kb[i] ?? 0) - (ka[i] ?? 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
+
+/**
+ * Resolve a model alias to a concrete model ID.
+ *
+ * Pinned aliases win. Family aliases pick the newest non-legacy model of that
+ * family; `latest` picks the newest non-legacy model overall. Anything that is
+ * not an alias — or an alias with no matching model — is returned unchanged.
+ */
+export function resolveModelAlias(model: string, models: AliasCandidate[], pins: ModelAliasPins = {}): string {
+  const alias = normalizeAlias(model);
+
+  for (const [pinned, target] of Object.entries(pins)) {
+    if (normalizeAlias(pinned) === alias && typeof target === "string" && target.length > 0) {
+      return target;
+    }
+  }
+
+  if (!isModelAlias(alias)) return model;
+
+  const family = FAMILY_ALIAS.exec(alias)?.[1] as ModelFamily | undefined;
+  const candidates = models
+    .filter((m) => (family ? familyOf(m.id) === family : familyOf(m.id) !== null))
+    .sort(compareNewestFirst);
+
+  return candidates[0]?.id ?? model;
+}
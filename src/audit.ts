@@ -0,0 +1,260 @@
+/**
+ * Tool-call audit log.
+ *
+ * Pairs each tool_use block in a query's stream with its tool_result and
+ * records one entry per call: who (sessionKey, SDK session, model), what
+ * (tool and redacted input), how long it took and how it ended. Entries are
+ * appended as JSON lines to a size-rotated file when enabled, through one
+ * write stream in the background so the query stream never waits on disk,
+ * and the most recent ones are kept in memory for the provider-anthropic
+ * extension.
+ */
+
+import { createWriteStream, type WriteStream } from "node:fs";
+import { mkdir, rename, rm, stat } from "node:fs/promises";
+import { homedir } from "node:os";
+import { dirname, join } from "node:path";
+import { logger } from "./logger.js";
+
+export interface ToolAuditConfig {
+  /** Append entries to `file`. Default false; recent entries are kept in memory either way. */
+  enabled?: boolean;
+  /** Default `~/.wopr/anthropic-tool-audit.jsonl`. */
+  file?: string;
+  /** Rotate once the file reaches this size. Default 10 MiB. */
+  maxBytes?: number;
+  /** Rotated files kept (`<file>.1` is the newest). Default 5. */
+  maxFiles?: number;
+  /** Input keys whose values are redacted, in addition to the built-in secret names. */
+  redactKeys?: string[];
+}
+
+export interface ToolAuditEntry {
+  /** When the tool call was issued (ISO 8601). */
+  timestamp: string;
+  sessionKey?: string;
+  sdkSessionId?: string;
+  model?: string;
+  tool: string;
+  toolUseId: string;
+  /** Tool input with secrets redacted and long strings truncated. */
+  input: unknown;
+  /** From tool_use to tool_result; null if no result arrived. */
+  durationMs: number | null;
+  /** "interrupted": the stream ended before the tool reported back. */
+  outcome: "success" | "error" | "interrupted";
+  /** Start of the tool's error output. */
+  error?: string;
+}
+
+export const DEFAULT_AUDIT_FILE = join(homedir(), ".wopr", "anthropic-tool-audit.jsonl");
+const DEFAULT_MAX_BYTES = 10 * 1024 * 1024;
+const DEFAULT_MAX_FILES = 5;
+const MAX_RECENT_ENTRIES = 1000;
+const MAX_STRING_LENGTH = 500;
+const MAX_DEPTH = 6;
+
+// Matches "token" and "accessToken" but not "max_tokens"
+const SECRET_KEY = /pass(word)?|secret|api[_-]?key|authorization|credential|cookie|private[_-]?key|token$/i;
+const REDACTED = "[REDACTED]";
+const SECRET_VALUES: [RegExp, string][] = [
+  [/sk-ant-[A-Za-z0-9_-]+/g, REDACTED],
+  [/\b(Bearer|Basic)\s+[A-Za-z0-9._~+/=-]+/gi, `$1 ${REDACTED}`],
+  [/\b((?:api[_-]?key|token|password|secret)\s*[=:]\s*)[^\s&"']+/gi, `$1${REDACTED}`],
+];
+
+function redactString(value: string): string {
+  let out = value;
+  for (const [pattern, replacement] of SECRET_VALUES) out = out.replace(pattern, replacement);
+  return out.length > MAX_STRING_LENGTH ? `${out.slice(0, MAX_STRING_LENGTH)}…[${out.length} chars]` : out;
+}
+
+/** Copy of a tool input safe to log: secret-looking keys and values redacted, long strings cut. */
+export function redactToolInput(value: unknown, extraKeys: string[] = [], depth = 0): unknown {
+  if (typeof value === "string") return redactString(value);
+  if (value === null || typeof value !== "object") return value;
+  if (depth >= MAX_DEPTH) return "[…]";
+  if (Array.isArray(value)) return value.map((v) => redactToolInput(v, extraKeys, depth + 1));
+  const out: Record<string, unknown> = {};
+  for (const [key, v] of Object.entries(value)) {
+    out[key] = SECRET_KEY.test(key) || extraKeys.includes(key) ? REDACTED : redactToolInput(v, extraKeys, depth + 1);
+  }
+  return out;
+}
+
+function resultText(content: unknown): string {
+  if (typeof content === "string") return content;
+  if (Array.isArray(content)) {
+    return content
+      .map((block) => (block && typeof block === "object" && "text" in block ? String(block.text) : ""))
+      .join("\n");
+  }
+  return "";
+}
+
+interface ContentBlock {
+  type?: string;
+  id?: string;
+  name?: string;
+  input?: unknown;
+  tool_use_id?: string;
+  is_error?: boolean;
+  content?: unknown;
+}
+
+/** Rejection handler for file operations where a missing file is fine. */
+function ignoreMissing(error: NodeJS.ErrnoException): void {
+  if (error.code !== "ENOENT") throw error;
+}
+
+export class ToolAuditLog {
+  private config: ToolAuditConfig = {};
+  private entries: ToolAuditEntry[] = [];
+  // File writes and rotations run one after another, in record() order
+  private writes: Promise<void> = Promise.resolve();
+  private out: { file: string; stream: WriteStream; size: number } | null = null;
+
+  constructor(private readonly now: () => number = Date.now) {}
+
+  configure(config: ToolAuditConfig = {}): void {
+    this.config = config;
+  }
+
+  record(entry: ToolAuditEntry): void {
+    this.entries.push(entry);
+    if (this.entries.length > MAX_RECENT_ENTRIES) this.entries.shift();
+    if (!this.config.enabled) return;
+    const file = this.config.file ?? DEFAULT_AUDIT_FILE;
+    const line = `${JSON.stringify(entry)}\n`;
+    this.writes = this.writes
+      .then(() => this.append(file, line))
+      .catch((error) => {
+        logger.warn(`[anthropic] Could not write tool audit log ${file}: ${error}`);
+      });
+  }
+
+  /** Resolves once every entry recorded so far is on disk. */
+  flush(): Promise<void> {
+    return this.writes;
+  }
+
+  /** Flush and close the log file; the next entry reopens it. */
+  close(): Promise<void> {
+    this.writes = this.writes.then(() => this.closeFile());
+    return this.writes;
+  }
+
+  /** The latest `limit` entries, oldest first, optionally for one sessionKey. */
+  recent(sessionKey?: string, limit = 50): ToolAuditEntry[] {
+    const matching = sessionKey ? this.entries.filter((e) => e.sessionKey === sessionKey) : this.entries;
+    return matching.slice(-limit);
+  }
+
+  private async append(file: string, line: string): Promise<void> {
+    if (this.out && this.out.file !== file) await this.closeFile();
+    if (!this.out) {
+      await mkdir(dirname(file), { recursive: true });
+      const size = await stat(file).then(
+        (s) => s.size,
+        (error) => {
+          ignoreMissing(error);
+          return 0;
+        },
+      );
+      const stream = createWriteStream(file, { flags: "a", mode: 0o600 });
+      // The failed write reports the error; the next entry reopens the file
+      stream.on("error", () => {
+        if (this.out?.stream === stream) this.out = null;
+      });
+      this.out = { file, stream, size };
+    }
+    if (this.out.size > 0 && this.out.size >= (this.config.maxBytes ?? DEFAULT_MAX_BYTES)) {
+      await this.closeFile();
+      await this.rotate(file);
+      return this.append(file, line);
+    }
+    this.out.size += Buffer.byteLength(line);
+    const stream = this.out.stream;
+    await new Promise<void>((resolve, reject) => stream.write(line, (error) => (error ? reject(error) : resolve())));
+  }
+
+  private async closeFile(): Promise<void> {
+    const out = this.out;
+    this.out = null;
+    if (out) await new Promise<void>((resolve) => out.stream.end(resolve));
+  }
+
+  private async rotate(file: string): Promise<void> {
+    const maxFiles = this.config.maxFiles ?? DEFAULT_MAX_FILES;
+    await rm(`${file}.${maxFiles}`, { force: true });
+    for (let i = maxFiles - 1; i >= 1; i--) {
+      await rename(`${file}.${i}`, `${file}.${i + 1}`).catch(ignoreMissing);
+    }
+    if (maxFiles > 0) await rename(file, `${file}.1`);
+    else await rm(file, { force: true });
+  }
+
+  /**
+   * Pass `stream` through unchanged, recording each tool call it contains.
+   * Calls still waiting for a result when the stream ends are recorded as
+   * interrupted.
+   */
+  async *observe<T>(stream: AsyncIterable<T>, context: { sessionKey?: string; model?: string }): AsyncGenerator<T> {
+    const pending = new Map<string, { entry: ToolAuditEntry; startedAt: number }>();
+    let model = context.model;
+    let sdkSessionId: string | undefined;
+
+    const finish = (id: string, outcome: ToolAuditEntry["outcome"], error?: string) => {
+      const call = pending.get(id);
+      if (!call) return;
+      pending.delete(id);
+      this.record({
+        ...call.entry,
+        durationMs: outcome === "interrupted" ? null : this.now() - call.startedAt,
+        outcome,
+        ...(error ? { error: redactString(error) } : {}),
+      });
+    };
+
+    try {
+      for await (const msg of stream) {
+        const m = msg as {
+          type?: string;
+          subtype?: string;
+          model?: string;
+          session_id?: string;
+          message?: { content?: unknown };
+        };
+        if (m.session_id) sdkSessionId = m.session_id;
+        if (m.type === "system" && (m.subtype === "init" || m.subtype === "model_fallback") && m.model) {
+          model = m.model;
+        }
+        const blocks = Array.isArray(m.message?.content) ? (m.message.content as ContentBlock[]) : [];
+        for (const block of blocks) {
+          if (m.type === "assistant" && block.type === "tool_use" && block.id && block.name) {
+            pending.set(block.id, {
+              startedAt: this.now(),
+              entry: {
+                timestamp: new Date(this.now()).toISOString(),
+                sessionKey: context.sessionKey,
+                sdkSessionId,
+                model,
+                tool: block.name,
+                toolUseId: block.id,
+                input: redactToolInput(block.input, this.config.redactKeys),
+                durationMs: null,
+                outcome: "interrupted",
+              },
+            });
+          } else if (m.type === "user" && block.type === "tool_result" && block.tool_use_id) {
+            if (block.is_error) finish(block.tool_use_id, "error", resultText(block.content));
+            else finish(block.tool_use_id, "success");
+          }
+        }
+        yield msg;
+      }
+    } finally {
+      for (const id of [...pending.keys()]) finish(id, "interrupted");
+    }
+  }
+}
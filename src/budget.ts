@@ -0,0 +1,250 @@
+/**
+ * Spend and token budgets.
+ *
+ * Budgets cap a single query, a WOPR session (sessionKey) and the whole plugin
+ * per UTC day. A BudgetGuard watches one query's stream, warns as thresholds
+ * are crossed and throws BudgetExceededError once a limit is exceeded, which
+ * aborts the stream.
+ */
+
+import { computeCost, type ModelPricing, type TokenUsage, toTokenUsage } from "./usage.js";
+
+export type BudgetScope = "query" | "session" | "day";
+export type BudgetMetric = "cost" | "tokens";
+
+export interface BudgetLimit {
+  /** Maximum spend in USD. */
+  maxCostUsd?: number;
+  /** Maximum tokens (input + output + cache reads + cache writes). */
+  maxTokens?: number;
+}
+
+export interface BudgetConfig {
+  perQuery?: BudgetLimit;
+  perSession?: BudgetLimit;
+  perDay?: BudgetLimit;
+  /** Fractions of a limit at which to warn. Defaults to [0.8]. */
+  warnThresholds?: number[];
+}
+
+export interface BudgetUsage {
+  tokens: number;
+  costUsd: number;
+}
+
+/** Emitted by the plugin (not the SDK) when a budget threshold is crossed. */
+export interface BudgetWarningMessage {
+  type: "system";
+  subtype: "budget_warning";
+  scope: BudgetScope;
+  metric: BudgetMetric;
+  threshold: number;
+  used: number;
+  limit: number;
+}
+
+const DEFAULT_WARN_THRESHOLDS = [0.8];
+
+export class BudgetExceededError extends Error {
+  constructor(
+    readonly scope: BudgetScope,
+    readonly metric: BudgetMetric,
+    readonly limit: number,
+    readonly used: number,
+    readonly sessionKey?: string,
+  ) {
+    const amount = metric === "cost" ? `$${used.toFixed(4)} of $${limit}` : `${used} of ${limit} tokens`;
+    super(`[anthropic] ${scope} budget exceeded: ${amount}${sessionKey ? ` (session ${sessionKey})` : ""}`);
+    this.name = "BudgetExceededError";
+  }
+}
+
+export function totalTokens(usage: TokenUsage): number {
+  return usage.inputTokens + usage.outputTokens + usage.cacheReadTokens + usage.cacheWriteTokens;
+}
+
+/** True when at least one limit is set anywhere in the config. */
+export function hasBudgets(config: BudgetConfig | undefined): config is BudgetConfig {
+  if (!config) return false;
+  return [config.perQuery, config.perSession, config.perDay].some(
+    (l) => l?.maxCostUsd !== undefined || l?.maxTokens !== undefined,
+  );
+}
+
+/** Plugin-wide spend for the current UTC day. */
+export class DailySpend {
+  private day = "";
+  private usage: BudgetUsage = { tokens: 0, costUsd: 0 };
+
+  private roll(now: number): void {
+    const day = new Date(now).toISOString().slice(0, 10);
+    if (day !== this.day) {
+      this.day = day;
+      this.usage = { tokens: 0, costUsd: 0 };
+    }
+  }
+
+  add(usage: BudgetUsage, now = Date.now()): void {
+    this.roll(now);
+    this.usage = { tokens: this.usage.tokens + usage.tokens, costUsd: this.usage.costUsd + usage.costUsd };
+  }
+
+  current(now = Date.now()): BudgetUsage {
+    this.roll(now);
+    return { ...this.usage };
+  }
+}
+
+/**
+ * Running usage of one query, from the per-request usage on assistant messages
+ * (deduplicated by message ID, since the SDK streams one message per content
+ * block) until the final result message reports the authoritative total.
+ */
+export class QueryUsageMeter {
+  private byMessage = new Map<string, TokenUsage>();
+  private final: TokenUsage | null = null;
+
+  observe(msg: unknown): TokenUsage {
+    const m = msg as {
+      type?: string;
+      usage?: Record<string, unknown>;
+      message?: { id?: string; usage?: Record<string, unknown> };
+    } | null;
+    if (m?.type === "result" && m.usage) {
+      this.final = toTokenUsage(m.usage);
+    } else if (m?.type === "assistant" && m.message?.usage) {
+      this.byMessage.set(m.message.id ?? `anon-${this.byMessage.size}`, toTokenUsage(m.message.usage));
+    }
+    return this.current();
+  }
+
+  current(): TokenUsage {
+    if (this.final) return this.final;
+    const total: TokenUsage = { inputTokens: 0, outputTokens: 0, cacheReadTokens: 0, cacheWriteTokens: 0 };
+    for (const usage of this.byMessage.values()) {
+      total.inputTokens += usage.inputTokens;
+      total.outputTokens += usage.outputTokens;
+      total.cacheReadTokens += usage.cacheReadTokens;
+      total.cacheWriteTokens += usage.cacheWriteTokens;
+    }
+    return total;
+  }
+}
+
+interface BudgetBaseline {
+  /** Session totals before this query started. */
+  session: BudgetUsage;
+  /** Plugin-wide totals for today, read on every check so queries finishing meanwhile count. */
+  day: () => BudgetUsage;
+}
+
+/** Enforces the configured budgets over the lifetime of one query. */
+export class BudgetGuard {
+  private meter = new QueryUsageMeter();
+  private query: BudgetUsage = { tokens: 0, costUsd: 0 };
+  private recorded = false;
+  private readonly thresholds: number[];
+
+  constructor(
+    private readonly config: BudgetConfig,
+    private readonly baseline: BudgetBaseline,
+    private readonly pricing: ModelPricing | null,
+    private readonly sessionKey?: string,
+  ) {
+    this.thresholds = (config.warnThresholds ?? DEFAULT_WARN_THRESHOLDS).filter((t) => t > 0 && t < 1);
+  }
+
+  /** Fail fast when the session or day is already over budget. */
+  assertWithinBudget(): void {
+    this.enforce({ tokens: 0, costUsd: 0 });
+  }
+
+  /**
+   * Account for a streamed message. Returns warnings for thresholds crossed by
+   * this message and throws BudgetExceededError when a limit is exceeded —
+   * except on the final result message, where the query has already finished
+   * and the overage is enforced by the next query's pre-check.
+   */
+  observe(msg: unknown): BudgetWarningMessage[] {
+    const usage = this.meter.observe(msg);
+    const next: BudgetUsage = {
+      tokens: totalTokens(usage),
+      costUsd: this.pricing ? computeCost(usage, this.pricing) : 0,
+    };
+    const previous = this.query;
+    this.query = next;
+
+    const warnings = this.crossedThresholds(previous, next);
+    if ((msg as { type?: string } | null)?.type !== "result") this.enforce(next);
+    return warnings;
+  }
+
+  /** Note that the query's result has been added to the session and daily totals. */
+  markRecorded(): void {
+    this.recorded = true;
+  }
+
+  /**
+   * What the query used if it ended without its result being recorded
+   * (aborted, cancelled or failed mid-stream), so the spend still counts.
+   * Null once the result was recorded or when nothing was used.
+   */
+  unrecordedUsage(): TokenUsage | null {
+    if (this.recorded) return null;
+    const usage = this.meter.current();
+    return totalTokens(usage) > 0 ? usage : null;
+  }
+
+  private scopes(query: BudgetUsage): Array<[BudgetScope, BudgetLimit | undefined, BudgetUsage]> {
+    const add = (a: BudgetUsage): BudgetUsage => ({
+      tokens: a.tokens + query.tokens,
+      costUsd: a.costUsd + query.costUsd,
+    });
+    return [
+      ["query", this.config.perQuery, query],
+      ["session", this.sessionKey ? this.config.perSession : undefined, add(this.baseline.session)],
+      ["day", this.config.perDay, add(this.baseline.day())],
+    ];
+  }
+
+  private enforce(query: BudgetUsage): void {
+    for (const [scope, limit, used] of this.scopes(query)) {
+      if (limit?.maxCostUsd !== undefined && used.costUsd > limit.maxCostUsd) {
+        throw new BudgetExceededError(scope, "cost", limit.maxCostUsd, used.costUsd, this.sessionKey);
+      }
+      if (limit?.maxTokens !== undefined && used.tokens > limit.maxTokens) {
+        throw new BudgetExceededError(scope, "tokens", limit.maxTokens, used.tokens, this.sessionKey);
+      }
+    }
+  }
+
+  private crossedThresholds(previous: BudgetUsage, next: BudgetUsage): BudgetWarningMessage[] {
+    const warnings: BudgetWarningMessage[] = [];
+    const before = this.scopes(previous);
+    const after = this.scopes(next);
+    for (let i = 0; i < after.length; i++) {
+      const [scope, limit, used] = after[i];
+      const prior = before[i][2];
+      const metrics: Array<[BudgetMetric, number | undefined, number, number]> = [
+        ["cost", limit?.maxCostUsd, prior.costUsd, used.costUsd],
+        ["tokens", limit?.maxTokens, prior.tokens, used.tokens],
+      ];
+      for (const [metric, max, was, now] of metrics) {
+        if (!max) continue;
+        // Only the highest threshold crossed by this step is reported
+        const crossed = this.thresholds.filter((t) => was < max * t && now >= max * t);
+        if (crossed.length === 0) continue;
+        warnings.push({
+          type: "system",
+          subtype: "budget_warning",
+          scope,
+          metric,
+          threshold: Math.max(...crossed),
+          used: now,
+          limit: max,
+        });
+      }
+    }
+    return warnings;
+  }
+}
@@ -0,0 +1,135 @@
+/**
+ * Query cancellation.
+ *
+ * A Cancellation merges the caller's AbortSignal and an optional per-call
+ * timeout into one AbortController (handed to the SDK as `abortController`)
+ * and lets the plugin stop waiting on SDK streams as soon as it fires.
+ */
+
+export type CancellationReason = "aborted" | "timeout";
+
+export class QueryCancelledError extends Error {
+  constructor(
+    readonly reason: CancellationReason,
+    readonly timeoutMs?: number,
+  ) {
+    super(reason === "timeout" ? `[anthropic] Query timed out after ${timeoutMs}ms` : "[anthropic] Query cancelled");
+    this.name = "QueryCancelledError";
+  }
+}
+
+export class Cancellation {
+  readonly controller = new AbortController();
+  private reason: CancellationReason | null = null;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private readonly onAbort = () => this.cancel("aborted");
+
+  constructor(
+    private readonly signal?: AbortSignal,
+    private readonly timeoutMs?: number,
+  ) {
+    if (signal?.aborted) {
+      this.cancel("aborted");
+    } else {
+      signal?.addEventListener("abort", this.onAbort, { once: true });
+    }
+    if (timeoutMs !== undefined && timeoutMs > 0 && !this.reason) {
+      this.timer = setTimeout(() => this.cancel("timeout"), timeoutMs);
+    }
+  }
+
+  get cancelled(): boolean {
+    return this.reason !== null;
+  }
+
+  private cancel(reason: CancellationReason): void {
+    if (this.reason) return;
+    this.reason = reason;
+    this.controller.abort(this.error());
+  }
+
+  error(): QueryCancelledError {
+    return new QueryCancelledError(this.reason ?? "aborted", this.reason === "timeout" ? this.timeoutMs : undefined);
+  }
+
+  throwIfCancelled(): void {
+    if (this.reason) throw this.error();
+  }
+
+  /** Settle with `promise`, or reject with QueryCancelledError as soon as the query is cancelled. */
+  race<T>(promise: Promise<T>): Promise<T> {
+    if (this.reason) {
+      promise.catch(() => {});
+      return Promise.reject(this.error());
+    }
+    return new Promise<T>((resolve, reject) => {
+      const onCancel = () => reject(this.error());
+      this.controller.signal.addEventListener("abort", onCancel, { once: true });
+      promise.then(
+        (value) => {
+          this.controller.signal.removeEventListener("abort", onCancel);
+          resolve(value);
+        },
+        (error) => {
+          this.controller.signal.removeEventListener("abort", onCancel);
+          reject(error);
+        },
+      );
+    });
+  }
+
+  /** Wait `ms`, rejecting early if the query is cancelled. */
+  sleep(ms: number): Promise<void> {
+    return this.race(new Promise<void>((r) => setTimeout(r, ms)));
+  }
+
+  /** Stop the timeout and detach from the caller's signal. */
+  dispose(): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    this.signal?.removeEventListener("abort", this.onAbort);
+  }
+}
+
+/**
+ * Iterate `iterable` until it ends or the query is cancelled, in which case
+ * QueryCancelledError is thrown without waiting for the next message. The
+ * source is closed unless `closeOnCancel` is false, so the caller can keep
+ * reading it after a cancellation.
+ */
+export async function* cancellable<T>(
+  iterable: AsyncIterable<T>,
+  cancellation: Cancellation,
+  closeOnCancel = true,
+): AsyncGenerator<T> {
+  const iterator = iterable[Symbol.asyncIterator]();
+  let finished = false;
+  try {
+    while (true) {
+      const next = await cancellation.race(iterator.next());
+      if (next.done) {
+        finished = true;
+        return;
+      }
+      yield next.value;
+    }
+  } finally {
+    // Not awaited: a stream blocked on its next message would hold up the cancellation
+    if (!finished && (closeOnCancel || !cancellation.cancelled)) iterator.return?.(undefined)?.catch(() => {});
+  }
+}
+
+/** Reject with `message` if `promise` hasn't settled within `ms`. */
+export async function withTimeout<T>(promise: Promise<T>, ms: number, message: string): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  try {
+    return await Promise.race([
+      promise,
+      new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new Error(message)), ms);
+      }),
+    ]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
@@ -0,0 +1,331 @@
+/**
+ * Model capability registry.
+ *
+ * Structured outputs, adaptive thinking, effort, tool search, programmatic
+ * tool calling and the 1M-context beta are only available on specific Claude
+ * models. The registry records what each model family supports so queries can
+ * be checked (and safely downgraded) before they reach the SDK.
+ */
+
+/** Beta flag that raises the context window to 1M tokens on supported models. */
+export const CONTEXT_1M_BETA = "context-1m-2025-08-07";
+
+// Betas the registry knows to be model-gated. Betas not listed here are
+// passed through untouched so new features keep working.
+const MODEL_GATED_BETAS = [CONTEXT_1M_BETA];
+
+export interface ModelCapabilities {
+  /** Context window in tokens (without betas). */
+  contextWindow: number;
+  /** Context window in tokens with the 1M-context beta, if supported. */
+  extendedContextWindow?: number;
+  /** Maximum output tokens per response. */
+  maxOutputTokens: number;
+  /** Extended thinking with an explicit token budget. */
+  thinking: boolean;
+  /** `thinking: { type: "adaptive" }`. */
+  adaptiveThinking: boolean;
+  /** `effort` levels. */
+  effort: boolean;
+  /** JSON-schema constrained decoding (`responseFormat`). */
+  structuredOutputs: boolean;
+  /** Image inputs. */
+  vision: boolean;
+  toolSearch: boolean;
+  programmaticToolCalling: boolean;
+  /** Model-gated betas this model accepts. */
+  betas: string[];
+}
+
+// Ordered most-specific first; model IDs are matched by prefix so dated
+// snapshots (e.g. claude-sonnet-4-5-20250929) resolve to their family.
+const CAPABILITY_TABLE: Array<[prefix: string, capabilities: ModelCapabilities]> = [
+  [
+    "claude-opus-4-6",
+    {
+      contextWindow: 200_000,
+      extendedContextWindow: 1_000_000,
+      maxOutputTokens: 128_000,
+      thinking: true,
+      adaptiveThinking: true,
+      effort: true,
+      structuredOutputs: true,
+      vision: true,
+      toolSearch: true,
+      programmaticToolCalling: true,
+      betas: [CONTEXT_1M_BETA],
+    },
+  ],
+  [
+    "claude-opus-4-5",
+    {
+      contextWindow: 200_000,
+      maxOutputTokens: 64_000,
+      thinking: true,
+      adaptiveThinking: false,
+      effort: true,
+      structuredOutputs: true,
+      vision: true,
+      toolSearch: true,
+      programmaticToolCalling: true,
+      betas: [],
+    },
+  ],
+  [
+    "claude-sonnet-4-5",
+    {
+      contextWindow: 200_000,
+      extendedContextWindow: 1_000_000,
+      maxOutputTokens: 64_000,
+      thinking: true,
+      adaptiveThinking: false,
+      effort: false,
+      structuredOutputs: true,
+      vision: true,
+      toolSearch: true,
+      programmaticToolCalling: true,
+      betas: [CONTEXT_1M_BETA],
+    },
+  ],
+  [
+    "claude-haiku-4-5",
+    {
+      contextWindow: 200_000,
+      maxOutputTokens: 64_000,
+      thinking: true,
+      adaptiveThinking: false,
+      effort: false,
+      structuredOutputs: true,
+      vision: true,
+      toolSearch: false,
+      programmaticToolCalling: false,
+      betas: [],
+    },
+  ],
+  [
+    "claude-opus-4-1",
+    {
+      contextWindow: 200_000,
+      maxOutputTokens: 32_000,
+      thinking: true,
+      adaptiveThinking: false,
+      effort: false,
+      structuredOutputs: false,
+      vision: true,
+      toolSearch: false,
+      programmaticToolCalling: false,
+      betas: [],
+    },
+  ],
+  [
+    "claude-sonnet-4",
+    {
+      contextWindow: 200_000,
+      extendedContextWindow: 1_000_000,
+      maxOutputTokens: 64_000,
+      thinking: true,
+      adaptiveThinking: false,
+      effort: false,
+      structuredOutputs: false,
+      vision: true,
+      toolSearch: false,
+      programmaticToolCalling: false,
+      betas: [CONTEXT_1M_BETA],
+    },
+  ],
+  [
+    "claude-opus-4",
+    {
+      contextWindow: 200_000,
+      maxOutputTokens: 32_000,
+      thinking: true,
+      adaptiveThinking: false,
+      effort: false,
+      structuredOutputs: false,
+      vision: true,
+      toolSearch: false,
+      programmaticToolCalling: false,
+      betas: [],
+    },
+  ],
+  [
+    "claude-3-7-sonnet",
+    {
+      contextWindow: 200_000,
+      maxOutputTokens: 64_000,
+      thinking: true,
+      adaptiveThinking: false,
+      effort: false,
+      structuredOutputs: false,
+      vision: true,
+      toolSearch: false,
+      programmaticToolCalling: false,
+      betas: [],
+    },
+  ],
+  [
+    "claude-3-5-haiku",
+    {
+      contextWindow: 200_000,
+      maxOutputTokens: 8_192,
+      thinking: false,
+      adaptiveThinking: false,
+      effort: false,
+      structuredOutputs: false,
+      vision: true,
+      toolSearch: false,
+      programmaticToolCalling: false,
+      betas: [],
+    },
+  ],
+];
+
+/**
+ * Look up the capabilities of a model ID. Returns null for models the
+ * registry does not know, in which case no checks are applied.
+ */
+export function lookupModelCapabilities(modelId: string): ModelCapabilities | null {
+  for (const [prefix, capabilities] of CAPABILITY_TABLE) {
+    if (modelId === prefix || modelId.startsWith(`${prefix}-`)) {
+      return { ...capabilities, betas: [...capabilities.betas] };
+    }
+  }
+  return null;
+}
+
+/** Raised when a query asks for something the chosen model cannot do. */
+export class ModelCapabilityError extends Error {
+  constructor(
+    readonly model: string,
+    readonly option: string,
+    message: string,
+  ) {
+    super(`[anthropic] ${model} does not support ${option}: ${message}`);
+    this.name = "ModelCapabilityError";
+  }
+}
+
+/** The subset of query options the capability check inspects. */
+export interface CapabilityCheckedOptions {
+  maxTokens?: number;
+  images?: unknown[];
+  thinking?: { type: string; budgetTokens?: number };
+  effort?: string;
+  betas?: string[];
+  responseFormat?: { type: string };
+  toolSearch?: unknown;
+  programmaticToolCalling?: unknown;
+}
+
+/**
+ * Check query options against a model's capabilities.
+ *
+ * Options whose absence still yields a correct answer (effort hints,
+ * unsupported model-gated betas, an oversized maxTokens) are downgraded and
+ * reported in `adjustments`. Options the caller depends on — thinking,
+ * structured output, images, tool search, PTC — throw ModelCapabilityError.
+ */
+export function applyModelCapabilities<T extends CapabilityCheckedOptions>(
+  model: string,
+  opts: T,
+  capabilities: ModelCapabilities,
+): { options: T; adjustments: string[] } {
+  const options: T = { ...opts };
+  const adjustments: string[] = [];
+
+  if (options.thinking && options.thinking.type !== "disabled") {
+    if (!capabilities.thinking) {
+      throw new ModelCapabilityError(model, "thinking", "extended thinking is not available on this model");
+    }
+    if (options.thinking.type === "adaptive" && !capabilities.adaptiveThinking) {
+      throw new ModelCapabilityError(
+        model,
+        "adaptive thinking",
+        'use thinking: { type: "enabled", budgetTokens } instead',
+      );
+    }
+    const budget = options.thinking.budgetTokens;
+    if (typeof budget === "number" && budget >= capabilities.maxOutputTokens) {
+      throw new ModelCapabilityError(
+        model,
+        "thinking budget",
+        `budgetTokens ${budget} must be below the model's ${capabilities.maxOutputTokens} max output tokens`,
+      );
+    }
+  }
+
+  if (options.responseFormat?.type === "json_schema" && !capabilities.structuredOutputs) {
+    throw new ModelCapabilityError(model, "structured outputs", "responseFormat json_schema requires a newer model");
+  }
+  if (options.images && options.images.length > 0 && !capabilities.vision) {
+    throw new ModelCapabilityError(model, "images", "this model does not accept image input");
+  }
+  if (options.toolSearch && !capabilities.toolSearch) {
+    throw new ModelCapabilityError(model, "tool search", "toolSearch is not available on this model");
+  }
+  if (options.programmaticToolCalling && !capabilities.programmaticToolCalling) {
+    throw new ModelCapabilityError(
+      model,
+      "programmatic tool calling",
+      "programmaticToolCalling is not available on this model",
+    );
+  }
+
+  if (options.effort && !capabilities.effort) {
+    adjustments.push(`dropped effort "${options.effort}" (not supported)`);
+    options.effort = undefined;
+  }
+  if (options.betas) {
+    const unsupported = options.betas.filter((b) => MODEL_GATED_BETAS.includes(b) && !capabilities.betas.includes(b));
+    if (unsupported.length > 0) {
+      adjustments.push(`dropped unsupported betas ${unsupported.join(", ")}`);
+      const kept = options.betas.filter((b) => !unsupported.includes(b));
+      options.betas = kept.length > 0 ? kept : undefined;
+    }
+  }
+  if (options.maxTokens && options.maxTokens > capabilities.maxOutputTokens) {
+    adjustments.push(`clamped maxTokens ${options.maxTokens} to ${capabilities.maxOutputTokens}`);
+    options.maxTokens = capabilities.maxOutputTokens;
+  }
+
+  return { options, adjustments };
+}
+
+/**
+ * Remove everything `model` cannot do from `opts` instead of throwing, for
+ * when the plugin itself switches models (fallback) rather than the caller.
+ * Features the caller asked for but the model lacks are dropped and reported
+ * in `adjustments`, then the usual downgrades apply.
+ */
+export function stripUnsupportedOptions<T extends CapabilityCheckedOptions>(
+  model: string,
+  opts: T,
+  capabilities: ModelCapabilities,
+): { options: T; adjustments: string[] } {
+  const options: T = { ...opts };
+  const adjustments: string[] = [];
+  const drop = (key: keyof CapabilityCheckedOptions, what: string) => {
+    options[key] = undefined;
+    adjustments.push(`dropped ${what} (not supported)`);
+  };
+
+  const thinking = options.thinking;
+  if (thinking && thinking.type !== "disabled") {
+    if (!capabilities.thinking || (thinking.type === "adaptive" && !capabilities.adaptiveThinking)) {
+      drop("thinking", `${thinking.type} thinking`);
+    } else if (typeof thinking.budgetTokens === "number" && thinking.budgetTokens >= capabilities.maxOutputTokens) {
+      drop("thinking", `thinking budget ${thinking.budgetTokens}`);
+    }
+  }
+  if (options.responseFormat?.type === "json_schema" && !capabilities.structuredOutputs) {
+    drop("responseFormat", "structured outputs");
+  }
+  if (options.images && options.images.length > 0 && !capabilities.vision) drop("images", "images");
+  if (options.toolSearch && !capabilities.toolSearch) drop("toolSearch", "tool search");
+  if (options.programmaticToolCalling && !capabilities.programmaticToolCalling) {
+    drop("programmaticToolCalling", "programmatic tool calling");
+  }
+
+  const downgraded = applyModelCapabilities(model, options, capabilities);
+  return { options: downgraded.options, adjustments: [...adjustments, ...downgraded.adjustments] };
+}
@@ -0,0 +1,199 @@
+/**
+ * Circuit breaker for Anthropic calls.
+ *
+ * One breaker per auth target (API key, OAuth, hosted gateway), shared by every
+ * client and session using it. After enough consecutive outage-type failures
+ * the breaker opens and calls fail fast with CircuitOpenError instead of each
+ * session retrying against a down API. Once the reset timeout has passed, the
+ * next call first runs a cheap probe (half-open); success closes the breaker.
+ */
+
+import { errorStatus } from "./retry.js";
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+export interface CircuitBreakerOptions {
+  /** Consecutive failures that open the breaker. Default 5. */
+  failureThreshold?: number;
+  /** How long the breaker stays open before probing. Default 30s. */
+  resetTimeoutMs?: number;
+}
+
+/** Breaker state as reported through the provider-anthropic extension. */
+export interface CircuitSnapshot {
+  target: string;
+  state: CircuitState;
+  consecutiveFailures: number;
+  /** When the breaker last opened (epoch ms). */
+  openedAt?: number;
+  /** When the next probe is allowed (epoch ms), while open. */
+  retryAt?: number;
+  lastError?: string;
+}
+
+const DEFAULT_FAILURE_THRESHOLD = 5;
+const DEFAULT_RESET_TIMEOUT_MS = 30_000;
+
+export class CircuitOpenError extends Error {
+  constructor(
+    readonly target: string,
+    readonly retryAt: number,
+    readonly lastError?: string,
+  ) {
+    super(
+      `[anthropic] Circuit open for ${target}, failing fast until ${new Date(retryAt).toISOString()}` +
+        (lastError ? ` (last error: ${lastError})` : ""),
+    );
+    this.name = "CircuitOpenError";
+  }
+}
+
+// Errors that indicate the API (not the request) is failing
+const OUTAGE_STATUS_CODES = [429, 500, 502, 503, 504, 529];
+const OUTAGE_MESSAGES = [
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ETIMEDOUT",
+  "fetch failed",
+  "network",
+  "socket hang up",
+  "overloaded",
+];
+
+/** True for errors that should count against the breaker. */
+export function isOutageError(error: unknown): boolean {
+  const status = errorStatus(error);
+  if (status !== undefined) return OUTAGE_STATUS_CODES.includes(status);
+  const msg = error instanceof Error ? error.message : String(error);
+  return OUTAGE_MESSAGES.some((m) => msg.includes(m));
+}
+
+// The SDK reports API failures inside a run as assistant messages with an error kind
+const OUTAGE_ASSISTANT_ERRORS = ["rate_limit", "server_error"];
+
+/** True for streamed SDK messages that report an API outage. */
+export function isOutageMessage(msg: unknown): boolean {
+  const m = msg as { type?: string; error?: unknown } | null;
+  return m?.type === "assistant" && typeof m.error === "string" && OUTAGE_ASSISTANT_ERRORS.includes(m.error);
+}
+
+export class CircuitBreaker {
+  private state: CircuitState = "closed";
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+  private lastError: string | undefined;
+  private probing: Promise<boolean> | null = null;
+
+  constructor(
+    readonly target: string,
+    private options: CircuitBreakerOptions = {},
+    private readonly now: () => number = Date.now,
+  ) {}
+
+  configure(options: CircuitBreakerOptions): void {
+    this.options = options;
+  }
+
+  private get resetTimeoutMs(): number {
+    return this.options.resetTimeoutMs ?? DEFAULT_RESET_TIMEOUT_MS;
+  }
+
+  /**
+   * Wait until a call may go ahead. Throws CircuitOpenError while the breaker
+   * is open. Once it may be half-open, concurrent callers share one `probe`.
+   */
+  async acquire(probe: () => Promise<void>): Promise<void> {
+    if (this.state === "closed") return;
+
+    const retryAt = this.openedAt + this.resetTimeoutMs;
+    if (this.state === "open" && this.now() < retryAt) {
+      throw new CircuitOpenError(this.target, retryAt, this.lastError);
+    }
+
+    if (!this.probing) {
+      this.state = "half-open";
+      this.probing = probe()
+        .then(
+          () => {
+            this.recordSuccess();
+            return true;
+          },
+          (error) => {
+            this.trip(error);
+            return false;
+          },
+        )
+        .finally(() => {
+          this.probing = null;
+        });
+    }
+    if (!(await this.probing)) {
+      throw new CircuitOpenError(this.target, this.openedAt + this.resetTimeoutMs, this.lastError);
+    }
+  }
+
+  recordSuccess(): void {
+    this.state = "closed";
+    this.consecutiveFailures = 0;
+  }
+
+  /**
+   * Count a failure: a thrown error or an SDK outage message. Anything else
+   * (bad requests, cancellations, budget stops) leaves the breaker alone.
+   */
+  recordFailure(error: unknown): void {
+    if (!isOutageError(error) && !isOutageMessage(error)) return;
+    this.consecutiveFailures++;
+    this.lastError = describeError(error);
+    if (this.consecutiveFailures >= (this.options.failureThreshold ?? DEFAULT_FAILURE_THRESHOLD)) {
+      this.trip(error);
+    }
+  }
+
+  private trip(error: unknown): void {
+    this.state = "open";
+    this.openedAt = this.now();
+    this.lastError = describeError(error);
+  }
+
+  snapshot(): CircuitSnapshot {
+    return {
+      target: this.target,
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      ...(this.openedAt ? { openedAt: this.openedAt } : {}),
+      ...(this.state === "open" ? { retryAt: this.openedAt + this.resetTimeoutMs } : {}),
+      ...(this.lastError ? { lastError: this.lastError } : {}),
+    };
+  }
+}
+
+function describeError(error: unknown): string {
+  if (isOutageMessage(error)) return `assistant error: ${(error as { error: string }).error}`;
+  const status = (error as { status?: unknown } | null)?.status;
+  const msg = error instanceof Error ? error.message : String(error);
+  return (typeof status === "number" ? `${status} ` : "") + msg.slice(0, 200);
+}
+
+export class CircuitBreakerRegistry {
+  private breakers = new Map<string, CircuitBreaker>();
+  private options: CircuitBreakerOptions = {};
+
+  configure(options: CircuitBreakerOptions = {}): void {
+    this.options = options;
+    for (const breaker of this.breakers.values()) breaker.configure(options);
+  }
+
+  get(target: string): CircuitBreaker {
+    let breaker = this.breakers.get(target);
+    if (!breaker) {
+      breaker = new CircuitBreaker(target, this.options);
+      this.breakers.set(target, breaker);
+    }
+    return breaker;
+  }
+
+  snapshots(): CircuitSnapshot[] {
+    return [...this.breakers.values()].map((b) => b.snapshot());
+  }
+}
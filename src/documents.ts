@@ -0,0 +1,121 @@
+/**
+ * Document input.
+ *
+ * Turns the documents on a query into Anthropic document content blocks:
+ * PDFs as base64, anything that decodes as UTF-8 text as plain text. They
+ * are loaded like images (http(s), `file://` and `data:` URLs or in-memory
+ * data, under the same fetch and size limits) and recognised by content
+ * rather than declared type. Titles, context and citations pass through.
+ */
+
+import type { MediaFetchConfig, MediaFetchErrorCode } from "./media-fetch.js";
+import { describeSource, loadMedia } from "./media-input.js";
+
+/** A document with metadata. Exactly one of `url`, `data` or `text` gives the content. */
+export interface DocumentAttachment {
+  /** http(s), `file://` or `data:` URL. */
+  url?: string;
+  /** Raw bytes or base64, e.g. an upload from a chat channel. */
+  data?: Uint8Array | string;
+  /** The document itself, as plain text. */
+  text?: string;
+  /** Informational; the format is detected from the content. */
+  mediaType?: string;
+  title?: string;
+  /** Information about the document for the model; not cited from. */
+  context?: string;
+  /** Let the model cite passages of this document in its answer. */
+  citations?: boolean;
+}
+
+/** An http(s), `file://` or `data:` URL, or an attachment. */
+export type DocumentInput = string | DocumentAttachment;
+
+export interface DocumentBlock {
+  type: "document";
+  source:
+    | { type: "base64"; media_type: "application/pdf"; data: string }
+    | { type: "text"; media_type: "text/plain"; data: string };
+  title?: string;
+  context?: string;
+  citations?: { enabled: boolean };
+}
+
+export class DocumentInputError extends Error {
+  constructor(
+    readonly source: string,
+    message: string,
+    /** Set when the document was a URL the media fetcher refused or gave up on. */
+    readonly code?: MediaFetchErrorCode,
+  ) {
+    super(`[anthropic] Document ${source}: ${message}`);
+    this.name = "DocumentInputError";
+  }
+}
+
+const utf8 = new TextDecoder("utf-8", { fatal: true });
+
+/** "application/pdf", "text/plain" for valid UTF-8 without NUL bytes, or null. */
+export function sniffDocumentType(bytes: Uint8Array): "application/pdf" | "text/plain" | null {
+  if (String.fromCharCode(...bytes.subarray(0, 5)) === "%PDF-") return "application/pdf";
+  if (bytes.includes(0)) return null;
+  try {
+    utf8.decode(bytes);
+    return "text/plain";
+  } catch {
+    return null;
+  }
+}
+
+function describeDocument(document: DocumentInput, index: number): string {
+  if (typeof document === "string") return describeSource(document, index);
+  if (document.title) return `"${document.title}"`;
+  return describeSource(document.url ?? document, index);
+}
+
+async function loadDocument(
+  document: DocumentInput,
+  source: string,
+  config?: MediaFetchConfig,
+): Promise<DocumentBlock["source"]> {
+  if (typeof document !== "string" && document.text !== undefined) {
+    return { type: "text", media_type: "text/plain", data: document.text };
+  }
+  const input =
+    typeof document === "string"
+      ? document
+      : (document.url ?? (document.data !== undefined ? { data: document.data } : undefined));
+  if (input === undefined) throw new DocumentInputError(source, "needs a url, data or text");
+  const bytes = await loadMedia(input, source, config, DocumentInputError);
+  const mediaType = sniffDocumentType(bytes);
+  if (mediaType === "application/pdf") {
+    return { type: "base64", media_type: mediaType, data: Buffer.from(bytes).toString("base64") };
+  }
+  if (mediaType === "text/plain") return { type: "text", media_type: mediaType, data: utf8.decode(bytes) };
+  const declared = typeof document === "string" ? "" : ` (declared ${document.mediaType ?? "no type"})`;
+  throw new DocumentInputError(source, `unsupported document format${declared}; expected PDF or plain text`);
+}
+
+/**
+ * Document content blocks for `documents`, in order. Throws
+ * DocumentInputError for an unreadable, unsupported, blocked or failed
+ * document.
+ */
+export async function buildDocumentBlocks(
+  documents: DocumentInput[] | undefined,
+  fetchConfig?: MediaFetchConfig,
+): Promise<DocumentBlock[]> {
+  const blocks: DocumentBlock[] = [];
+  for (const [index, document] of (documents ?? []).entries()) {
+    const source = describeDocument(document, index);
+    const content = await loadDocument(document, source, fetchConfig);
+    const block: DocumentBlock = { type: "document", source: content };
+    if (typeof document !== "string") {
+      if (document.title) block.title = document.title;
+      if (document.context) block.context = document.context;
+      if (document.citations) block.citations = { enabled: true };
+    }
+    blocks.push(block);
+  }
+  return blocks;
+}
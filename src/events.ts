@@ -0,0 +1,342 @@
+/**
+ * Normalized stream events.
+ *
+ * Opt-in alternative to the raw Claude Agent SDK message stream. SDK messages
+ * are translated into a small, documented discriminated union so WOPR channels
+ * can render Claude output without depending on SDK message shapes. Select it
+ * with `eventFormat: "normalized"` on the query, client options or plugin config.
+ */
+
+import type { BudgetMetric, BudgetScope } from "./budget.js";
+import type { ImageReport } from "./image-processing.js";
+import type { UsageSummary } from "./usage.js";
+
+export type EventFormat = "sdk" | "normalized";
+
+/** The SDK session is ready (from the SDK's system/init message). */
+export interface SessionStartedEvent {
+  type: "session-started";
+  sessionId: string;
+  model: string;
+  tools: string[];
+}
+
+/** A piece of assistant text. Full blocks unless partial messages are enabled. */
+export interface TextDeltaEvent {
+  type: "text-delta";
+  text: string;
+  /** Set when the text comes from a subagent started by this tool call. */
+  parentToolUseId: string | null;
+}
+
+/** A piece of extended-thinking output. */
+export interface ThinkingDeltaEvent {
+  type: "thinking-delta";
+  thinking: string;
+  parentToolUseId: string | null;
+}
+
+/** The model called a tool. */
+export interface ToolCallEvent {
+  type: "tool-call";
+  toolUseId: string;
+  name: string;
+  input: unknown;
+  parentToolUseId: string | null;
+}
+
+/** A tool finished; `content` is the tool_result content as sent back to the model. */
+export interface ToolResultEvent {
+  type: "tool-result";
+  toolUseId: string;
+  content: unknown;
+  isError: boolean;
+}
+
+/** Token usage and cost of the query (or V2 turn). */
+export interface UsageEvent extends UsageSummary {
+  type: "usage";
+}
+
+/** The query (or V2 turn) finished. */
+export interface FinalResultEvent {
+  type: "final-result";
+  sessionId: string;
+  /** "success" or one of the SDK's error_* result subtypes. */
+  subtype: string;
+  isError: boolean;
+  /** Final assistant text; absent on error results. */
+  result?: string;
+  structuredOutput?: unknown;
+  numTurns: number;
+  durationMs: number;
+}
+
+/** Something went wrong: an SDK-reported error or an error thrown by the query. */
+export interface ErrorEvent {
+  type: "error";
+  message: string;
+  /** SDK error kind (e.g. "rate_limit", "error_max_turns") or the thrown error's name. */
+  code?: string;
+}
+
+/** The plugin moved the query to the next model of its fallback chain. */
+export interface ModelFallbackEvent {
+  type: "model-fallback";
+  /** The model that was overloaded or rate limited. */
+  from: string;
+  /** The model serving the query from here on. */
+  model: string;
+  reason: string;
+}
+
+/** The plugin resolved a model alias to the concrete model ID sent to the SDK. */
+export interface ModelResolvedEvent {
+  type: "model-resolved";
+  /** The model string the caller asked for, e.g. "sonnet". */
+  requested: string;
+  model: string;
+}
+
+/** A budget crossed one of its warning thresholds. */
+export interface BudgetWarningEvent {
+  type: "budget-warning";
+  scope: BudgetScope;
+  metric: BudgetMetric;
+  /** Fraction of the limit, e.g. 0.8. */
+  threshold: number;
+  used: number;
+  limit: number;
+}
+
+/** The query's images were measured and, where needed, downscaled before sending. */
+export interface ImagesProcessedEvent {
+  type: "images-processed";
+  images: ImageReport[];
+  estimatedTokens: number;
+}
+
+/**
+ * A V1 query's stream broke off after output and continues in the same SDK
+ * session; the events after this continue the interrupted response.
+ */
+export interface StreamResumedEvent {
+  type: "stream-resumed";
+  sessionId: string;
+  /** Retry number (1 for the first retry). */
+  attempt: number;
+  /** Why the stream broke off, e.g. "529" or "ECONNRESET". */
+  reason: string;
+}
+
+export type WoprStreamEvent =
+  | SessionStartedEvent
+  | TextDeltaEvent
+  | ThinkingDeltaEvent
+  | ToolCallEvent
+  | ToolResultEvent
+  | UsageEvent
+  | FinalResultEvent
+  | ErrorEvent
+  | ModelFallbackEvent
+  | ModelResolvedEvent
+  | BudgetWarningEvent
+  | ImagesProcessedEvent
+  | StreamResumedEvent;
+
+type ContentBlock = { type?: string; [key: string]: unknown };
+
+interface RawMessage {
+  type?: string;
+  subtype?: string;
+  session_id?: string;
+  parent_tool_use_id?: string | null;
+  message?: { id?: string; content?: unknown };
+  event?: { type?: string; message?: { id?: string }; delta?: { type?: string; text?: string; thinking?: string } };
+  error?: string;
+  usageSummary?: UsageSummary;
+  [key: string]: unknown;
+}
+
+function blocksOf(content: unknown): ContentBlock[] {
+  return Array.isArray(content) ? (content.filter((b) => b && typeof b === "object") as ContentBlock[]) : [];
+}
+
+/** Error event for an error thrown out of the stream. */
+export function errorEvent(error: unknown): ErrorEvent {
+  if (error instanceof Error) return { type: "error", message: error.message, code: error.name };
+  return { type: "error", message: String(error) };
+}
+
+/**
+ * Translates SDK messages into WoprStreamEvents. Stateful: when partial
+ * messages (`stream_event`) are enabled, text and thinking arrive as deltas and
+ * are then skipped in the complete assistant message that follows.
+ */
+export class EventNormalizer {
+  private currentMessageId: string | null = null;
+  private streamedMessageIds = new Set<string>();
+
+  normalize(msg: unknown): WoprStreamEvent[] {
+    const m = msg as RawMessage | null;
+    if (!m || typeof m !== "object") return [];
+    switch (m.type) {
+      case "system":
+        return this.fromSystem(m);
+      case "stream_event":
+        return this.fromStreamEvent(m);
+      case "assistant":
+        return this.fromAssistant(m);
+      case "user":
+        return this.fromUser(m);
+      case "result":
+        return this.fromResult(m);
+      default:
+        return [];
+    }
+  }
+
+  private fromSystem(m: RawMessage): WoprStreamEvent[] {
+    switch (m.subtype) {
+      case "init":
+        return [
+          {
+            type: "session-started",
+            sessionId: m.session_id ?? "",
+            model: typeof m.model === "string" ? m.model : "",
+            tools: Array.isArray(m.tools) ? (m.tools as string[]) : [],
+          },
+        ];
+      case "model_resolved":
+        return [{ type: "model-resolved", requested: String(m.requested), model: String(m.model) }];
+      case "model_fallback":
+        return [{ type: "model-fallback", from: String(m.from), model: String(m.model), reason: String(m.reason) }];
+      case "budget_warning":
+        return [
+          {
+            type: "budget-warning",
+            scope: m.scope as BudgetScope,
+            metric: m.metric as BudgetMetric,
+            threshold: Number(m.threshold),
+            used: Number(m.used),
+            limit: Number(m.limit),
+          },
+        ];
+      case "stream_resumed":
+        return [
+          {
+            type: "stream-resumed",
+            sessionId: String(m.sessionId),
+            attempt: Number(m.attempt),
+            reason: String(m.reason),
+          },
+        ];
+      case "images_processed":
+        return [
+          {
+            type: "images-processed",
+            images: Array.isArray(m.images) ? (m.images as ImageReport[]) : [],
+            estimatedTokens: Number(m.estimatedTokens),
+          },
+        ];
+      default:
+        return [];
+    }
+  }
+
+  private fromStreamEvent(m: RawMessage): WoprStreamEvent[] {
+    const event = m.event;
+    const parentToolUseId = m.parent_tool_use_id ?? null;
+    if (event?.type === "message_start") {
+      this.currentMessageId = event.message?.id ?? null;
+      return [];
+    }
+    if (event?.type !== "content_block_delta" || !event.delta) return [];
+    if (this.currentMessageId) this.streamedMessageIds.add(this.currentMessageId);
+    if (event.delta.type === "text_delta" && event.delta.text) {
+      return [{ type: "text-delta", text: event.delta.text, parentToolUseId }];
+    }
+    if (event.delta.type === "thinking_delta" && event.delta.thinking) {
+      return [{ type: "thinking-delta", thinking: event.delta.thinking, parentToolUseId }];
+    }
+    return [];
+  }
+
+  private fromAssistant(m: RawMessage): WoprStreamEvent[] {
+    const events: WoprStreamEvent[] = [];
+    const parentToolUseId = m.parent_tool_use_id ?? null;
+    const streamed = !!m.message?.id && this.streamedMessageIds.has(m.message.id);
+
+    for (const block of blocksOf(m.message?.content)) {
+      if (block.type === "text" && !streamed && typeof block.text === "string") {
+        events.push({ type: "text-delta", text: block.text, parentToolUseId });
+      } else if (block.type === "thinking" && !streamed && typeof block.thinking === "string") {
+        events.push({ type: "thinking-delta", thinking: block.thinking, parentToolUseId });
+      } else if (block.type === "tool_use" || block.type === "server_tool_use") {
+        events.push({
+          type: "tool-call",
+          toolUseId: String(block.id ?? ""),
+          name: String(block.name ?? ""),
+          input: block.input,
+          parentToolUseId,
+        });
+      }
+    }
+    if (m.error) {
+      events.push({ type: "error", message: `Assistant message failed: ${m.error}`, code: m.error });
+    }
+    return events;
+  }
+
+  private fromUser(m: RawMessage): WoprStreamEvent[] {
+    return blocksOf(m.message?.content)
+      .filter((block) => block.type === "tool_result")
+      .map(
+        (block): ToolResultEvent => ({
+          type: "tool-result",
+          toolUseId: String(block.tool_use_id ?? ""),
+          content: block.content,
+          isError: block.is_error === true,
+        }),
+      );
+  }
+
+  private fromResult(m: RawMessage): WoprStreamEvent[] {
+    const events: WoprStreamEvent[] = [];
+    if (m.usageSummary) events.push({ type: "usage", ...m.usageSummary });
+
+    const subtype = m.subtype ?? "success";
+    const isError = m.is_error === true || subtype !== "success";
+    if (isError) {
+      const errors = Array.isArray(m.errors) ? (m.errors as string[]) : [];
+      events.push({ type: "error", message: errors.join("; ") || `Query ended with ${subtype}`, code: subtype });
+    }
+    events.push({
+      type: "final-result",
+      sessionId: m.session_id ?? "",
+      subtype,
+      isError,
+      ...(typeof m.result === "string" ? { result: m.result } : {}),
+      ...(m.structured_output !== undefined ? { structuredOutput: m.structured_output } : {}),
+      numTurns: typeof m.num_turns === "number" ? m.num_turns : 0,
+      durationMs: typeof m.duration_ms === "number" ? m.duration_ms : 0,
+    });
+    return events;
+  }
+}
+
+/**
+ * Normalize a whole stream. A thrown error is reported as an `error` event and
+ * then rethrown, so callers that rely on exceptions still see it.
+ */
+export async function* normalizeStream(stream: AsyncIterable<unknown>): AsyncGenerator<WoprStreamEvent> {
+  const normalizer = new EventNormalizer();
+  try {
+    for await (const msg of stream) {
+      yield* normalizer.normalize(msg);
+    }
+  } catch (error) {
+    yield errorEvent(error);
+    throw error;
+  }
+}
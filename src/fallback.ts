@@ -0,0 +1,57 @@
+/**
+ * Fallback model chain.
+ *
+ * When a model is overloaded or rate limited even after retries, the query is
+ * re-run on the next model of an operator-configured chain (e.g. opus →
+ * sonnet → haiku) instead of failing. Only models after the requested one are
+ * tried, so a chain never upgrades a request.
+ */
+
+import { apiErrorType, errorStatus } from "./retry.js";
+
+export interface FallbackConfig {
+  /**
+   * Models in order of preference, e.g. ["claude-opus-4-6", "sonnet", "haiku"].
+   * Aliases are resolved like the `model` of a query.
+   */
+  models?: string[];
+}
+
+/** Emitted by the plugin when a query moved to the next model of the fallback chain. */
+export interface ModelFallbackMessage {
+  type: "system";
+  subtype: "model_fallback";
+  /** The model that was overloaded or rate limited. */
+  from: string;
+  /** The model serving the query from here on. */
+  model: string;
+  /** What went wrong, e.g. "529" or "rate_limit". */
+  reason: string;
+}
+
+// Statuses and API error types meaning "this model has no capacity right now"
+const CAPACITY_STATUS_CODES = [429, 529];
+const CAPACITY_ERROR_TYPES = ["overloaded_error", "rate_limit_error"];
+
+/** True for overload and rate-limit errors, which another model may not have. */
+export function isCapacityError(error: unknown): boolean {
+  const status = errorStatus(error);
+  if (status !== undefined) return CAPACITY_STATUS_CODES.includes(status);
+  const type = apiErrorType(error);
+  return type !== undefined && CAPACITY_ERROR_TYPES.includes(type);
+}
+
+function matches(model: string, entry: string): boolean {
+  return model === entry || model.startsWith(`${entry}-`);
+}
+
+/**
+ * Models to fall back to from `model`: the entries after it in `chain`
+ * (concrete IDs; dated snapshots match their undated entry). A model that
+ * is not in the chain has no fallbacks.
+ */
+export function fallbackChain(model: string, chain: string[]): string[] {
+  const index = chain.findIndex((entry) => matches(model, entry));
+  if (index === -1) return [];
+  return chain.slice(index + 1).filter((entry, i, rest) => !matches(model, entry) && rest.indexOf(entry) === i);
+}
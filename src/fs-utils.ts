@@ -0,0 +1,23 @@
+/**
+ * Small filesystem helpers shared by the plugin's on-disk state.
+ */
+
+import { randomBytes } from "node:crypto";
+import { mkdir, rename, unlink, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+
+/**
+ * Write a file via write-to-temp + rename so concurrent readers never see a
+ * partially written document. Creates the parent directory if needed.
+ */
+export async function writeFileAtomic(path: string, data: string, mode = 0o600): Promise<void> {
+  await mkdir(dirname(path), { recursive: true });
+  const tmpPath = `${path}.${randomBytes(6).toString("hex")}.tmp`;
+  try {
+    await writeFile(tmpPath, data, { mode });
+    await rename(tmpPath, path);
+  } catch (error) {
+    await unlink(tmpPath).catch(() => {});
+    throw error;
+  }
+}
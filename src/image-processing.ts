@@ -0,0 +1,221 @@
+/**
+ * Image preprocessing.
+ *
+ * Phone photos are far larger than Claude can use: the API scales anything
+ * over 1568px on the long edge (or about 1.15 megapixels) down anyway, after
+ * the full-size upload has been paid for in bandwidth and sometimes rejected
+ * for size. Images are measured from their headers, downscaled to the
+ * configured maximum edge and re-encoded (with sharp, an optional
+ * dependency), and their token cost estimated so a per-query image budget
+ * can be enforced before the request goes out.
+ */
+
+import { logger } from "./logger.js";
+
+export interface ImageProcessingConfig {
+  /** Longest edge sent, in pixels. Default 1568, Anthropic's recommended maximum. */
+  maxEdge?: number;
+  /** Downscale and re-encode large images. Default true; needs the optional `sharp` package. */
+  resize?: boolean;
+  /** Estimated image tokens allowed per query (or V2 turn). Unlimited by default. */
+  maxTokensPerQuery?: number;
+}
+
+export interface ImageDimensions {
+  width: number;
+  height: number;
+}
+
+/** What happened to one image on its way to the model. */
+export interface ImageReport extends ImageDimensions {
+  /** The image as described in errors: URL, `data URL #n` or `attachment #n`. */
+  source: string;
+  mediaType: string;
+  bytes: number;
+  estimatedTokens: number;
+  /** Set when the image was downscaled or re-encoded. */
+  original?: ImageDimensions & { mediaType: string; bytes: number };
+}
+
+/** Emitted by the plugin ahead of a query or V2 turn that carries images. */
+export interface ImagesProcessedMessage {
+  type: "system";
+  subtype: "images_processed";
+  images: ImageReport[];
+  /** Sum of the per-image estimates. */
+  estimatedTokens: number;
+}
+
+export class ImageBudgetError extends Error {
+  constructor(
+    readonly limit: number,
+    readonly estimatedTokens: number,
+  ) {
+    super(`[anthropic] Images need about ${estimatedTokens} tokens, over the per-query image budget of ${limit}`);
+    this.name = "ImageBudgetError";
+  }
+}
+
+export const DEFAULT_MAX_EDGE = 1568;
+const MAX_PIXELS = 1_150_000;
+// The API caps an image at about this many tokens by scaling it down itself
+const MAX_IMAGE_TOKENS = 1600;
+const PIXELS_PER_TOKEN = 750;
+/** Per-image request limit of the Messages API. */
+export const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+const JPEG_QUALITY = 85;
+
+/** Width and height from the image header, or null if they can't be read. */
+export function imageDimensions(bytes: Uint8Array, mediaType: string): ImageDimensions | null {
+  const u16be = (i: number) => (bytes[i] << 8) | bytes[i + 1];
+  const u16le = (i: number) => bytes[i] | (bytes[i + 1] << 8);
+  const u24le = (i: number) => bytes[i] | (bytes[i + 1] << 8) | (bytes[i + 2] << 16);
+  if (mediaType === "image/png" && bytes.length >= 24) {
+    return { width: (u16be(16) << 16) | u16be(18), height: (u16be(20) << 16) | u16be(22) };
+  }
+  if (mediaType === "image/gif" && bytes.length >= 10) {
+    return { width: u16le(6), height: u16le(8) };
+  }
+  if (mediaType === "image/webp" && bytes.length >= 30) {
+    const chunk = String.fromCharCode(...bytes.subarray(12, 16));
+    if (chunk === "VP8 ") return { width: u16le(26) & 0x3fff, height: u16le(28) & 0x3fff };
+    if (chunk === "VP8L") {
+      return {
+        width: 1 + (((bytes[22] & 0x3f) << 8) | bytes[21]),
+        height: 1 + (((bytes[24] & 0x0f) << 10) | (bytes[23] << 2) | ((bytes[22] & 0xc0) >> 6)),
+      };
+    }
+    if (chunk === "VP8X") return { width: 1 + u24le(24), height: 1 + u24le(27) };
+    return null;
+  }
+  if (mediaType === "image/jpeg") {
+    // Walk the segments to the first start-of-frame marker
+    let i = 2;
+    while (i + 9 < bytes.length) {
+      if (bytes[i] !== 0xff) return null;
+      const marker = bytes[i + 1];
+      if (marker === 0xff) {
+        i++;
+        continue;
+      }
+      if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+        return { width: u16be(i + 7), height: u16be(i + 5) };
+      }
+      i += 2 + u16be(i + 2);
+    }
+  }
+  return null;
+}
+
+/** The size `dimensions` fit into: within `maxEdge` on both sides and about 1.15 megapixels. */
+export function fitDimensions(dimensions: ImageDimensions, maxEdge = DEFAULT_MAX_EDGE): ImageDimensions {
+  const { width, height } = dimensions;
+  const scale = Math.min(1, maxEdge / Math.max(width, height), Math.sqrt(MAX_PIXELS / (width * height)));
+  if (scale === 1) return dimensions;
+  return { width: Math.max(1, Math.floor(width * scale)), height: Math.max(1, Math.floor(height * scale)) };
+}
+
+/** Anthropic's estimate of what an image costs: (width × height) / 750, after the API's own downscaling. */
+export function estimateImageTokens(dimensions: ImageDimensions): number {
+  const { width, height } = fitDimensions(dimensions);
+  return Math.min(MAX_IMAGE_TOKENS, Math.ceil((width * height) / PIXELS_PER_TOKEN));
+}
+
+// The parts of sharp used here; it's an optional dependency, so its types aren't imported
+interface SharpPipeline {
+  rotate(): SharpPipeline;
+  resize(options: { width: number; height: number; fit: "inside" }): SharpPipeline;
+  flatten(options: { background: string }): SharpPipeline;
+  jpeg(options: { quality: number }): SharpPipeline;
+  png(options: { compressionLevel: number }): SharpPipeline;
+  webp(options: { quality: number }): SharpPipeline;
+  toBuffer(): Promise<Buffer>;
+}
+type Sharp = (input: Uint8Array) => SharpPipeline;
+
+const SHARP_MODULE = "sharp";
+let sharpLoader: Promise<Sharp | null> | undefined;
+
+function loadSharp(): Promise<Sharp | null> {
+  sharpLoader ??= import(SHARP_MODULE).then(
+    (mod) => (mod.default ?? mod) as Sharp,
+    () => {
+      logger.warn(
+        "[anthropic] Install the optional 'sharp' package to downscale images; sending them as they are (up to 5 MB)",
+      );
+      return null;
+    },
+  );
+  return sharpLoader;
+}
+
+/** True when the optional `sharp` package can be loaded. */
+export async function sharpAvailable(): Promise<boolean> {
+  return (await loadSharp()) !== null;
+}
+
+function encode(pipeline: SharpPipeline, mediaType: string): SharpPipeline {
+  if (mediaType === "image/png") return pipeline.png({ compressionLevel: 9 });
+  if (mediaType === "image/webp") return pipeline.webp({ quality: JPEG_QUALITY });
+  return pipeline.jpeg({ quality: JPEG_QUALITY });
+}
+
+/**
+ * Downscale an image to fit `maxEdge`, and re-encode it as JPEG if it is
+ * still over the API's per-image byte limit. GIFs (possibly animated) and
+ * images whose size can't be read are passed through untouched.
+ */
+export async function processImage(
+  image: { source: string; bytes: Uint8Array; mediaType: string },
+  config: ImageProcessingConfig = {},
+): Promise<{ bytes: Uint8Array; report: ImageReport }> {
+  const dimensions = imageDimensions(image.bytes, image.mediaType);
+  const unchanged = (size: ImageDimensions | null) => ({
+    bytes: image.bytes,
+    report: {
+      source: image.source,
+      mediaType: image.mediaType,
+      width: size?.width ?? 0,
+      height: size?.height ?? 0,
+      bytes: image.bytes.length,
+      estimatedTokens: size ? estimateImageTokens(size) : MAX_IMAGE_TOKENS,
+    },
+  });
+  if (!dimensions || image.mediaType === "image/gif" || config.resize === false) return unchanged(dimensions);
+
+  const target = fitDimensions(dimensions, config.maxEdge ?? DEFAULT_MAX_EDGE);
+  const shrink = target.width < dimensions.width || target.height < dimensions.height;
+  if (!shrink && image.bytes.length <= MAX_IMAGE_BYTES) return unchanged(dimensions);
+
+  const sharp = await loadSharp();
+  if (!sharp) return unchanged(dimensions);
+  try {
+    // A square box, since rotate() may turn the image on its side first
+    const edge = Math.max(target.width, target.height);
+    const resized = () => {
+      const pipeline = sharp(image.bytes).rotate();
+      return shrink ? pipeline.resize({ width: edge, height: edge, fit: "inside" }) : pipeline;
+    };
+    let mediaType = image.mediaType;
+    let bytes: Uint8Array = await encode(resized(), mediaType).toBuffer();
+    if (bytes.length > MAX_IMAGE_BYTES && mediaType !== "image/jpeg") {
+      mediaType = "image/jpeg";
+      bytes = await encode(resized().flatten({ background: "#ffffff" }), mediaType).toBuffer();
+    }
+    const size = imageDimensions(bytes, mediaType) ?? target;
+    return {
+      bytes,
+      report: {
+        source: image.source,
+        mediaType,
+        ...size,
+        bytes: bytes.length,
+        estimatedTokens: estimateImageTokens(size),
+        original: { ...dimensions, mediaType: image.mediaType, bytes: image.bytes.length },
+      },
+    };
+  } catch (error) {
+    logger.warn(`[anthropic] Could not downscale image ${image.source}: ${error}`);
+    return unchanged(dimensions);
+  }
+}
@@ -0,0 +1,134 @@
+/**
+ * Image input.
+ *
+ * Turns the image references on a query into Anthropic base64 image content
+ * blocks, for V1 queries and for messages sent into V2 sessions alike.
+ * Images can be http(s) URLs, `file://` paths, `data:` URLs or in-memory
+ * attachments, loaded by media-input under the media fetcher's SSRF and size
+ * limits. The format is sniffed from the image bytes rather than taken from
+ * headers or the caller, and anything that isn't JPEG, PNG, GIF or WebP is
+ * rejected with ImageInputError, as is any download that is blocked or
+ * fails.
+ * Images are then downscaled and budgeted by image-processing.
+ */
+
+import {
+  ImageBudgetError,
+  type ImageProcessingConfig,
+  type ImageReport,
+  type ImagesProcessedMessage,
+  MAX_IMAGE_BYTES,
+  processImage,
+  sharpAvailable,
+} from "./image-processing.js";
+import type { MediaFetchConfig, MediaFetchErrorCode } from "./media-fetch.js";
+import { describeSource, loadMedia } from "./media-input.js";
+
+/** An in-memory image, e.g. an upload from a chat channel. `data` is raw bytes or base64. */
+export interface ImageAttachment {
+  data: Uint8Array | string;
+  /** Informational; the format is sniffed from the bytes. */
+  mediaType?: string;
+}
+
+/** An http(s) URL, `file://` URL, `data:` URL, or an attachment. */
+export type ImageInput = string | ImageAttachment;
+
+export interface ImageBlock {
+  type: "image";
+  source: { type: "base64"; media_type: string; data: string };
+}
+
+export class ImageInputError extends Error {
+  constructor(
+    readonly source: string,
+    message: string,
+    /** Set when the image was a URL the media fetcher refused or gave up on. */
+    readonly code?: MediaFetchErrorCode,
+  ) {
+    super(`[anthropic] Image ${source}: ${message}`);
+    this.name = "ImageInputError";
+  }
+}
+
+const SUPPORTED_FORMATS = "JPEG, PNG, GIF or WebP";
+
+/** The image's media type from its leading bytes, or null if it isn't a supported format. */
+export function sniffImageType(bytes: Uint8Array): string | null {
+  const ascii = (start: number, end: number) => String.fromCharCode(...bytes.subarray(start, end));
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return "image/jpeg";
+  if (bytes[0] === 0x89 && ascii(1, 4) === "PNG") return "image/png";
+  if (ascii(0, 6) === "GIF87a" || ascii(0, 6) === "GIF89a") return "image/gif";
+  if (ascii(0, 4) === "RIFF" && ascii(8, 12) === "WEBP") return "image/webp";
+  return null;
+}
+
+interface LoadedImage {
+  source: string;
+  bytes: Uint8Array;
+  mediaType: string;
+}
+
+async function loadImages(images: ImageInput[] | undefined, fetchConfig?: MediaFetchConfig): Promise<LoadedImage[]> {
+  const loaded: LoadedImage[] = [];
+  for (const [index, image] of (images ?? []).entries()) {
+    const source = describeSource(image, index);
+    const bytes = await loadMedia(image, source, fetchConfig, ImageInputError);
+    const mediaType = sniffImageType(bytes);
+    if (!mediaType) {
+      const declared = typeof image === "string" ? "" : ` (declared ${image.mediaType ?? "no type"})`;
+      throw new ImageInputError(source, `unsupported image format${declared}; expected ${SUPPORTED_FORMATS}`);
+    }
+    loaded.push({ source, bytes, mediaType });
+  }
+  return loaded;
+}
+
+export interface ImageOptions {
+  fetch?: MediaFetchConfig;
+  processing?: ImageProcessingConfig;
+}
+
+export interface PreparedImages {
+  blocks: ImageBlock[];
+  /** For the stream; null when there are no images. */
+  report: ImagesProcessedMessage | null;
+}
+
+/**
+ * Image content blocks for `images`, in order, downscaled as configured.
+ * Throws ImageInputError for an unreadable, unsupported or blocked image or
+ * one still over the API's per-image size limit, and ImageBudgetError when the images together exceed the per-query token
+ * budget.
+ */
+export async function prepareImages(
+  images: ImageInput[] | undefined,
+  options: ImageOptions = {},
+): Promise<PreparedImages> {
+  const loaded = await loadImages(images, options.fetch);
+  if (loaded.length === 0) return { blocks: [], report: null };
+
+  const blocks: ImageBlock[] = [];
+  const reports: ImageReport[] = [];
+  for (const image of loaded) {
+    const { bytes, report } = await processImage(image, options.processing);
+    if (bytes.length > MAX_IMAGE_BYTES) {
+      // The API would reject the whole request
+      const hint = (await sharpAvailable()) ? "" : "; install the optional 'sharp' package to downscale it";
+      throw new ImageInputError(
+        image.source,
+        `${bytes.length} bytes is over the API's 5 MB per-image limit${hint}`,
+        "too_large",
+      );
+    }
+    blocks.push({
+      type: "image",
+      source: { type: "base64", media_type: report.mediaType, data: Buffer.from(bytes).toString("base64") },
+    });
+    reports.push(report);
+  }
+  const estimatedTokens = reports.reduce((sum, r) => sum + r.estimatedTokens, 0);
+  const limit = options.processing?.maxTokensPerQuery;
+  if (limit !== undefined && estimatedTokens > limit) throw new ImageBudgetError(limit, estimatedTokens);
+  return { blocks, report: { type: "system", subtype: "images_processed", images: reports, estimatedTokens } };
+}
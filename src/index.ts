@@ -6,6 +6,7 @@
  * 2. API Key - Direct API key (sk-ant-...)
  */
 
+import { createHash } from "node:crypto";
 import { existsSync, readFileSync } from "node:fs";
 import { homedir } from "node:os";
 import { dirname, join } from "node:path";
@@ -19,14 +20,98 @@ const pkg = JSON.parse(readFileSync(join(__dirname, "..", "package.json"), "utf-
 };
 
 import {
+  type HookCallback,
   query,
   type SDKMessage,
   type SDKSession,
+  type SDKSessionOptions,
   unstable_v2_createSession,
   unstable_v2_resumeSession,
 } from "@anthropic-ai/claude-agent-sdk";
 import type { PluginManifest, WOPRPlugin, WOPRPluginContext } from "@wopr-network/plugin-types";
-import winston from "winston";
+import { isModelAlias, type ModelAliasPins, resolveModelAlias } from "./aliases.js";
+import { type ToolAuditConfig, type ToolAuditEntry, ToolAuditLog } from "./audit.js";
+import {
+  type BudgetConfig,
+  BudgetExceededError,
+  BudgetGuard,
+  type BudgetWarningMessage,
+  DailySpend,
+  hasBudgets,
+  totalTokens,
+} from "./budget.js";
+import { Cancellation, cancellable, QueryCancelledError, withTimeout } from "./cancellation.js";
+import {
+  applyModelCapabilities,
+  lookupModelCapabilities,
+  type ModelCapabilities,
+  ModelCapabilityError,
+  stripUnsupportedOptions,
+} from "./capabilities.js";
+import {
+  type CircuitBreaker,
+  type CircuitBreakerOptions,
+  CircuitBreakerRegistry,
+  CircuitOpenError,
+  type CircuitSnapshot,
+  isOutageMessage,
+} from "./circuit-breaker.js";
+import { buildDocumentBlocks, type DocumentAttachment, type DocumentInput, DocumentInputError } from "./documents.js";
+import { type EventFormat, normalizeStream, type WoprStreamEvent } from "./events.js";
+import { type FallbackConfig, fallbackChain, isCapacityError, type ModelFallbackMessage } from "./fallback.js";
+import { writeFileAtomic } from "./fs-utils.js";
+import {
+  ImageBudgetError,
+  type ImageProcessingConfig,
+  type ImageReport,
+  type ImagesProcessedMessage,
+} from "./image-processing.js";
+import { type ImageAttachment, type ImageInput, ImageInputError, prepareImages } from "./images.js";
+import { logger } from "./logger.js";
+import { type MediaFetchConfig, MediaFetchError, type MediaFetchErrorCode } from "./media-fetch.js";
+import { queryPrompt, sessionMessage } from "./media-input.js";
+import { OAuthTokenManager } from "./oauth.js";
+import {
+  INTERNAL_QUERY_PERMISSIONS,
+  type PermissionConfig,
+  type PermissionMode,
+  PermissionModeError,
+  resolvePermissionMode,
+  sdkPermissionOptions,
+} from "./permissions.js";
+import {
+  type RateLimitConfig,
+  type RateLimiter,
+  RateLimiterRegistry,
+  type RateLimitOptions,
+  type RateLimitPermit,
+} from "./rate-limiter.js";
+import { type RetryOptions, RetryPolicy, retryWithBackoff } from "./retry.js";
+import {
+  createCanUseTool,
+  type ToolApprovalConfig,
+  type ToolApprovalDecision,
+  type ToolApprovalRequest,
+  type ToolApprover,
+} from "./tool-approval.js";
+import {
+  ToolPolicy,
+  type ToolPolicyConfig,
+  type ToolPolicyDecision,
+  type ToolPolicyRule,
+  withPreToolUseHook,
+} from "./tool-policy.js";
+import {
+  defaultModelPricing,
+  type ModelPricing,
+  type SessionUsage,
+  summarizeUsage,
+  type TokenUsage,
+  type UsageSummary,
+  UsageTracker,
+  usageFromResultMessage,
+} from "./usage.js";
+import { type WorkspaceConfig, WorkspaceManager } from "./workspace.js";
 
 // =============================================================================
 // SDK Type Extensions
@@ -36,6 +121,9 @@ import winston from "winston";
 // every streamed message per the V2 API docs. Intersect the type to include it.
 type SDKMessageWithSessionId = SDKMessage & { session_id?: string };
 
+// Result messages are re-yielded with the plugin's priced usage summary attached.
+type SDKResultWithUsage = SDKMessage & { usageSummary: UsageSummary };
+
 // =============================================================================
 // Provider-specific types (not part of plugin-types)
 // =============================================================================
@@ -78,13 +166,25 @@ type ResponseFormat =
 
 interface ModelQueryOptions {
   prompt: string;
+  /** WOPR session identifier; usage is totalled per sessionKey when set. */
+  sessionKey?: string;
   systemPrompt?: string;
   resume?: string;
   model?: string;
   temperature?: number;
   maxTokens?: number;
   topP?: number;
-  images?: string[];
+  /**
+   * Images to include: http(s), `file://` or `data:` URLs, or `{ data, mediaType }`
+   * attachments. JPEG, PNG, GIF and WebP only; other formats throw ImageInputError.
+   */
+  images?: ImageInput[];
+  /**
+   * PDFs and plain-text documents, as URLs like `images` or as attachments
+   * with `url`, `data` or `text` plus optional `title`, `context` and
+   * `citations`. Other formats throw DocumentInputError.
+   */
+  documents?: DocumentInput[];
   mcpServers?: Record<string, unknown>;
   providerOptions?: Record<string, unknown>;
   /** Controls extended thinking / chain-of-thought reasoning. */
@@ -112,6 +212,63 @@ interface ModelQueryOptions {
    * Tools should include `allowed_callers: ["code_execution_20260120"]`.
    */
   programmaticToolCalling?: ProgrammaticToolCallingConfig;
+  /**
+   * "normalized" yields WoprStreamEvents instead of raw SDK messages.
+   * Defaults to the client/plugin `eventFormat` setting, then "sdk".
+   */
+  eventFormat?: EventFormat;
+  /** Cancels the query (or V2 turn) when aborted; the stream throws QueryCancelledError. */
+  signal?: AbortSignal;
+  /** Cancel the query (or V2 turn) if it hasn't finished within this many milliseconds. */
+  timeoutMs?: number;
+  /**
+   * Fallback chain for this call, overriding the client/plugin `fallback`
+   * setting. An empty array disables fallback.
+   */
+  fallbackModels?: string[];
+  /**
+   * Tool permission mode: "plan", "default", "acceptEdits" or
+   * "bypassPermissions" ("bypass"). Must not exceed the operator's
+   * `permissions.maxMode`. For V2 it applies when the session is created.
+   */
+  permissionMode?: PermissionMode | "bypass";
+  /**
+   * Asked before each tool call the permission mode doesn't already allow.
+   * Overrides the client's `canUseTool` option and the approver registered
+   * through the provider-anthropic extension.
+   */
+  canUseTool?: ToolApprover;
+  /**
+   * Working directory for the V2 session, instead of the configured or
+   * auto-created workspace. Kept when the session closes.
+   */
+  workspace?: string;
+}
+
+/** Emitted by the plugin (not the SDK) when a model alias was resolved to a concrete ID. */
+interface ModelResolvedMessage {
+  type: "system";
+  subtype: "model_resolved";
+  /** The model string the caller asked for, e.g. "sonnet". */
+  requested: string;
+  /** The concrete model ID sent to the SDK. */
+  model: string;
+}
+
+/**
+ * Emitted by the plugin when a V1 query failed after output was already
+ * yielded and continues in the same SDK session. Messages after this marker
+ * continue the interrupted response rather than repeat it.
+ */
+interface StreamResumedMessage {
+  type: "system";
+  subtype: "stream_resumed";
+  /** The SDK session the query resumed. */
+  sessionId: string;
+  /** Retry number (1 for the first retry). */
+  attempt: number;
+  /** Why the stream broke off, e.g. "529" or "ECONNRESET". */
+  reason: string;
 }
 
 interface ModelClient {
@@ -120,7 +277,7 @@ interface ModelClient {
   healthCheck(): Promise<boolean>;
   // V2 Session API - for injecting messages into active sessions
   hasActiveSession?(sessionKey: string): boolean;
-  sendToActiveSession?(sessionKey: string, message: string): Promise<void>;
+  sendToActiveSession?(sessionKey: string, message: string, images?: ImageInput[]): Promise<void>;
   getActiveSessionStream?(sessionKey: string): AsyncGenerator<unknown> | null;
   closeSession?(sessionKey: string): void;
   // V2 query with session key for active session tracking
@@ -138,65 +295,6 @@ interface ModelProvider {
   getCredentialType(): "api-key" | "oauth" | "custom";
 }
 
-const logger = winston.createLogger({
-  level: "info",
-  format: winston.format.combine(
-    winston.format.timestamp(),
-    winston.format.errors({ stack: true }),
-    winston.format.json(),
-  ),
-  defaultMeta: { service: "wopr-plugin-provider-anthropic" },
-  transports: [new winston.transports.Console({ level: "warn" })],
-});
-
-// =============================================================================
-// Retry / Exponential Backoff
-// =============================================================================
-
-interface RetryOptions {
-  maxRetries?: number;
-  baseDelayMs?: number;
-  retryableStatusCodes?: number[];
-}
-
-export async function retryWithBackoff<T>(
-  fn: () => Promise<T>,
-  opts: RetryOptions = {},
-  logger: { warn: (msg: string) => void },
-): Promise<T> {
-  const maxRetries = opts.maxRetries ?? 3;
-  const baseDelayMs = opts.baseDelayMs ?? 1000;
-  const retryableCodes = opts.retryableStatusCodes ?? [429, 503];
-
-  for (let attempt = 0; attempt <= maxRetries; attempt++) {
-    try {
-      return await fn();
-    } catch (error: unknown) {
-      if (attempt === maxRetries) throw error;
-
-      const msg = error instanceof Error ? error.message : String(error);
-      const status = (error as any)?.status ?? (error as any)?.statusCode;
-      const isRetryable =
-        (status && retryableCodes.includes(status)) ||
-        msg.includes("ECONNRESET") ||
-        msg.includes("ECONNREFUSED") ||
-        msg.includes("ETIMEDOUT") ||
-        msg.includes("fetch failed") ||
-        msg.includes("network") ||
-        msg.includes("socket hang up");
-
-      if (!isRetryable) throw error;
-
-      const delay = baseDelayMs * 2 ** attempt;
-      logger.warn(
-        `[retry] Attempt ${attempt + 1}/${maxRetries} failed (${status || msg.slice(0, 80)}), retrying in ${delay}ms`,
-      );
-      await new Promise((r) => setTimeout(r, delay));
-    }
-  }
-  throw new Error("unreachable");
-}
-
 // =============================================================================
 // Auth Detection - exposed for onboarding
 // =============================================================================
@@ -204,6 +302,9 @@ export async function retryWithBackoff<T>(
 const CLAUDE_CODE_CREDENTIALS = join(homedir(), ".claude", ".credentials.json");
 const WOPR_AUTH_FILE = join(homedir(), ".wopr", "auth.json");
 
+// Shared by all clients so concurrent queries trigger a single token refresh
+const oauthTokenManager = new OAuthTokenManager(CLAUDE_CODE_CREDENTIALS);
+
 interface AuthState {
   type: "oauth" | "api_key";
   accessToken?: string;
@@ -352,8 +453,17 @@ function hasCredentials(): boolean {
 // Dynamic Model Discovery
 // =============================================================================
 
+const ANTHROPIC_API_URL = "https://api.anthropic.com";
+const ANTHROPIC_API_VERSION = "2023-06-01";
+// Beta header required when calling the API with a Claude Pro/Max OAuth token
+const OAUTH_BETA = "oauth-2025-04-20";
+const MODELS_API_PAGE_SIZE = 100;
+const MODELS_API_MAX_PAGES = 20;
+// Deadline for listing models, all pages included
+const MODELS_API_TIMEOUT_MS = 15_000;
 const MODELS_PAGE_URL = "https://docs.anthropic.com/en/docs/about-claude/models/overview";
 const MODEL_CACHE_TTL = 24 * 60 * 60 * 1000; // 24 hours
+const MODEL_CACHE_FILE = join(homedir(), ".wopr", "anthropic-models.json");
 
 // Hardcoded fallback (used only if fetch + cache both fail)
 const FALLBACK_MODEL_IDS = [
@@ -372,14 +482,134 @@ interface DiscoveredModel {
   inputPrice: number;
   outputPrice: number;
   legacy: boolean;
+  /** Structured limits and feature support; absent for models the registry does not know. */
+  capabilities?: ModelCapabilities;
 }
 
 interface ModelCacheEntry {
   models: DiscoveredModel[];
   fetchedAt: number;
+  /** modelsAuthSource() of the credentials that listed the models. */
+  source?: string;
+}
+
+// Cache key for discovery with the plugin's own credentials
+const LOCAL_MODELS_SOURCE = "local";
+
+// Discovered models per credential source, so one tenant's listing is never served to another
+const modelCaches = new Map<string, ModelCacheEntry>();
+
+/**
+ * The listing made with the plugin's own credentials. Only it sets the
+ * provider's supported and default models and backs the plugin-wide
+ * capability, pricing and alias lookups, and only it is persisted.
+ */
+function pluginModelCache(): ModelCacheEntry | undefined {
+  return modelCaches.get(LOCAL_MODELS_SOURCE);
+}
+
+function isDiscoveredModel(value: unknown): value is DiscoveredModel {
+  const m = value as Partial<DiscoveredModel> | null;
+  return (
+    !!m &&
+    typeof m.id === "string" &&
+    m.id.length > 0 &&
+    typeof m.name === "string" &&
+    typeof m.contextWindow === "string" &&
+    typeof m.maxOutput === "string" &&
+    typeof m.inputPrice === "number" &&
+    typeof m.outputPrice === "number" &&
+    typeof m.legacy === "boolean"
+  );
+}
+
+function isModelCacheEntry(value: unknown): value is ModelCacheEntry {
+  const entry = value as Partial<ModelCacheEntry> | null;
+  return (
+    !!entry &&
+    typeof entry.fetchedAt === "number" &&
+    Number.isFinite(entry.fetchedAt) &&
+    Array.isArray(entry.models) &&
+    entry.models.length > 0 &&
+    entry.models.every(isDiscoveredModel) &&
+    (entry.source === undefined || typeof entry.source === "string")
+  );
+}
+
+function positiveNumber(value: unknown): number | undefined {
+  return typeof value === "number" && Number.isFinite(value) && value > 0 ? value : undefined;
+}
+
+/**
+ * A cached model with its capabilities recomputed from the registry, so a
+ * cache written by an older version (or edited by hand) cannot switch
+ * features on. Only the token limits the API reported are kept.
+ */
+function withRegistryCapabilities(model: DiscoveredModel): DiscoveredModel {
+  const { capabilities: cached, ...rest } = model;
+  const capabilities = lookupModelCapabilities(model.id);
+  if (!capabilities) return rest;
+  return {
+    ...rest,
+    capabilities: {
+      ...capabilities,
+      contextWindow: positiveNumber(cached?.contextWindow) ?? capabilities.contextWindow,
+      maxOutputTokens: positiveNumber(cached?.maxOutputTokens) ?? capabilities.maxOutputTokens,
+    },
+  };
+}
+
+/**
+ * Load the last good model list from disk so restarts (and offline machines)
+ * start from it instead of the hardcoded fallback. Stale entries are still
+ * loaded; discoverModels() refreshes them and falls back to them on failure.
+ */
+function loadModelCache(): void {
+  if (!existsSync(MODEL_CACHE_FILE)) return;
+  try {
+    const data: unknown = JSON.parse(readFileSync(MODEL_CACHE_FILE, "utf-8"));
+    if (!isModelCacheEntry(data)) {
+      logger.warn(`[anthropic] Ignoring invalid model cache at ${MODEL_CACHE_FILE}`);
+      return;
+    }
+    if ((data.source ?? LOCAL_MODELS_SOURCE) !== LOCAL_MODELS_SOURCE) {
+      logger.warn(`[anthropic] Ignoring model cache at ${MODEL_CACHE_FILE} listed with other credentials`);
+      return;
+    }
+    // Never replace a fresher in-memory result
+    const current = pluginModelCache();
+    if (current && current.fetchedAt >= data.fetchedAt) return;
+    const entry = {
+      models: data.models.map(withRegistryCapabilities),
+      fetchedAt: data.fetchedAt,
+      source: LOCAL_MODELS_SOURCE,
+    };
+    modelCaches.set(LOCAL_MODELS_SOURCE, entry);
+    applyDiscoveredModels(entry.models);
+    logger.info(
+      `[anthropic] Loaded ${data.models.length} models from cache (fetched ${new Date(data.fetchedAt).toISOString()})`,
+    );
+  } catch (error) {
+    logger.warn(`[anthropic] Failed to read model cache: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+function saveModelCache(entry: ModelCacheEntry): void {
+  writeFileAtomic(MODEL_CACHE_FILE, JSON.stringify(entry, null, 2), 0o644).catch((error) => {
+    logger.warn(`[anthropic] Failed to persist model cache: ${error instanceof Error ? error.message : String(error)}`);
+  });
 }
 
-let modelCache: ModelCacheEntry | null = null;
+/** Point the provider's model list and default at a freshly discovered set. */
+function applyDiscoveredModels(models: DiscoveredModel[]): void {
+  anthropicProvider.supportedModels = models.map((m) => m.id);
+
+  // Update defaultModel to latest non-legacy model
+  const currentModels = models.filter((m) => !m.legacy);
+  if (currentModels.length > 0) {
+    anthropicProvider.defaultModel = currentModels[0].id;
+  }
+}
 
 function stripHtml(html: string): string {
   // Extract plain text from HTML for LLM consumption.
@@ -464,26 +694,165 @@ function stripHtml(html: string): string {
   return result.replace(/\s+/g, " ").trim();
 }
 
+interface ModelsApiAuth {
+  /** API root, e.g. the hosted gateway URL. Defaults to https://api.anthropic.com */
+  baseUrl?: string;
+  /** API key or hosted tenant token (sent as x-api-key) */
+  apiKey?: string;
+  /** Claude Pro/Max OAuth access token (sent as a bearer token) */
+  oauthToken?: string;
+}
+
+interface DiscoverModelsOptions {
+  /** Credentials for the Models API. Resolved from the local auth state when omitted. */
+  auth?: ModelsApiAuth;
+  /** Scrape the docs page with Haiku to fill in pricing and legacy flags. Costs tokens. */
+  enrichPricing?: boolean;
+  /** Ignore a fresh cache and query the API again. */
+  forceRefresh?: boolean;
+}
+
+interface ModelsApiEntry {
+  id: string;
+  display_name?: string;
+  created_at?: string;
+  max_input_tokens?: number;
+  max_tokens?: number;
+}
+
+interface ModelsApiPage {
+  data: ModelsApiEntry[];
+  has_more?: boolean;
+  last_id?: string | null;
+}
+
+function formatTokenCount(tokens: number): string {
+  if (tokens >= 1_000_000 && tokens % 1_000_000 === 0) return `${tokens / 1_000_000}M`;
+  if (tokens >= 1_000) return `${Math.round(tokens / 1_000)}K`;
+  return String(tokens);
+}
+
+/** Display defaults for models whose limits the API or docs did not report. */
+function describeContextWindow(capabilities: ModelCapabilities): string {
+  const base = formatTokenCount(capabilities.contextWindow);
+  if (!capabilities.extendedContextWindow) return base;
+  return `${base} (${formatTokenCount(capabilities.extendedContextWindow)} with beta)`;
+}
+
+function fallbackModelInfo(id: string): DiscoveredModel {
+  const capabilities = lookupModelCapabilities(id);
+  if (capabilities) {
+    return {
+      id,
+      name: id,
+      contextWindow: describeContextWindow(capabilities),
+      maxOutput: formatTokenCount(capabilities.maxOutputTokens),
+      inputPrice: 0,
+      outputPrice: 0,
+      legacy: false,
+      capabilities,
+    };
+  }
+  return {
+    id,
+    name: id,
+    contextWindow: id.includes("sonnet") || id.includes("opus") ? "200K (1M with beta)" : "200K",
+    maxOutput: id.includes("haiku") ? "8K" : "128K",
+    inputPrice: 0,
+    outputPrice: 0,
+    legacy: false,
+  };
+}
+
+/** Work out Models API credentials from the daemon's own auth state, hosted gateway first. */
+async function resolveModelsApiAuth(): Promise<ModelsApiAuth> {
+  if (pluginConfig.baseUrl && pluginConfig.tenantToken) {
+    return { baseUrl: pluginConfig.baseUrl, apiKey: pluginConfig.tenantToken };
+  }
+  if (process.env.ANTHROPIC_API_KEY) {
+    return { baseUrl: process.env.ANTHROPIC_BASE_URL, apiKey: process.env.ANTHROPIC_API_KEY };
+  }
+  const auth = getAuth();
+  if (auth?.type === "oauth") {
+    const token = await oauthTokenManager.getAccessToken();
+    return { oauthToken: token ?? auth.accessToken };
+  }
+  if (auth?.type === "api_key" && auth.apiKey) return { apiKey: auth.apiKey };
+  return {};
+}
+
+/** Model cache key for explicit credentials: the API root plus a key fingerprint, or OAuth. */
+function modelsAuthSource(auth: ModelsApiAuth): string {
+  const root = (auth.baseUrl || ANTHROPIC_API_URL).replace(/\/+$/, "");
+  if (auth.apiKey) return `${root} api_key:${createHash("sha256").update(auth.apiKey).digest("hex").slice(0, 12)}`;
+  return `${root} ${auth.oauthToken ? "oauth" : "none"}`;
+}
+
 /**
- * Fetch the Anthropic models page and use Haiku to extract structured model data.
- * Results are cached for 24 hours. Falls back to hardcoded list on failure.
+ * List models from Anthropic's `/v1/models` endpoint, following pagination.
+ * Returned newest first, as the API orders them.
  */
-async function discoverModels(): Promise<DiscoveredModel[]> {
-  // Return cache if fresh
-  if (modelCache && Date.now() - modelCache.fetchedAt < MODEL_CACHE_TTL) {
-    return modelCache.models;
+async function fetchModelsFromApi(auth: ModelsApiAuth): Promise<DiscoveredModel[]> {
+  if (!auth.apiKey && !auth.oauthToken) throw new Error("No credentials for the Models API");
+
+  const headers: Record<string, string> = { "anthropic-version": ANTHROPIC_API_VERSION };
+  if (auth.apiKey) {
+    headers["x-api-key"] = auth.apiKey;
+  } else if (auth.oauthToken) {
+    headers.authorization = `Bearer ${auth.oauthToken}`;
+    headers["anthropic-beta"] = OAUTH_BETA;
   }
 
-  try {
-    // Step 1: Fetch the models overview page
-    logger.info("[anthropic] Fetching models from Anthropic docs...");
-    const response = await fetch(MODELS_PAGE_URL);
-    if (!response.ok) throw new Error(`HTTP ${response.status}`);
-    const html = await response.text();
-    const text = stripHtml(html).slice(0, 60000); // Keep under token limits
+  const root = (auth.baseUrl || ANTHROPIC_API_URL).replace(/\/+$/, "");
+  const signal = AbortSignal.timeout(MODELS_API_TIMEOUT_MS);
+  const entries: ModelsApiEntry[] = [];
+  let afterId: string | null | undefined;
+  for (let page = 0; page < MODELS_API_MAX_PAGES; page++) {
+    const url = new URL(`${root}/v1/models`);
+    url.searchParams.set("limit", String(MODELS_API_PAGE_SIZE));
+    if (afterId) url.searchParams.set("after_id", afterId);
+
+    const response = await fetch(url, { headers, signal });
+    if (!response.ok) throw new Error(`Models API HTTP ${response.status}`);
+    const body = (await response.json()) as ModelsApiPage;
+    if (!Array.isArray(body?.data)) throw new Error("Models API returned no data array");
+
+    entries.push(...body.data);
+    if (!body.has_more || !body.last_id) break;
+    afterId = body.last_id;
+  }
+
+  return entries
+    .filter((e) => typeof e?.id === "string" && e.id.length > 0)
+    .map((e) => {
+      const defaults = fallbackModelInfo(e.id);
+      // Limits reported by the API win over the registry's
+      const capabilities = defaults.capabilities && {
+        ...defaults.capabilities,
+        contextWindow: e.max_input_tokens ?? defaults.capabilities.contextWindow,
+        maxOutputTokens: e.max_tokens ?? defaults.capabilities.maxOutputTokens,
+      };
+      return {
+        ...defaults,
+        name: e.display_name || e.id,
+        contextWindow: e.max_input_tokens ? formatTokenCount(e.max_input_tokens) : defaults.contextWindow,
+        maxOutput: e.max_tokens ? formatTokenCount(e.max_tokens) : defaults.maxOutput,
+        capabilities,
+      };
+    });
+}
 
-    // Step 2: Ask Haiku to extract model info
-    const extractionPrompt = `Extract ALL Claude model information from this documentation page.
+/**
+ * Fetch the Anthropic models docs page and use Haiku to extract pricing and
+ * legacy status. Optional enrichment on top of the Models API listing.
+ */
+async function scrapeModelDocs(): Promise<DiscoveredModel[]> {
+  const response = await fetch(MODELS_PAGE_URL);
+  if (!response.ok) throw new Error(`HTTP ${response.status}`);
+  const html = await response.text();
+  const text = stripHtml(html).slice(0, 60000); // Keep under token limits
+
+  const extractionPrompt = `Extract ALL Claude model information from this documentation page.
 
 Return ONLY a valid JSON array. Each object must have exactly these fields:
 - "id": string - the Claude API model ID (e.g. "claude-opus-4-6")
@@ -499,78 +868,108 @@ Include ALL models: current AND legacy. Return ONLY the JSON array.
 Page content:
 ${text}`;
 
-    const q = query({
-      prompt: extractionPrompt,
-      options: {
-        model: "claude-haiku-4-5-20251001",
-        max_tokens: 4096,
-        permissionMode: "bypassPermissions",
-        allowDangerouslySkipPermissions: true,
-        env: { ...process.env },
-      } as any,
-    });
+  const q = query({
+    prompt: extractionPrompt,
+    options: {
+      model: "claude-haiku-4-5-20251001",
+      max_tokens: 4096,
+      ...INTERNAL_QUERY_PERMISSIONS,
+      env: { ...process.env },
+    } as any,
+  });
 
-    // Collect text from Haiku's response
-    let result = "";
-    for await (const msg of q) {
-      const m = msg as any;
-      if (m.type === "assistant" && m.message?.content) {
-        for (const block of m.message.content) {
-          if (block.type === "text") result += block.text;
-        }
+  // Collect text from Haiku's response
+  let result = "";
+  for await (const msg of q) {
+    const m = msg as any;
+    if (m.type === "assistant" && m.message?.content) {
+      for (const block of m.message.content) {
+        if (block.type === "text") result += block.text;
       }
     }
+  }
 
-    // Parse JSON from response
-    const jsonMatch = result.match(/\[[\s\S]*\]/);
-    if (!jsonMatch) throw new Error("No JSON array in Haiku response");
+  // Parse JSON from response
+  const jsonMatch = result.match(/\[[\s\S]*\]/);
+  if (!jsonMatch) throw new Error("No JSON array in Haiku response");
 
-    const models: DiscoveredModel[] = JSON.parse(jsonMatch[0]);
-    if (!Array.isArray(models) || models.length === 0) {
-      throw new Error("Empty or invalid model array");
-    }
+  const models: DiscoveredModel[] = JSON.parse(jsonMatch[0]);
+  if (!Array.isArray(models)) throw new Error("Invalid model array");
+  return models.filter((m) => m && typeof m.id === "string" && m.id.length > 0);
+}
 
-    // Validate each model has required fields
-    for (const model of models) {
-      if (!model.id || typeof model.id !== "string") {
-        throw new Error(`Invalid model entry: missing id`);
+/** Overlay scraped pricing and legacy flags onto the authoritative API listing. */
+function mergeModelDocs(models: DiscoveredModel[], scraped: DiscoveredModel[]): DiscoveredModel[] {
+  const byId = new Map(scraped.map((m) => [m.id, m]));
+  return models.map((model) => {
+    const doc = byId.get(model.id);
+    if (!doc) return model;
+    return {
+      ...model,
+      inputPrice: typeof doc.inputPrice === "number" ? doc.inputPrice : model.inputPrice,
+      outputPrice: typeof doc.outputPrice === "number" ? doc.outputPrice : model.outputPrice,
+      legacy: typeof doc.legacy === "boolean" ? doc.legacy : model.legacy,
+      contextWindow: doc.contextWindow || model.contextWindow,
+      maxOutput: doc.maxOutput || model.maxOutput,
+    };
+  });
+}
+
+/**
+ * List models via Anthropic's Models API, optionally enriched with pricing
+ * scraped from the docs. Results are cached for 24 hours per credential (the
+ * plugin's own listing also on disk). Falls back to the last list cached for
+ * the same credentials, then a hardcoded list, on failure.
+ */
+async function discoverModels(options: DiscoverModelsOptions = {}): Promise<DiscoveredModel[]> {
+  const source = options.auth ? modelsAuthSource(options.auth) : LOCAL_MODELS_SOURCE;
+  const cached = modelCaches.get(source);
+  // Return cache if fresh
+  if (!options.forceRefresh && cached && Date.now() - cached.fetchedAt < MODEL_CACHE_TTL) {
+    return cached.models;
+  }
+
+  try {
+    logger.info("[anthropic] Fetching models from the Anthropic Models API...");
+    const auth = options.auth ?? (await resolveModelsApiAuth());
+    let models = await fetchModelsFromApi(auth);
+    if (models.length === 0) throw new Error("Models API returned no models");
+
+    if (options.enrichPricing ?? pluginConfig.enrichModelPricing === true) {
+      try {
+        models = mergeModelDocs(models, await scrapeModelDocs());
+      } catch (error) {
+        // Enrichment is best-effort; the API listing is still good
+        logger.warn(
+          `[anthropic] Model pricing enrichment failed: ${error instanceof Error ? error.message : String(error)}`,
+        );
       }
     }
 
     // Cache the results
-    modelCache = { models, fetchedAt: Date.now() };
-    logger.info(`[anthropic] Discovered ${models.length} models from Anthropic docs`);
-
-    // Update the provider's supportedModels list
-    anthropicProvider.supportedModels = models.map((m) => m.id);
-
-    // Update defaultModel to latest non-legacy model
-    const currentModels = models.filter((m) => !m.legacy);
-    if (currentModels.length > 0) {
-      anthropicProvider.defaultModel = currentModels[0].id;
+    const entry = { models, fetchedAt: Date.now(), source };
+    modelCaches.set(source, entry);
+    logger.info(`[anthropic] Discovered ${models.length} models from the Models API`);
+
+    // Another credential's listing is served to its caller only
+    if (source === LOCAL_MODELS_SOURCE) {
+      saveModelCache(entry);
+      applyDiscoveredModels(models);
     }
 
     return models;
   } catch (error) {
     logger.warn(`[anthropic] Model discovery failed: ${error instanceof Error ? error.message : String(error)}`);
 
-    // Return stale cache if available
-    if (modelCache) {
+    // Return this source's stale cache if available
+    if (cached) {
       logger.info("[anthropic] Using stale model cache");
-      return modelCache.models;
+      return cached.models;
     }
 
     // Ultimate fallback — context windows reflect 1M beta availability
     logger.info("[anthropic] Using hardcoded fallback models");
-    return FALLBACK_MODEL_IDS.map((id) => ({
-      id,
-      name: id,
-      contextWindow: id.includes("sonnet") || id.includes("opus") ? "200K (1M with beta)" : "200K",
-      maxOutput: id.includes("haiku") ? "8K" : "128K",
-      inputPrice: 0,
-      outputPrice: 0,
-      legacy: false,
-    }));
+    return FALLBACK_MODEL_IDS.map(fallbackModelInfo);
   }
 }
 
@@ -578,7 +977,8 @@ ${text}`;
  * Get discovered models (cached). Non-blocking - returns fallback if not yet fetched.
  */
 function _getDiscoveredModelIds(): string[] {
-  if (modelCache) return modelCache.models.map((m) => m.id);
+  const cache = pluginModelCache();
+  if (cache) return cache.models.map((m) => m.id);
   return FALLBACK_MODEL_IDS;
 }
 
@@ -589,22 +989,35 @@ async function getModelInfo(): Promise<DiscoveredModel[]> {
   return discoverModels();
 }
 
-// =============================================================================
-// Image handling
-// =============================================================================
+/** The models aliases resolve against: the plugin's discovered list, else the hardcoded fallback. */
+function knownModels(): DiscoveredModel[] {
+  return pluginModelCache()?.models ?? FALLBACK_MODEL_IDS.map(fallbackModelInfo);
+}
 
-async function downloadImageAsBase64(url: string): Promise<{ data: string; mediaType: string } | null> {
-  try {
-    const response = await fetch(url);
-    if (!response.ok) throw new Error(`Failed to fetch image: ${response.status}`);
-    const contentType = response.headers.get("content-type") || "image/jpeg";
-    const buffer = await response.arrayBuffer();
-    const base64 = Buffer.from(buffer).toString("base64");
-    return { data: base64, mediaType: contentType };
-  } catch (error) {
-    logger.error(`[anthropic] Failed to download image ${url}:`, error);
-    return null;
+/**
+ * Capabilities for a model ID: the plugin's discovered entry's if known, else the registry's.
+ */
+function getModelCapabilities(modelId: string): ModelCapabilities | null {
+  const discovered = pluginModelCache()?.models.find((m) => m.id === modelId);
+  return discovered?.capabilities ?? lookupModelCapabilities(modelId);
+}
+
+/**
+ * Per-million-token pricing for a model: discovered prices if known, else list prices.
+ */
+function getModelPricing(modelId: string): ModelPricing | null {
+  const discovered = pluginModelCache()?.models.find((m) => m.id === modelId);
+  if (discovered && (discovered.inputPrice > 0 || discovered.outputPrice > 0)) {
+    return { inputPrice: discovered.inputPrice, outputPrice: discovered.outputPrice };
   }
+  return defaultModelPricing(modelId);
+}
+
+/**
+ * Re-query the Models API now, bypassing the 24-hour cache.
+ */
+async function refreshModels(): Promise<DiscoveredModel[]> {
+  return discoverModels({ forceRefresh: true });
 }
 
 // =============================================================================
@@ -643,8 +1056,7 @@ const anthropicProvider: ModelProvider & {
       const q = query({
         prompt: "ping",
         options: {
-          permissionMode: "bypassPermissions",
-          allowDangerouslySkipPermissions: true,
+          ...INTERNAL_QUERY_PERMISSIONS,
           env,
         } as any,
       });
@@ -681,20 +1093,54 @@ interface ActiveSession {
   lastMessageAt: number;
   streaming: boolean;
   streamGenerator: AsyncGenerator<SDKMessage, void> | null;
+  sessionOptions: SDKSessionOptions; // Options the session was created with (reused on resume)
+  authToken?: string; // OAuth access token the session process was started with
 }
 
 // Global map of active V2 sessions by sessionKey (WOPR's session identifier)
 const activeSessions = new Map<string, ActiveSession>();
 
+// Running token/cost totals per sessionKey, exposed via the provider-anthropic extension
+const usageTracker = new UsageTracker();
+
+// Circuit breakers per auth target, shared by all clients using the same credentials
+const circuitBreakers = new CircuitBreakerRegistry();
+const defaultRetryPolicy = new RetryPolicy();
+
+// Rate limiters keyed like the circuit breakers, shared by all clients of a credential
+const rateLimiters = new RateLimiterRegistry();
+
+// Plugin-wide token/cost totals for the current UTC day, checked against the perDay budget
+const dailySpend = new DailySpend();
+
+// Tool approver registered by WOPR through the provider-anthropic extension
+let toolApprover: ToolApprover | null = null;
+
+// Working directories of V2 sessions by sessionKey
+const workspaces = new WorkspaceManager();
+
+// Tool calls seen in query()/queryV2() streams, exposed via the provider-anthropic extension
+const toolAudit = new ToolAuditLog();
+
 // Lock map to prevent race conditions on concurrent queryV2 calls
 const sessionLocks = new Map<string, Promise<void>>();
 
 // Session timeout: close sessions that haven't been used in 30 minutes
 const SESSION_TIMEOUT_MS = 30 * 60 * 1000;
 
+// How long a cancelled V2 turn may take to stop before its session is closed instead
+const INTERRUPT_TIMEOUT_MS = 5000;
+
+// Prompt sent when a V1 stream broke off mid-response and is resumed in its SDK session
+const RESUME_PROMPT =
+  "[The connection was interrupted. Continue from exactly where you stopped, without repeating anything you already wrote.]";
+
 // Default allowed tools for V2 sessions (can be overridden via providerOptions.allowedTools)
 const DEFAULT_ALLOWED_TOOLS = ["Read", "Write", "Edit", "Glob", "Grep", "Bash", "WebFetch", "WebSearch"];
 
+// Tools V2 sessions with a tool approver run without asking; everything else goes to the approver
+const APPROVER_ALLOWED_TOOLS = ["Read", "Glob", "Grep"];
+
 // Store interval ID for cleanup on shutdown
 let cleanupIntervalId: ReturnType<typeof setInterval> | null = null;
 
@@ -714,8 +1160,11 @@ function startCleanupInterval() {
             // Ignore close errors
           }
           activeSessions.delete(key);
+          workspaces.release(key);
         }
       }
+      // Workspaces whose session died without being closed
+      workspaces.releaseIdle(SESSION_TIMEOUT_MS, (key) => activeSessions.has(key));
     },
     5 * 60 * 1000,
   ); // Check every 5 minutes
@@ -739,6 +1188,8 @@ function stopCleanupAndCloseSessions() {
   }
   activeSessions.clear();
   sessionLocks.clear();
+  workspaces.releaseAll();
+  void toolAudit.close();
 }
 
 // Helper to acquire session lock (prevents race conditions)
@@ -773,6 +1224,9 @@ startCleanupInterval();
 class AnthropicClient implements ModelClient {
   private authType: string;
   private envOverrides: Record<string, string | undefined> = {};
+  private oauth: OAuthTokenManager | null = null;
+  private breaker: CircuitBreaker;
+  private limiter: RateLimiter;
 
   constructor(
     credential: string,
@@ -808,15 +1262,132 @@ class AnthropicClient implements ModelClient {
       if (auth?.type === "oauth" && auth.accessToken) {
         this.authType = "oauth";
         this.envOverrides.ANTHROPIC_API_KEY = undefined;
+        this.oauth = oauthTokenManager;
       } else if (auth?.type === "api_key" && auth.apiKey) {
         this.authType = "api_key";
         this.envOverrides.ANTHROPIC_API_KEY = auth.apiKey;
       } else {
         this.authType = "oauth";
         this.envOverrides.ANTHROPIC_API_KEY = undefined;
+        this.oauth = oauthTokenManager;
       }
     }
     logger.info(`[anthropic] Using auth: ${this.authType}`);
+    this.breaker = circuitBreakers.get(this.circuitTarget());
+    this.limiter = rateLimiters.get(this.circuitTarget());
+  }
+
+  /** Circuit breaker key: the gateway host, a fingerprint of the API key, or OAuth */
+  private circuitTarget(): string {
+    if (this.authType === "hosted") {
+      return `hosted:${new URL(this.envOverrides.ANTHROPIC_BASE_URL as string).host}`;
+    }
+    const apiKey = this.envOverrides.ANTHROPIC_API_KEY;
+    if (this.authType === "api_key" && apiKey) {
+      return `api_key:${createHash("sha256").update(apiKey).digest("hex").slice(0, 12)}`;
+    }
+    return "oauth";
+  }
+
+  /** Minimal query used by healthCheck() and to probe a half-open circuit */
+  private async probe(): Promise<void> {
+    const q = query({
+      prompt: "test",
+      options: {
+        max_tokens: 10,
+        ...INTERNAL_QUERY_PERMISSIONS,
+        env: this.buildEnv(),
+      } as any,
+    });
+    for await (const msg of q) {
+      if (isOutageMessage(msg)) {
+        throw new Error(`[anthropic] Probe failed: ${(msg as { error: string }).error}`);
+      }
+    }
+  }
+
+  /** Retry policy: plugin config, then client options, then the call's `providerOptions.retry` */
+  private retryPolicy(opts?: ModelQueryOptions): RetryPolicy {
+    return defaultRetryPolicy
+      .with(pluginConfig.retry)
+      .with(this.options?.retry as RetryOptions | undefined)
+      .with(opts?.providerOptions?.retry as RetryOptions | undefined);
+  }
+
+  /**
+   * Models to fall back to from `model` on overload: the entries after it in
+   * the call's `fallbackModels`, else the client/plugin `fallback` chain
+   */
+  private fallbackModels(model: string, opts: ModelQueryOptions): string[] {
+    const chain =
+      opts.fallbackModels ??
+      (this.options?.fallback as FallbackConfig | undefined)?.models ??
+      pluginConfig.fallback?.models ??
+      [];
+    return fallbackChain(
+      model,
+      chain.map((name) => resolveModelAlias(name, knownModels(), this.aliasPins())),
+    );
+  }
+
+  /** Query options for re-running on fallback model `model`, minus what it cannot do */
+  private fallbackOptions<T extends ModelQueryOptions>(model: string, opts: T): T {
+    const capabilities = getModelCapabilities(model);
+    if (!capabilities) return { ...opts, model };
+    const { options, adjustments } = stripUnsupportedOptions(model, opts, capabilities);
+    for (const note of adjustments) {
+      logger.warn(`[anthropic] ${model}: ${note}`);
+    }
+    return { ...options, model };
+  }
+
+  /**
+   * SDK permission options for a query: its `permissionMode` (or a raw
+   * `providerOptions.permissionMode`) checked against the plugin's limits,
+   * plus the tool approver bridge when one is set. With an approver, or in a
+   * V2 session, queries that don't pick a mode default to "default" unless the
+   * operator configured one: tool calls then reach the approver, and V2 can't
+   * pass the SDK's bypass opt-in anyway.
+   */
+  private permissionOptions(
+    opts: ModelQueryOptions,
+    v2 = false,
+  ): ReturnType<typeof sdkPermissionOptions> & { canUseTool?: ReturnType<typeof createCanUseTool> } {
+    const approver = opts.canUseTool ?? (this.options?.canUseTool as ToolApprover | undefined) ?? toolApprover;
+    const requested = opts.permissionMode ?? (opts.providerOptions?.permissionMode as string | undefined);
+    const config = pluginConfig.permissions ?? {};
+    const mode = resolvePermissionMode(
+      requested,
+      approver || v2 ? { ...config, mode: config.mode ?? "default" } : config,
+      this.authType === "hosted",
+    );
+    if (!approver) return sdkPermissionOptions(mode);
+
+    const timeoutMs =
+      (this.options?.toolApproval as ToolApprovalConfig | undefined)?.timeoutMs ?? pluginConfig.toolApproval?.timeoutMs;
+    return {
+      ...sdkPermissionOptions(mode),
+      canUseTool: createCanUseTool(approver, { sessionKey: opts.sessionKey, timeoutMs }),
+    };
+  }
+
+  /** PreToolUse hook enforcing the client's (or else the plugin's) tool policy, if it has rules */
+  private toolPolicyHook(opts: ModelQueryOptions): HookCallback | null {
+    const policy = new ToolPolicy(
+      (this.options?.toolPolicy as ToolPolicyConfig | undefined) ?? pluginConfig.toolPolicy ?? {},
+    );
+    return policy.empty ? null : policy.hook(opts.sessionKey);
+  }
+
+  /** Wait for a rate-limit slot on this credential, logging any time spent queued */
+  private async acquireRateLimit(cancellation: Cancellation): Promise<RateLimitPermit> {
+    const permit = await this.limiter.acquire(cancellation.controller.signal);
+    if (permit.waitedMs > 0) {
+      logger.info(
+        `[anthropic] Rate limit queue wait ${permit.waitedMs}ms for ${this.limiter.target} (${this.limiter.queued} still queued)`,
+      );
+    }
+    return permit;
   }
 
   /** Build env object with instance-specific overrides (avoids mutating process.env) */
@@ -824,22 +1395,198 @@ class AnthropicClient implements ModelClient {
     return { ...process.env, ...this.envOverrides };
   }
 
+  /** Alias pins from the plugin config, overridden per client by its options */
+  private aliasPins(): ModelAliasPins {
+    return {
+      ...pluginConfig.modelAliases,
+      ...(this.options?.modelAliases as ModelAliasPins | undefined),
+    };
+  }
+
+  /** Resolve the requested model (or the provider default) to a concrete model ID */
+  private resolveModel(requested?: string): { requested: string; model: string } {
+    const name = requested || anthropicProvider.defaultModel;
+    const model = resolveModelAlias(name, knownModels(), this.aliasPins());
+    if (model !== name) {
+      logger.info(`[anthropic] Resolved model alias "${name}" -> ${model}`);
+    } else if (isModelAlias(name)) {
+      logger.warn(`[anthropic] No discovered model matches alias "${name}", passing it through`);
+    }
+    return { requested: name, model };
+  }
+
+  /** Options from the client config that belong to the SDK (plugin settings are consumed here) */
+  private sdkOptions(): Record<string, unknown> {
+    const options: Record<string, unknown> = { ...this.options };
+    for (const key of PLUGIN_CONFIG_KEYS) delete options[key];
+    return options;
+  }
+
+  /**
+   * Price the token usage on a result message, add it to the session's totals
+   * and attach the summary. Other messages are returned unchanged.
+   */
+  private trackUsage(
+    msg: SDKMessage,
+    model: string,
+    sessionKey?: string,
+    guard?: BudgetGuard | null,
+  ): SDKMessage | SDKResultWithUsage {
+    const usage = usageFromResultMessage(msg);
+    if (!usage) return msg;
+
+    const summary = this.recordUsage(model, usage, sessionKey);
+    guard?.markRecorded();
+    return { ...msg, usageSummary: summary };
+  }
+
+  /** Add a query's usage to the session, rate-limit and daily totals */
+  private recordUsage(model: string, usage: TokenUsage, sessionKey?: string, note = ""): UsageSummary {
+    const summary = summarizeUsage(model, usage, getModelPricing(model));
+    if (sessionKey) usageTracker.record(sessionKey, summary);
+    this.limiter.recordUsage(usage);
+    dailySpend.add({ tokens: totalTokens(summary), costUsd: summary.costUsd });
+    logger.info(
+      `[anthropic] Usage for ${sessionKey ?? "query"} on ${model}${note}: ${summary.inputTokens} in / ${summary.outputTokens} out` +
+        (summary.priced ? ` ($${summary.costUsd.toFixed(4)})` : ""),
+    );
+    return summary;
+  }
+
+  /** Record what a query that ended without a result used, so aborted queries still count against budgets */
+  private recordUnfinished(guard: BudgetGuard | null, model: string, sessionKey?: string): void {
+    const usage = guard?.unrecordedUsage();
+    if (!usage) return;
+    guard?.markRecorded();
+    this.recordUsage(model, usage, sessionKey, " (unfinished)");
+  }
+
+  /**
+   * Yield a streamed message, then any budget warnings it caused. A result is
+   * checked before it is recorded, since recording adds it to the daily spend
+   * the guard reads; other messages are delivered before the check so the one
+   * that exceeds a budget still reaches the caller.
+   */
+  private *deliver(msg: SDKMessage, model: string, guard: BudgetGuard | null, sessionKey?: string): Generator<unknown> {
+    if (msg.type !== "result") {
+      yield msg;
+      yield* this.checkBudget(guard, msg);
+      return;
+    }
+    const warnings = this.checkBudget(guard, msg);
+    yield this.trackUsage(msg, model, sessionKey, guard);
+    yield* warnings;
+  }
+
+  /**
+   * Budget guard for one query, with the session's spend so far as its
+   * baseline and today's live plugin-wide spend. Null when no budgets are
+   * configured.
+   */
+  private budgetGuard(model: string, sessionKey?: string): BudgetGuard | null {
+    const config: BudgetConfig = {
+      ...pluginConfig.budgets,
+      ...(this.options?.budgets as BudgetConfig | undefined),
+    };
+    if (!hasBudgets(config)) return null;
+    const session = sessionKey ? usageTracker.get(sessionKey) : null;
+    return new BudgetGuard(
+      config,
+      {
+        session: { tokens: session ? totalTokens(session) : 0, costUsd: session?.costUsd ?? 0 },
+        day: () => dailySpend.current(),
+      },
+      getModelPricing(model),
+      sessionKey,
+    );
+  }
+
+  /** Feed a streamed message to the budget guard; throws BudgetExceededError once over budget */
+  private checkBudget(guard: BudgetGuard | null, msg: SDKMessage): BudgetWarningMessage[] {
+    if (!guard) return [];
+    const warnings = guard.observe(msg);
+    for (const w of warnings) {
+      logger.warn(
+        `[anthropic] ${w.scope} budget at ${Math.round(w.threshold * 100)}% (${w.metric}: ${w.used} of ${w.limit})`,
+      );
+    }
+    return warnings;
+  }
+
+  /** Reject or downgrade options the chosen model cannot handle (unknown models pass through) */
+  private checkCapabilities<T extends ModelQueryOptions>(model: string, opts: T): T {
+    const capabilities = getModelCapabilities(model);
+    if (!capabilities) return opts;
+    const { options, adjustments } = applyModelCapabilities(model, opts, capabilities);
+    for (const note of adjustments) {
+      logger.warn(`[anthropic] ${model}: ${note}`);
+    }
+    return options;
+  }
+
+  /** Models API credentials matching what the SDK would use for this client */
+  private modelsApiAuth(): ModelsApiAuth {
+    const env = this.buildEnv();
+    return {
+      baseUrl: env.ANTHROPIC_BASE_URL,
+      apiKey: env.ANTHROPIC_API_KEY,
+      oauthToken: env.CLAUDE_CODE_OAUTH_TOKEN,
+    };
+  }
+
+  /** Refresh the OAuth access token if it is close to expiry and hand it to the SDK via env */
+  private async refreshAuth(): Promise<void> {
+    if (!this.oauth) return;
+    const token = await this.oauth.getAccessToken();
+    if (token) this.envOverrides.CLAUDE_CODE_OAUTH_TOKEN = token;
+  }
+
+  /**
+   * V2 sessions run in a long-lived SDK process whose env is fixed at creation.
+   * When the OAuth token has rotated since, resume the conversation in a new
+   * process started with the current token.
+   */
+  private rotateSessionAuth(sessionKey: string, active: ActiveSession): ActiveSession {
+    const token = this.envOverrides.CLAUDE_CODE_OAUTH_TOKEN;
+    if (!this.oauth || !token || active.authToken === token || active.streaming || !active.sessionId) {
+      return active;
+    }
+
+    logger.info(`[anthropic] OAuth token rotated, resuming V2 session with fresh credentials: ${sessionKey}`);
+    try {
+      active.session.close();
+    } catch (_e) {
+      // Ignore close errors
+    }
+    const sessionOptions = { ...active.sessionOptions, env: this.buildEnv() };
+    const rotated: ActiveSession = {
+      ...active,
+      session: unstable_v2_resumeSession(active.sessionId, sessionOptions),
+      sessionOptions,
+      authToken: token,
+      streamGenerator: null,
+    };
+    activeSessions.set(sessionKey, rotated);
+    return rotated;
+  }
+
   // Check if there's an active V2 session for a given sessionKey
   hasActiveSession(sessionKey: string): boolean {
     const active = activeSessions.get(sessionKey);
     return !!active && active.streaming;
   }
 
-  // Send a message to an active V2 session (inject into running conversation)
-  async sendToActiveSession(sessionKey: string, message: string): Promise<void> {
+  // Send a message (and optionally images) to an active V2 session (inject into running conversation)
+  async sendToActiveSession(sessionKey: string, message: string, images?: ImageInput[]): Promise<void> {
     const active = activeSessions.get(sessionKey);
     if (!active) {
       throw new Error(`No active session for key: ${sessionKey}`);
     }
 
+    const { blocks: imageBlocks } = await prepareImages(images, imageOptions());
     logger.info(`[anthropic] Injecting message into active session: ${sessionKey}`);
     active.lastMessageAt = Date.now();
-    await active.session.send(message);
+    await active.session.send(sessionMessage(message, imageBlocks, active.sessionId));
   }
 
   // Get the stream generator for an active session (to read new responses)
@@ -848,11 +1595,18 @@ class AnthropicClient implements ModelClient {
     if (!active || !active.streamGenerator) {
       return null;
     }
-    return active.streamGenerator as AsyncGenerator<unknown>;
+    return toolAudit.observe(active.streamGenerator as AsyncGenerator<unknown>, { sessionKey, model: active.model });
   }
 
-  // Close an active session
+  // Close an active session and remove its workspace. Usage totals are kept: they
+  // are the sessionKey's perSession budget baseline until resetUsage()
   closeSession(sessionKey: string): void {
+    this.endSession(sessionKey);
+    workspaces.release(sessionKey);
+  }
+
+  /** Close the SDK session but keep the sessionKey's workspace for its next session */
+  private endSession(sessionKey: string): void {
     const active = activeSessions.get(sessionKey);
     if (active) {
       logger.info(`[anthropic] Closing session: ${sessionKey}`);
@@ -865,13 +1619,84 @@ class AnthropicClient implements ModelClient {
     }
   }
 
+  /** Event format for a query: per-query option, then client options, then plugin config */
+  private eventFormat(opts: ModelQueryOptions): EventFormat {
+    return (
+      opts.eventFormat ?? (this.options?.eventFormat as EventFormat | undefined) ?? pluginConfig.eventFormat ?? "sdk"
+    );
+  }
+
   // V2 Session-based query - keeps session alive for message injection
-  async *queryV2(opts: ModelQueryOptions & { sessionKey: string }): AsyncGenerator<unknown> {
-    const model = opts.model || anthropicProvider.defaultModel;
+  async *queryV2(requestOpts: ModelQueryOptions & { sessionKey: string }): AsyncGenerator<unknown> {
+    const cancellation = new Cancellation(requestOpts.signal, requestOpts.timeoutMs);
+    try {
+      const stream = toolAudit.observe(this.queryV2Stream(requestOpts, cancellation), {
+        sessionKey: requestOpts.sessionKey,
+        model: requestOpts.model,
+      });
+      yield* this.eventFormat(requestOpts) === "normalized" ? normalizeStream(stream) : stream;
+    } finally {
+      cancellation.dispose();
+    }
+  }
+
+  /**
+   * Stop the SDK's current turn and discard the rest of its messages so the
+   * session can take the next turn. Closes the session if that isn't possible.
+   */
+  private async interruptTurn(
+    sessionKey: string,
+    active: ActiveSession,
+    stream: AsyncGenerator<SDKMessage, void>,
+    guard: BudgetGuard | null,
+  ): Promise<void> {
+    // SDKSession has no public interrupt; its underlying Query does
+    const turn = (active.session as { query?: { interrupt?: () => Promise<void> } }).query;
+    if (typeof turn?.interrupt === "function") {
+      try {
+        await withTimeout(turn.interrupt(), INTERRUPT_TIMEOUT_MS, "interrupt timed out");
+        // Keep reading the cancelled turn's stream (it ends after the turn's result) so
+        // its leftover messages aren't delivered to the next turn
+        const drain = async () => {
+          for (let next = await stream.next(); !next.done; next = await stream.next()) {
+            this.trackUsage(next.value, active.model, sessionKey, guard);
+          }
+        };
+        await withTimeout(drain(), INTERRUPT_TIMEOUT_MS, "interrupted turn did not finish");
+        logger.info(`[anthropic] Interrupted V2 turn, keeping session: ${sessionKey}`);
+        return;
+      } catch (error) {
+        logger.warn(`[anthropic] Could not interrupt V2 turn for ${sessionKey}: ${error}`);
+      }
+    }
+    this.endSession(sessionKey);
+  }
+
+  private async *queryV2Stream(
+    requestOpts: ModelQueryOptions & { sessionKey: string },
+    cancellation: Cancellation,
+    fallbacks?: string[],
+  ): AsyncGenerator<unknown> {
+    const { requested, model } = this.resolveModel(requestOpts.model);
+    const opts = this.checkCapabilities(model, requestOpts);
+    const chain = fallbacks ?? this.fallbackModels(model, opts);
+    const permissions = this.permissionOptions(opts, true);
+    const policyHook = this.toolPolicyHook(opts);
     const sessionKey = opts.sessionKey;
 
+    // Fail before creating or reusing a session that is already over budget
+    const budget = this.budgetGuard(activeSessions.get(sessionKey)?.model ?? model, sessionKey);
+    budget?.assertWithinBudget();
+    cancellation.throwIfCancelled();
+    await cancellation.race(this.breaker.acquire(() => this.probe()));
+
+    await this.refreshAuth();
+    const { blocks: images, report: imageReport } = await cancellation.race(prepareImages(opts.images, imageOptions()));
+    const documents = await cancellation.race(buildDocumentBlocks(opts.documents, pluginConfig.mediaFetch));
+
     // Check if we have an existing session
     let active = activeSessions.get(sessionKey);
+    let created = false;
 
     // If no session exists, create one with lock to prevent race condition
     // (two concurrent calls both seeing no session and both creating)
@@ -885,8 +1710,11 @@ class AnthropicClient implements ModelClient {
         }
 
         // Create or resume V2 session
-        // allowedTools can be overridden via providerOptions.allowedTools
-        const allowedTools = (opts.providerOptions?.allowedTools as string[]) || DEFAULT_ALLOWED_TOOLS;
+        // allowedTools can be overridden via providerOptions.allowedTools. Allowed
+        // tools skip canUseTool, so with an approver only read-only tools are.
+        const allowedTools =
+          (opts.providerOptions?.allowedTools as string[]) ||
+          (permissions.canUseTool ? APPROVER_ALLOWED_TOOLS : DEFAULT_ALLOWED_TOOLS);
         const sessionOptions: any = {
           model,
           allowedTools,
@@ -914,9 +1742,17 @@ class AnthropicClient implements ModelClient {
         }
         if (opts.providerOptions) {
           // Copy providerOptions but don't overwrite allowedTools or env (already handled above)
-          const { allowedTools: _, env: _env, ...restOptions } = opts.providerOptions;
+          const { allowedTools: _, env: _env, retry: _retry, ...restOptions } = opts.providerOptions;
           Object.assign(sessionOptions, restOptions);
         }
+        Object.assign(sessionOptions, permissions);
+        if (policyHook) sessionOptions.hooks = withPreToolUseHook(sessionOptions.hooks, policyHook);
+        const workspace = workspaces.acquire(sessionKey, opts.workspace);
+        if (workspace) {
+          const launch = workspaces.launchOptions(workspace);
+          sessionOptions.executable = launch.executable;
+          sessionOptions.executableArgs = [...launch.executableArgs, ...(sessionOptions.executableArgs ?? [])];
+        }
 
         let session: SDKSession;
 
@@ -937,69 +1773,176 @@ class AnthropicClient implements ModelClient {
           lastMessageAt: Date.now(),
           streaming: false, // Will be set true when we start streaming
           streamGenerator: null,
+          sessionOptions,
+          authToken: this.envOverrides.CLAUDE_CODE_OAUTH_TOKEN,
         };
         activeSessions.set(sessionKey, newSession);
+        created = true;
 
         return newSession;
       });
     } else {
       logger.info(`[anthropic] Reusing existing V2 session for: ${sessionKey} (was streaming: ${active.streaming})`);
+      const existing = active;
+      active = await withSessionLock(sessionKey, async () => this.rotateSessionAuth(sessionKey, existing));
     }
 
+    // Queue for a rate-limit slot before the turn starts, so a cancelled wait leaves nothing to interrupt
+    const permit = await this.acquireRateLimit(cancellation);
+
     // Now we have a session (either existing or newly created)
     // The lock is released - streaming happens without holding the lock
     // This allows sendToActiveSession() to inject messages during streaming
     active.lastMessageAt = Date.now();
     active.streaming = true;
+    let stream: AsyncGenerator<SDKMessage, void> | null = null;
+    // A new session whose first turn hit an overload is replaced by one on the next fallback model
+    let served = false;
+    let fallbackReason: string | null = null;
 
     try {
-      // Send the message
-      await retryWithBackoff(() => active.session.send(opts.prompt), { maxRetries: 3, baseDelayMs: 1000 }, logger);
+      if (requested !== model) {
+        // Report the model actually serving the session (a reused session keeps its original model)
+        yield {
+          type: "system",
+          subtype: "model_resolved",
+          requested,
+          model: active.model,
+        } satisfies ModelResolvedMessage;
+      }
+      if (imageReport) yield imageReport;
+
+      // Send the message, with any documents and images ahead of the text
+      const message = sessionMessage(opts.prompt, [...documents, ...images], active.sessionId);
+      await cancellation.race(
+        this.retryPolicy(opts).run(
+          () => active.session.send(message),
+          logger,
+          (ms) => cancellation.sleep(ms),
+        ),
+      );
 
       // Stream and yield responses
-      const stream = active.session.stream();
+      stream = active.session.stream();
       active.streamGenerator = stream;
 
-      for await (const msg of stream) {
+      // Left open on cancellation so interruptTurn() can drain the rest of the turn
+      let outage = false;
+      for await (const msg of cancellable(stream, cancellation, false)) {
+        if (isOutageMessage(msg)) {
+          outage = true;
+          this.breaker.recordFailure(msg);
+          if (created && !served && chain.length > 0) {
+            // The SDK has already retried; hand the session to the next model instead
+            fallbackReason = (msg as { error: string }).error;
+            break;
+          }
+        }
         // Capture session ID (available on every message per V2 API docs)
         const msgWithId = msg as SDKMessageWithSessionId;
         if (msgWithId.session_id && !active.sessionId) {
           active.sessionId = msgWithId.session_id;
           logger.info(`[anthropic] V2 Session initialized: ${active.sessionId}`);
         }
-        yield msg;
+        if (msg.type !== "system") served = true;
+        yield* this.deliver(msg, active.model, budget, sessionKey);
       }
 
       // Stream completed
+      if (!outage) this.breaker.recordSuccess();
       active.streaming = false;
       active.streamGenerator = null;
     } catch (error) {
       active.streaming = false;
       active.streamGenerator = null;
+      this.breaker.recordFailure(error);
+
+      if (error instanceof QueryCancelledError) {
+        logger.info(`[anthropic] V2 turn cancelled (${error.reason}): ${sessionKey}`);
+        // Under the session lock so the next turn waits until this one has stopped
+        const turn = stream ?? active.session.stream();
+        await withSessionLock(sessionKey, () => this.interruptTurn(sessionKey, active, turn, budget));
+        throw error;
+      }
+
+      if (error instanceof BudgetExceededError) {
+        // Closing the session is the only way to stop a V2 turn mid-stream
+        logger.warn(`${error.message}, aborting session ${sessionKey}`);
+        this.endSession(sessionKey);
+        throw error;
+      }
 
-      // If session is stale/dead, remove it
-      const errorStr = String(error);
-      if (errorStr.includes("session") || errorStr.includes("closed") || errorStr.includes("No conversation")) {
-        logger.warn(`[anthropic] V2 Session stale, removing: ${sessionKey}`);
-        activeSessions.delete(sessionKey);
+      if (created && !served && chain.length > 0 && isCapacityError(error)) {
+        fallbackReason = this.retryPolicy(opts).classify(error).reason;
       } else {
-        activeSessions.delete(sessionKey); // Clean up on failure
-        logger.error("[anthropic] V2 Query failed:", error);
-        throw new Error(`Anthropic V2 query failed: ${error instanceof Error ? error.message : String(error)}`);
+        // If session is stale/dead, remove it
+        const errorStr = String(error);
+        if (errorStr.includes("session") || errorStr.includes("closed") || errorStr.includes("No conversation")) {
+          logger.warn(`[anthropic] V2 Session stale, removing: ${sessionKey}`);
+          activeSessions.delete(sessionKey);
+        } else {
+          activeSessions.delete(sessionKey); // Clean up on failure
+          logger.error("[anthropic] V2 Query failed:", error);
+          throw new Error(`Anthropic V2 query failed: ${error instanceof Error ? error.message : String(error)}`);
+        }
       }
+    } finally {
+      permit.release();
+      this.recordUnfinished(budget, active.model, sessionKey);
+    }
+
+    if (fallbackReason) {
+      const [next, ...rest] = chain;
+      logger.warn(
+        `[anthropic] ${active.model} unavailable (${fallbackReason}), falling back to ${next}: ${sessionKey}`,
+      );
+      this.endSession(sessionKey);
+      yield {
+        type: "system",
+        subtype: "model_fallback",
+        from: active.model,
+        model: next,
+        reason: fallbackReason,
+      } satisfies ModelFallbackMessage;
+      yield* this.queryV2Stream(this.fallbackOptions(next, opts), cancellation, rest);
     }
   }
 
   // Original V1 query method (backward compatible)
-  async *query(opts: ModelQueryOptions): AsyncGenerator<unknown> {
-    const model = opts.model || anthropicProvider.defaultModel;
+  async *query(requestOpts: ModelQueryOptions): AsyncGenerator<unknown> {
+    const cancellation = new Cancellation(requestOpts.signal, requestOpts.timeoutMs);
+    try {
+      const stream = toolAudit.observe(this.queryStream(requestOpts, cancellation), {
+        sessionKey: requestOpts.sessionKey,
+        model: requestOpts.model,
+      });
+      yield* this.eventFormat(requestOpts) === "normalized" ? normalizeStream(stream) : stream;
+    } finally {
+      cancellation.dispose();
+    }
+  }
+
+  private async *queryStream(
+    requestOpts: ModelQueryOptions,
+    cancellation: Cancellation,
+    fallbacks?: string[],
+  ): AsyncGenerator<unknown> {
+    const { requested, model } = this.resolveModel(requestOpts.model);
+    const opts = this.checkCapabilities(model, requestOpts);
+    const chain = fallbacks ?? this.fallbackModels(model, opts);
+    const permissions = this.permissionOptions(opts);
+    const policyHook = this.toolPolicyHook(opts);
+    const budget = this.budgetGuard(model, opts.sessionKey);
+    budget?.assertWithinBudget();
+    cancellation.throwIfCancelled();
+
+    await this.refreshAuth();
 
     const queryOptions: any = {
       max_tokens: opts.maxTokens || 4096,
       model,
-      permissionMode: "bypassPermissions",
-      allowDangerouslySkipPermissions: true,
       env: this.buildEnv(),
+      abortController: cancellation.controller,
     };
 
     if (opts.systemPrompt) queryOptions.systemPrompt = opts.systemPrompt;
@@ -1024,72 +1967,138 @@ class AnthropicClient implements ModelClient {
       }
     }
 
+    // Documents and images go ahead of the text in the one user message the prompt streams
     let prompt = opts.prompt;
-    if (opts.images && opts.images.length > 0) {
-      const imageContents = [];
-      for (const imageUrl of opts.images) {
-        const imageData = await downloadImageAsBase64(imageUrl);
-        if (imageData) {
-          imageContents.push({
-            type: "image",
-            source: {
-              type: "base64",
-              media_type: imageData.mediaType,
-              data: imageData.data,
-            },
-          });
-        }
-      }
-      if (imageContents.length > 0) {
-        queryOptions.imageContents = imageContents;
-        prompt = `[User has shared ${imageContents.length} image(s)]\n\n${prompt}`;
-      }
-    }
-
-    if (opts.providerOptions) Object.assign(queryOptions, opts.providerOptions);
-    if (this.options) Object.assign(queryOptions, this.options);
+    const documents = await cancellation.race(buildDocumentBlocks(opts.documents, pluginConfig.mediaFetch));
+    const { blocks: images, report: imageReport } = await cancellation.race(prepareImages(opts.images, imageOptions()));
+    let attachments: object[] = [...documents, ...images];
 
-    const maxRetries = 3;
-    const baseDelayMs = 1000;
-    const retryableCodes = [429, 503];
+    if (opts.providerOptions) {
+      const { retry: _retry, ...restOptions } = opts.providerOptions;
+      Object.assign(queryOptions, restOptions);
+    }
+    if (this.options) Object.assign(queryOptions, this.sdkOptions());
+    // Applied last so neither providerOptions nor client options can sidestep the checked mode
+    Object.assign(queryOptions, permissions);
+    if (policyHook) queryOptions.hooks = withPreToolUseHook(queryOptions.hooks, policyHook);
 
+    if (requested !== model) {
+      yield { type: "system", subtype: "model_resolved", requested, model } satisfies ModelResolvedMessage;
+    }
+    if (imageReport) yield imageReport;
+
+    const policy = this.retryPolicy(opts);
+    const startedAt = Date.now();
+    // What the caller has already received: once output is out, a retry must not replay the prompt
+    let sdkSessionId: string | null = null;
+    let yielded = false;
+    let resumed = false;
+    const yieldedUuids = new Set<string>();
+    // Until the model has produced something, an overload can move the query to a fallback model
+    let served = false;
+    let fallbackReason: string | null = null;
     let lastError: unknown;
-    for (let attempt = 0; attempt <= maxRetries; attempt++) {
-      try {
-        const q = query({ prompt, options: queryOptions });
-        let sessionLogged = false;
-        for await (const msg of q) {
-          const msgWithId = msg as SDKMessageWithSessionId;
-          if (msgWithId.session_id && !sessionLogged) {
-            logger.info(`[anthropic] Session initialized: ${msgWithId.session_id}`);
-            sessionLogged = true;
+    try {
+      for (let attempt = 0; ; attempt++) {
+        let permit: RateLimitPermit | null = null;
+        try {
+          await cancellation.race(this.breaker.acquire(() => this.probe()));
+          permit = await this.acquireRateLimit(cancellation);
+          const q = query({ prompt: queryPrompt(prompt, attachments), options: queryOptions });
+          let outage = false;
+          for await (const msg of cancellable(q, cancellation)) {
+            if (isOutageMessage(msg)) {
+              outage = true;
+              this.breaker.recordFailure(msg);
+              if (!served && chain.length > 0) {
+                // The SDK has already retried; hand the query to the next model instead
+                fallbackReason = (msg as { error: string }).error;
+                break;
+              }
+            }
+            const msgWithId = msg as SDKMessageWithSessionId & { uuid?: string; subtype?: string };
+            if (msgWithId.session_id && !sdkSessionId) {
+              logger.info(`[anthropic] Session initialized: ${msgWithId.session_id}`);
+              sdkSessionId = msgWithId.session_id;
+            }
+            // A resumed session announces itself again and may replay messages the caller has seen
+            if (resumed && msgWithId.type === "system" && msgWithId.subtype === "init") continue;
+            if (msgWithId.uuid) {
+              if (yieldedUuids.has(msgWithId.uuid)) continue;
+              yieldedUuids.add(msgWithId.uuid);
+            }
+            yielded = true;
+            if (msgWithId.type !== "system") served = true;
+            yield* this.deliver(msg, model, budget, opts.sessionKey);
+          }
+          if (fallbackReason) break;
+          if (!outage) this.breaker.recordSuccess();
+          return; // Success — done iterating
+        } catch (error: unknown) {
+          permit?.release(); // don't hold the slot through the backoff
+          if (error instanceof CircuitOpenError) {
+            logger.warn(error.message);
+            throw error;
+          }
+          this.breaker.recordFailure(error);
+          if (error instanceof BudgetExceededError) {
+            // Leaving the loop closes the SDK query, which stops the agent
+            logger.warn(`${error.message}, aborting query`);
+            throw error;
+          }
+          if (cancellation.cancelled) {
+            // The SDK may fail with its own AbortError first; report the cancellation itself
+            logger.info("[anthropic] Query cancelled");
+            throw cancellation.error();
+          }
+          lastError = error;
+          if (yielded && (policy.options.midStream === "fail" || !sdkSessionId)) {
+            logger.warn("[anthropic] Stream failed after output was yielded, not retrying");
+            break;
+          }
+          const delay = policy.nextDelay(error, attempt, startedAt);
+          if (delay === null) break;
+          logger.warn(policy.describeRetry(error, attempt, delay));
+          await cancellation.sleep(delay);
+
+          if (yielded && sdkSessionId) {
+            // Continue the interrupted response in the same SDK session instead of starting over
+            logger.info(`[anthropic] Resuming interrupted stream in session ${sdkSessionId}`);
+            queryOptions.resume = sdkSessionId;
+            attachments = []; // already part of the session
+            prompt = RESUME_PROMPT;
+            resumed = true;
+            yield {
+              type: "system",
+              subtype: "stream_resumed",
+              sessionId: sdkSessionId,
+              attempt: attempt + 1,
+              reason: policy.classify(error).reason,
+            } satisfies StreamResumedMessage;
           }
-          yield msg;
+        } finally {
+          permit?.release();
         }
-        return; // Success — done iterating
-      } catch (error: unknown) {
-        lastError = error;
-        if (attempt === maxRetries) break;
-
-        const msg = error instanceof Error ? error.message : String(error);
-        const status = (error as any)?.status ?? (error as any)?.statusCode;
-        const isRetryable =
-          (status && retryableCodes.includes(status)) ||
-          msg.includes("ECONNRESET") ||
-          msg.includes("ECONNREFUSED") ||
-          msg.includes("ETIMEDOUT") ||
-          msg.includes("fetch failed") ||
-          msg.includes("network") ||
-          msg.includes("socket hang up");
-
-        if (!isRetryable) break;
-
-        const delay = baseDelayMs * 2 ** attempt;
-        logger.warn(
-          `[retry] Attempt ${attempt + 1}/${maxRetries} failed (${status || msg.slice(0, 80)}), retrying in ${delay}ms`,
-        );
-        await new Promise((r) => setTimeout(r, delay));
       }
+    } finally {
+      this.recordUnfinished(budget, model, opts.sessionKey);
+    }
+
+    if (!fallbackReason && !served && chain.length > 0 && isCapacityError(lastError)) {
+      fallbackReason = policy.classify(lastError).reason;
+    }
+    if (fallbackReason) {
+      const [next, ...rest] = chain;
+      logger.warn(`[anthropic] ${model} unavailable (${fallbackReason}), falling back to ${next}`);
+      yield {
+        type: "system",
+        subtype: "model_fallback",
+        from: model,
+        model: next,
+        reason: fallbackReason,
+      } satisfies ModelFallbackMessage;
+      yield* this.queryStream(this.fallbackOptions(next, opts), cancellation, rest);
+      return;
     }
 
     logger.error("[anthropic] Query failed:", lastError);
@@ -1099,7 +2108,8 @@ class AnthropicClient implements ModelClient {
   async listModels(): Promise<string[]> {
     // Trigger async discovery (updates supportedModels as side effect)
     try {
-      const models = await discoverModels();
+      await this.refreshAuth();
+      const models = await discoverModels({ auth: this.modelsApiAuth() });
       return models.map((m) => m.id);
     } catch {
       return anthropicProvider.supportedModels;
@@ -1108,34 +2118,83 @@ class AnthropicClient implements ModelClient {
 
   async healthCheck(): Promise<boolean> {
     try {
-      await retryWithBackoff(
-        async () => {
-          const q = query({
-            prompt: "test",
-            options: {
-              max_tokens: 10,
-              permissionMode: "bypassPermissions",
-              allowDangerouslySkipPermissions: true,
-              env: this.buildEnv(),
-            } as any,
-          });
-          for await (const _ of q) {
-          }
-        },
-        { maxRetries: 3, baseDelayMs: 1000 },
-        logger,
-      );
+      await this.refreshAuth();
+      await this.retryPolicy().run(() => this.probe(), logger);
+      // A passing health check closes a tripped breaker without waiting for the reset timeout
+      this.breaker.recordSuccess();
       return true;
     } catch (error) {
       logger.error("[anthropic] Health check failed:", error);
+      this.breaker.recordFailure(error);
       return false;
     }
   }
 }
 
+export type {
+  BudgetConfig,
+  BudgetWarningMessage,
+  CircuitBreakerOptions,
+  CircuitSnapshot,
+  DiscoveredModel,
+  DocumentAttachment,
+  DocumentInput,
+  EventFormat,
+  FallbackConfig,
+  ImageAttachment,
+  ImageInput,
+  ImageProcessingConfig,
+  ImageReport,
+  ImagesProcessedMessage,
+  MediaFetchConfig,
+  MediaFetchErrorCode,
+  ModelAliasPins,
+  ModelCapabilities,
+  ModelFallbackMessage,
+  ModelResolvedMessage,
+  ModelsApiAuth,
+  PermissionConfig,
+  PermissionMode,
+  ProgrammaticToolCallingConfig,
+  RateLimitConfig,
+  RateLimitOptions,
+  ResponseFormat,
+  RetryOptions,
+  SessionUsage,
+  StreamResumedMessage,
+  ToolApprovalConfig,
+  ToolApprovalDecision,
+  ToolApprovalRequest,
+  ToolApprover,
+  ToolAuditConfig,
+  ToolAuditEntry,
+  ToolPolicyConfig,
+  ToolPolicyDecision,
+  ToolPolicyRule,
+  ToolSearchConfig,
+  UsageSummary,
+  WoprStreamEvent,
+  WorkspaceConfig,
+};
 // Export client class and model discovery for type checking
-export { AnthropicClient, discoverModels, getModelInfo };
-export type { DiscoveredModel, ProgrammaticToolCallingConfig, ResponseFormat, ToolSearchConfig };
+export {
+  AnthropicClient,
+  BudgetExceededError,
+  CircuitOpenError,
+  DocumentInputError,
+  discoverModels,
+  getModelInfo,
+  ImageBudgetError,
+  ImageInputError,
+  lookupModelCapabilities,
+  MediaFetchError,
+  ModelCapabilityError,
+  PermissionModeError,
+  QueryCancelledError,
+  RetryPolicy,
+  refreshModels,
+  retryWithBackoff,
+};
 
 // =============================================================================
 // Plugin Manifest
@@ -1156,7 +2215,7 @@ const manifest: PluginManifest = {
   requires: {
     network: {
       outbound: true,
-      hosts: ["api.anthropic.com", "docs.anthropic.com"],
+      hosts: ["api.anthropic.com", "docs.anthropic.com", "console.anthropic.com"],
     },
   },
   provides: {
@@ -1229,6 +2288,123 @@ const manifest: PluginManifest = {
         secret: true,
         hidden: true,
       },
+      {
+        name: "enrichModelPricing",
+        type: "boolean",
+        label: "Enrich Model Pricing",
+        required: false,
+        default: false,
+        description: "Scrape Anthropic's models docs with Haiku to add pricing to discovered models (costs tokens)",
+      },
+      {
+        name: "modelAliases",
+        type: "object",
+        label: "Model Alias Pins",
+        required: false,
+        description: 'Pin aliases to model IDs, e.g. { "sonnet": "claude-sonnet-4-5-20250929" }',
+      },
+      {
+        name: "budgets",
+        type: "object",
+        label: "Budgets",
+        required: false,
+        description:
+          'Spend/token limits, e.g. { "perQuery": { "maxCostUsd": 1 }, "perDay": { "maxCostUsd": 50 }, "warnThresholds": [0.8] }',
+      },
+      {
+        name: "eventFormat",
+        type: "select",
+        label: "Stream Event Format",
+        required: false,
+        options: [
+          { value: "sdk", label: "Claude Agent SDK messages" },
+          { value: "normalized", label: "Normalized WOPR events" },
+        ],
+        default: "sdk",
+        description: "Format of query streams; normalized events don't depend on SDK message shapes",
+      },
+      {
+        name: "circuitBreaker",
+        type: "object",
+        label: "Circuit Breaker",
+        required: false,
+        description: 'Fail fast during outages, e.g. { "failureThreshold": 5, "resetTimeoutMs": 30000 }',
+      },
+      {
+        name: "retry",
+        type: "object",
+        label: "Retry Policy",
+        required: false,
+        description:
+          'Retries of transient API failures, e.g. { "maxRetries": 3, "baseDelayMs": 1000, "maxElapsedMs": 120000 }',
+      },
+      {
+        name: "fallback",
+        type: "object",
+        label: "Fallback Models",
+        required: false,
+        description: 'Models to use when one is overloaded, e.g. { "models": ["opus", "sonnet", "haiku"] }',
+      },
+      {
+        name: "rateLimits",
+        type: "object",
+        label: "Rate Limits",
+        required: false,
+        description:
+          'Per-credential limits, e.g. { "requestsPerMinute": 50, "outputTokensPerMinute": 8000, "maxConcurrentStreams": 4 }',
+      },
+      {
+        name: "permissions",
+        type: "object",
+        label: "Tool Permissions",
+        required: false,
+        description:
+          'Permission modes, e.g. { "mode": "acceptEdits", "maxMode": "acceptEdits", "allowBypassWhenHosted": false }',
+      },
+      {
+        name: "toolApproval",
+        type: "object",
+        label: "Tool Approval",
+        required: false,
+        description: 'Tool approver settings, e.g. { "timeoutMs": 120000 }',
+      },
+      {
+        name: "toolPolicy",
+        type: "object",
+        label: "Tool Policy",
+        required: false,
+        description:
+          'Tool allow/deny rules, e.g. { "rules": [{ "action": "allow", "tool": "Bash", "commands": ["git *"] }] }',
+      },
+      {
+        name: "workspaces",
+        type: "object",
+        label: "Session Workspaces",
+        required: false,
+        description: 'Per-session working directories, e.g. { "enabled": true, "root": "/var/lib/wopr/workspaces" }',
+      },
+      {
+        name: "toolAudit",
+        type: "object",
+        label: "Tool Audit Log",
+        required: false,
+        description: 'Tool-call audit log, e.g. { "enabled": true, "maxBytes": 10485760, "maxFiles": 5 }',
+      },
+      {
+        name: "mediaFetch",
+        type: "object",
+        label: "Media Fetching",
+        required: false,
+        description:
+          'Limits for image and document inputs, e.g. { "allowHosts": ["cdn.discordapp.com"], "fileRoots": ["/srv/uploads"] }',
+      },
+      {
+        name: "imageProcessing",
+        type: "object",
+        label: "Image Processing",
+        required: false,
+        description: 'Image downscaling and token budget, e.g. { "maxEdge": 1568, "maxTokensPerQuery": 8000 }',
+      },
     ],
   },
   lifecycle: {
@@ -1241,9 +2417,89 @@ const manifest: PluginManifest = {
 // Plugin Export
 // =============================================================================
 
+// Strip any credential-adjacent data — only return display info
+function toModelDisplayInfo(models: DiscoveredModel[]) {
+  return models.map((m) => ({
+    id: m.id,
+    name: m.name,
+    contextWindow: m.contextWindow,
+    maxOutput: m.maxOutput,
+    inputPrice: m.inputPrice,
+    outputPrice: m.outputPrice,
+    legacy: m.legacy,
+    capabilities: m.capabilities ?? lookupModelCapabilities(m.id),
+  }));
+}
+
 // Stored during init() so shutdown/onDeactivate can call unregister methods.
 let pluginCtx: WOPRPluginContext | null = null;
 
+/** Plugin-wide settings read from the WOPR plugin config during init(). */
+interface AnthropicPluginConfig {
+  /** WOPR gateway URL, injected by the platform for hosted tenants. */
+  baseUrl?: string;
+  /** WOPR tenant token, injected with `baseUrl`. */
+  tenantToken?: string;
+  /** Scrape the models docs page with Haiku to add pricing to discovered models. */
+  enrichModelPricing?: boolean;
+  /** Pin model aliases (e.g. "sonnet") to concrete model IDs. */
+  modelAliases?: ModelAliasPins;
+  /** Spend/token limits per query, per sessionKey and per day. */
+  budgets?: BudgetConfig;
+  /** Default stream format for queries that don't set `eventFormat`. */
+  eventFormat?: EventFormat;
+  /** Failure threshold and reset timeout of the per-credential circuit breakers. */
+  circuitBreaker?: CircuitBreakerOptions;
+  /** Default retry policy, overridable per client and per call via `providerOptions.retry`. */
+  retry?: RetryOptions;
+  /** Models to fall back to, in order, when a model is overloaded or rate limited. */
+  fallback?: FallbackConfig;
+  /** Client-side request/token rate limits and stream concurrency, per credential. */
+  rateLimits?: RateLimitConfig;
+  /** Default and maximum tool permission modes. */
+  permissions?: PermissionConfig;
+  /** How long the tool approver may take before a tool call is denied. */
+  toolApproval?: ToolApprovalConfig;
+  /** Allow/deny rules for tool calls by tool name and arguments. */
+  toolPolicy?: ToolPolicyConfig;
+  /** Per-sessionKey working directories for V2 sessions. */
+  workspaces?: WorkspaceConfig;
+  /** Where and how tool calls are logged. */
+  toolAudit?: ToolAuditConfig;
+  /** Scheme, host, size and time limits for downloading image URLs. */
+  mediaFetch?: MediaFetchConfig;
+  /** Image downscaling and the per-query image token budget. */
+  imageProcessing?: ImageProcessingConfig;
+}
+
+// Client/plugin config keys consumed by the plugin itself, never forwarded to the SDK
+const PLUGIN_CONFIG_KEYS = [
+  "baseUrl",
+  "tenantToken",
+  "enrichModelPricing",
+  "modelAliases",
+  "budgets",
+  "eventFormat",
+  "circuitBreaker",
+  "retry",
+  "fallback",
+  "rateLimits",
+  "permissions",
+  "toolApproval",
+  "canUseTool",
+  "toolPolicy",
+  "workspaces",
+  "toolAudit",
+  "mediaFetch",
+  "imageProcessing",
+];
+
+let pluginConfig: AnthropicPluginConfig = {};
+
+function imageOptions() {
+  return { fetch: pluginConfig.mediaFetch, processing: pluginConfig.imageProcessing };
+}
+
 const plugin: WOPRPlugin & {
   onActivate?: (ctx: WOPRPluginContext) => Promise<void>;
   onDeactivate?: () => Promise<void>;
@@ -1257,6 +2513,11 @@ const plugin: WOPRPlugin & {
 
   async init(ctx: WOPRPluginContext) {
     pluginCtx = ctx;
+    pluginConfig = ctx.getConfig?.<AnthropicPluginConfig>() ?? {};
+    circuitBreakers.configure(pluginConfig.circuitBreaker);
+    rateLimiters.configure(pluginConfig.rateLimits);
+    workspaces.configure(pluginConfig.workspaces);
+    toolAudit.configure(pluginConfig.toolAudit);
     ctx.log.info("Registering Anthropic provider...");
 
     const activeAuth = getActiveAuthMethod();
@@ -1273,31 +2534,32 @@ const plugin: WOPRPlugin & {
       }
     }
 
+    // Start from the last discovered model list, if one was persisted
+    loadModelCache();
+
     ctx.registerProvider(anthropicProvider);
     ctx.log.info("Anthropic provider registered");
 
     // Register extension for daemon model endpoint enrichment (WOP-268)
     if (ctx.registerExtension) {
       ctx.registerExtension("provider-anthropic", {
-        getModelInfo: async () => {
-          const models = await getModelInfo();
-          // Strip any credential-adjacent data — only return display info
-          return models.map((m) => ({
-            id: m.id,
-            name: m.name,
-            contextWindow: m.contextWindow,
-            maxOutput: m.maxOutput,
-            inputPrice: m.inputPrice,
-            outputPrice: m.outputPrice,
-            legacy: m.legacy,
-          }));
+        getModelInfo: async () => toModelDisplayInfo(await getModelInfo()),
+        refreshModels: async () => toModelDisplayInfo(await refreshModels()),
+        getUsage: (sessionKey?: string) => (sessionKey ? usageTracker.get(sessionKey) : usageTracker.all()),
+        resetUsage: (sessionKey?: string) => (sessionKey ? usageTracker.reset(sessionKey) : usageTracker.clear()),
+        getDailySpend: () => dailySpend.current(),
+        getCircuitState: () => circuitBreakers.snapshots(),
+        resolveModelAlias: (alias: string) => resolveModelAlias(alias, knownModels(), { ...pluginConfig.modelAliases }),
+        getToolAudit: (sessionKey?: string, limit?: number) => toolAudit.recent(sessionKey, limit),
+        setToolApprover: (approver: ToolApprover | null) => {
+          toolApprover = approver;
         },
       });
       ctx.log.info("Registered provider-anthropic extension");
     }
 
     // Kick off model discovery in background (non-blocking)
-    if (activeMethod?.available) {
+    if (activeMethod?.available || (pluginConfig.baseUrl && pluginConfig.tenantToken)) {
       discoverModels()
         .then((models) => {
           const current = models.filter((m) => !m.legacy);
@@ -1348,6 +2610,123 @@ const plugin: WOPRPlugin & {
           description: "WOPR tenant auth token (injected by platform for hosted tenants)",
           secret: true,
         },
+        {
+          name: "enrichModelPricing",
+          type: "boolean",
+          label: "Enrich Model Pricing",
+          required: false,
+          default: false,
+          description: "Scrape Anthropic's models docs with Haiku to add pricing to discovered models (costs tokens)",
+        },
+        {
+          name: "modelAliases",
+          type: "object",
+          label: "Model Alias Pins",
+          required: false,
+          description: 'Pin aliases to model IDs, e.g. { "sonnet": "claude-sonnet-4-5-20250929" }',
+        },
+        {
+          name: "budgets",
+          type: "object",
+          label: "Budgets",
+          required: false,
+          description:
+            'Spend/token limits, e.g. { "perQuery": { "maxCostUsd": 1 }, "perDay": { "maxCostUsd": 50 }, "warnThresholds": [0.8] }',
+        },
+        {
+          name: "eventFormat",
+          type: "select",
+          label: "Stream Event Format",
+          required: false,
+          options: [
+            { value: "sdk", label: "Claude Agent SDK messages" },
+            { value: "normalized", label: "Normalized WOPR events" },
+          ],
+          default: "sdk",
+          description: "Format of query streams; normalized events don't depend on SDK message shapes",
+        },
+        {
+          name: "circuitBreaker",
+          type: "object",
+          label: "Circuit Breaker",
+          required: false,
+          description: 'Fail fast during outages, e.g. { "failureThreshold": 5, "resetTimeoutMs": 30000 }',
+        },
+        {
+          name: "retry",
+          type: "object",
+          label: "Retry Policy",
+          required: false,
+          description:
+            'Retries of transient API failures, e.g. { "maxRetries": 3, "baseDelayMs": 1000, "maxElapsedMs": 120000 }',
+        },
+        {
+          name: "fallback",
+          type: "object",
+          label: "Fallback Models",
+          required: false,
+          description: 'Models to use when one is overloaded, e.g. { "models": ["opus", "sonnet", "haiku"] }',
+        },
+        {
+          name: "rateLimits",
+          type: "object",
+          label: "Rate Limits",
+          required: false,
+          description:
+            'Per-credential limits, e.g. { "requestsPerMinute": 50, "outputTokensPerMinute": 8000, "maxConcurrentStreams": 4 }',
+        },
+        {
+          name: "permissions",
+          type: "object",
+          label: "Tool Permissions",
+          required: false,
+          description:
+            'Permission modes, e.g. { "mode": "acceptEdits", "maxMode": "acceptEdits", "allowBypassWhenHosted": false }',
+        },
+        {
+          name: "toolApproval",
+          type: "object",
+          label: "Tool Approval",
+          required: false,
+          description: 'Tool approver settings, e.g. { "timeoutMs": 120000 }',
+        },
+        {
+          name: "toolPolicy",
+          type: "object",
+          label: "Tool Policy",
+          required: false,
+          description:
+            'Tool allow/deny rules, e.g. { "rules": [{ "action": "allow", "tool": "Bash", "commands": ["git *"] }] }',
+        },
+        {
+          name: "workspaces",
+          type: "object",
+          label: "Session Workspaces",
+          required: false,
+          description: 'Per-session working directories, e.g. { "enabled": true, "root": "/var/lib/wopr/workspaces" }',
+        },
+        {
+          name: "toolAudit",
+          type: "object",
+          label: "Tool Audit Log",
+          required: false,
+          description: 'Tool-call audit log, e.g. { "enabled": true, "maxBytes": 10485760, "maxFiles": 5 }',
+        },
+        {
+          name: "mediaFetch",
+          type: "object",
+          label: "Media Fetching",
+          required: false,
+          description:
+            'Limits for image and document inputs, e.g. { "allowHosts": ["cdn.discordapp.com"], "fileRoots": ["/srv/uploads"] }',
+        },
+        {
+          name: "imageProcessing",
+          type: "object",
+          label: "Image Processing",
+          required: false,
+          description: 'Image downscaling and token budget, e.g. { "maxEdge": 1568, "maxTokensPerQuery": 8000 }',
+        },
       ],
     });
   },
@@ -0,0 +1,16 @@
+/**
+ * Shared winston logger for the Anthropic provider plugin.
+ */
+
+import winston from "winston";
+
+export const logger = winston.createLogger({
+  level: "info",
+  format: winston.format.combine(
+    winston.format.timestamp(),
+    winston.format.errors({ stack: true }),
+    winston.format.json(),
+  ),
+  defaultMeta: { service: "wopr-plugin-provider-anthropic" },
+  transports: [new winston.transports.Console({ level: "warn" })],
+});
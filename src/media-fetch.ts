@@ -0,0 +1,225 @@
+/**
+ * Remote media fetching.
+ *
+ * Downloads URLs that prompt authors put on a query, so it is locked down:
+ * only allowed schemes and hosts, no loopback, private or link-local
+ * addresses (checked against the address actually connected to, after DNS
+ * resolution and on every redirect), a bounded number of redirects, a byte
+ * limit enforced while the body streams in, and one deadline for the whole
+ * fetch. Every failure is a MediaFetchError with a machine-readable code.
+ */
+
+import { lookup as dnsLookup } from "node:dns";
+import { request as httpRequest, type IncomingMessage } from "node:http";
+import { request as httpsRequest } from "node:https";
+import { BlockList, isIP, type LookupFunction } from "node:net";
+import { matchesDomain } from "./tool-policy.js";
+
+export interface MediaFetchConfig {
+  /** URL schemes inputs may use: http, https and file (which also needs `fileRoots`). Default http and https. */
+  allowSchemes?: string[];
+  /** If set, only these hosts are fetched. "example.com" also matches its subdomains. */
+  allowHosts?: string[];
+  /** Hosts never fetched, whatever `allowHosts` says. */
+  denyHosts?: string[];
+  /** Fetch from loopback, private, link-local and other non-public addresses. Default false. */
+  allowPrivateNetworks?: boolean;
+  /** Default 3. */
+  maxRedirects?: number;
+  /** Largest body accepted, in bytes. Default 20 MiB. */
+  maxBytes?: number;
+  /** Deadline for the whole fetch, redirects and body included. Default 15 seconds. */
+  timeoutMs?: number;
+  /** Directories `file://` inputs may be read from. Default none: local files are refused. */
+  fileRoots?: string[];
+}
+
+export type MediaFetchErrorCode =
+  | "invalid_url"
+  | "scheme_not_allowed"
+  | "host_not_allowed"
+  | "private_address"
+  | "too_many_redirects"
+  | "too_large"
+  | "timeout"
+  | "http_status"
+  | "network"
+  | "path_not_allowed";
+
+export class MediaFetchError extends Error {
+  constructor(
+    readonly code: MediaFetchErrorCode,
+    readonly url: string,
+    readonly reason: string,
+    readonly status?: number,
+  ) {
+    super(`[anthropic] Cannot fetch ${url}: ${reason}`);
+    this.name = "MediaFetchError";
+  }
+}
+
+export interface FetchedMedia {
+  /** Final URL, after redirects. */
+  url: string;
+  bytes: Buffer;
+  /** As sent by the server; not to be trusted. */
+  contentType?: string;
+}
+
+export const DEFAULT_SCHEMES = ["https", "http"];
+const DEFAULT_MAX_REDIRECTS = 3;
+export const DEFAULT_MAX_BYTES = 20 * 1024 * 1024;
+const DEFAULT_TIMEOUT_MS = 15_000;
+
+const TRANSPORTS: Record<string, typeof httpRequest> = { "http:": httpRequest, "https:": httpsRequest };
+
+// Loopback, private, CGNAT, link-local (cloud metadata), benchmarking,
+// multicast and reserved ranges. IPv4-mapped IPv6 addresses match the IPv4 rules.
+const NON_PUBLIC = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 3],
+] as const) {
+  NON_PUBLIC.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 127],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  NON_PUBLIC.addSubnet(network, prefix, "ipv6");
+}
+
+/** True for anything that isn't a public unicast IP address, including non-addresses. */
+export function isPrivateAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 0) return true;
+  return NON_PUBLIC.check(address, family === 4 ? "ipv4" : "ipv6");
+}
+
+/** DNS lookup that fails when the host resolves to any non-public address. */
+function publicLookup(url: string): LookupFunction {
+  return (hostname, options, callback) => {
+    dnsLookup(hostname, { ...options, all: true }, (error, addresses) => {
+      if (error) return callback(error, "");
+      const blocked = addresses.find((a) => isPrivateAddress(a.address));
+      if (blocked) {
+        return callback(
+          new MediaFetchError("private_address", url, `${hostname} resolves to non-public address ${blocked.address}`),
+          "",
+        );
+      }
+      if (options.all) return callback(null, addresses);
+      callback(null, addresses[0].address, addresses[0].family);
+    });
+  };
+}
+
+/** Parse `url` and apply the scheme, host and literal-address rules. */
+function checkUrl(url: string, config: MediaFetchConfig): URL {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new MediaFetchError("invalid_url", url, "not a valid URL");
+  }
+  const scheme = parsed.protocol.slice(0, -1);
+  if (!(config.allowSchemes ?? DEFAULT_SCHEMES).includes(scheme) || !TRANSPORTS[parsed.protocol]) {
+    throw new MediaFetchError("scheme_not_allowed", url, `scheme "${scheme}" is not allowed`);
+  }
+  const host = parsed.hostname.replace(/^\[|\]$/g, "").toLowerCase();
+  if (config.denyHosts && matchesDomain(config.denyHosts, host)) {
+    throw new MediaFetchError("host_not_allowed", url, `host ${host} is denied`);
+  }
+  if (config.allowHosts && !matchesDomain(config.allowHosts, host)) {
+    throw new MediaFetchError("host_not_allowed", url, `host ${host} is not in allowHosts`);
+  }
+  // Literal addresses never go through the DNS lookup
+  if (!config.allowPrivateNetworks && isIP(host) && isPrivateAddress(host)) {
+    throw new MediaFetchError("private_address", url, `${host} is a non-public address`);
+  }
+  return parsed;
+}
+
+function get(url: URL, config: MediaFetchConfig, signal: AbortSignal): Promise<IncomingMessage> {
+  return new Promise((resolve, reject) => {
+    const request = TRANSPORTS[url.protocol](
+      url,
+      {
+        method: "GET",
+        signal,
+        lookup: config.allowPrivateNetworks ? undefined : publicLookup(url.href),
+        headers: { accept: "*/*", "user-agent": "wopr-plugin-provider-anthropic" },
+      },
+      resolve,
+    );
+    request.on("error", reject);
+    request.end();
+  });
+}
+
+async function readBody(response: IncomingMessage, url: string, maxBytes: number): Promise<Buffer> {
+  const tooLarge = () => new MediaFetchError("too_large", url, `body is larger than ${maxBytes} bytes`);
+  if (Number(response.headers["content-length"]) > maxBytes) {
+    response.destroy();
+    throw tooLarge();
+  }
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of response as AsyncIterable<Buffer>) {
+    size += chunk.length;
+    if (size > maxBytes) throw tooLarge();
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * GET `url` under `config`, following redirects. Throws MediaFetchError for
+ * blocked URLs, limits exceeded, non-2xx responses and network failures.
+ */
+export async function fetchMedia(url: string, config: MediaFetchConfig = {}): Promise<FetchedMedia> {
+  const timeoutMs = config.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const maxRedirects = config.maxRedirects ?? DEFAULT_MAX_REDIRECTS;
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  let current = url;
+  try {
+    for (let redirects = 0; ; redirects++) {
+      const target = checkUrl(current, config);
+      const response = await get(target, config, controller.signal);
+      const status = response.statusCode ?? 0;
+      const location = response.headers.location;
+      if (status >= 300 && status < 400 && location) {
+        response.resume();
+        if (redirects >= maxRedirects) {
+          throw new MediaFetchError("too_many_redirects", url, `more than ${maxRedirects} redirects`);
+        }
+        current = new URL(location, target).href;
+        continue;
+      }
+      if (status < 200 || status >= 300) {
+        response.resume();
+        throw new MediaFetchError("http_status", url, `HTTP ${status}`, status);
+      }
+      const bytes = await readBody(response, url, config.maxBytes ?? DEFAULT_MAX_BYTES);
+      return { url: current, bytes, contentType: response.headers["content-type"] };
+    }
+  } catch (error) {
+    if (error instanceof MediaFetchError) throw error;
+    if (controller.signal.aborted)
+      throw new MediaFetchError("timeout", url, `no complete response within ${timeoutMs}ms`);
+    throw new MediaFetchError("network", url, error instanceof Error ? error.message : String(error));
+  } finally {
+    clearTimeout(timer);
+  }
+}
@@ -0,0 +1,141 @@
+/**
+ * Media input loading.
+ *
+ * Shared by images and documents: reads the bytes behind an http(s) URL
+ * (through the media fetcher), a `file://` URL under a configured root, a
+ * `data:` URL or in-memory data, with one size limit for downloads and local
+ * files. Problems are thrown as the caller's own error class so image and
+ * document errors stay distinct. Also builds the user messages that carry
+ * these blocks to the SDK.
+ */
+
+import { open, realpath } from "node:fs/promises";
+import { isAbsolute, relative, sep } from "node:path";
+import { fileURLToPath } from "node:url";
+import type { SDKUserMessage } from "@anthropic-ai/claude-agent-sdk";
+import {
+  DEFAULT_MAX_BYTES,
+  DEFAULT_SCHEMES,
+  fetchMedia,
+  type MediaFetchConfig,
+  MediaFetchError,
+  type MediaFetchErrorCode,
+} from "./media-fetch.js";
+
+/** ImageInputError, DocumentInputError. */
+export type MediaInputErrorClass = new (source: string, message: string, code?: MediaFetchErrorCode) => Error;
+
+/** Short description of an input for errors and logs; never includes inline data. */
+export function describeSource(input: unknown, index: number): string {
+  if (typeof input !== "string") return `attachment #${index + 1}`;
+  if (input.startsWith("data:")) return `data URL #${index + 1}`;
+  return input.length > 200 ? `${input.slice(0, 200)}…` : input;
+}
+
+function decodeDataUrl(url: string, source: string, InputError: MediaInputErrorClass): Uint8Array {
+  const match = /^data:([^,]*?)(;base64)?,(.*)$/s.exec(url);
+  if (!match) throw new InputError(source, "malformed data URL");
+  return match[2] ? Buffer.from(match[3], "base64") : Buffer.from(decodeURIComponent(match[3]), "latin1");
+}
+
+/** True when `path` (already resolved) is inside one of `roots`, after resolving their symlinks too. */
+async function insideRoots(path: string, roots: string[]): Promise<boolean> {
+  for (const root of roots) {
+    const resolved = await realpath(root).catch(() => null);
+    if (!resolved) continue;
+    const rel = relative(resolved, path);
+    if (rel === "" || (rel.split(sep)[0] !== ".." && !isAbsolute(rel))) return true;
+  }
+  return false;
+}
+
+async function readLocalFile(
+  url: string,
+  source: string,
+  config: MediaFetchConfig | undefined,
+  InputError: MediaInputErrorClass,
+): Promise<Uint8Array> {
+  if (!(config?.allowSchemes ?? DEFAULT_SCHEMES).includes("file")) {
+    throw new InputError(source, 'scheme "file" is not allowed', "scheme_not_allowed");
+  }
+  const roots = config?.fileRoots ?? [];
+  if (roots.length === 0)
+    throw new InputError(source, "local files are not allowed (no fileRoots)", "path_not_allowed");
+  const maxBytes = config?.maxBytes ?? DEFAULT_MAX_BYTES;
+  try {
+    const path = await realpath(fileURLToPath(url));
+    if (!(await insideRoots(path, roots))) {
+      throw new InputError(source, "file is outside fileRoots", "path_not_allowed");
+    }
+    const file = await open(path);
+    try {
+      if ((await file.stat()).size > maxBytes) {
+        throw new InputError(source, `file is larger than ${maxBytes} bytes`, "too_large");
+      }
+      return await file.readFile();
+    } finally {
+      await file.close();
+    }
+  } catch (error) {
+    if (error instanceof InputError) throw error;
+    throw new InputError(source, `cannot read file (${(error as NodeJS.ErrnoException).code ?? error})`);
+  }
+}
+
+async function download(
+  url: string,
+  source: string,
+  config: MediaFetchConfig | undefined,
+  InputError: MediaInputErrorClass,
+): Promise<Uint8Array> {
+  try {
+    return (await fetchMedia(url, config)).bytes;
+  } catch (error) {
+    if (error instanceof MediaFetchError) throw new InputError(source, error.reason, error.code);
+    throw new InputError(source, error instanceof Error ? error.message : String(error), "network");
+  }
+}
+
+/** The raw bytes of a URL or of in-memory `data` (raw or base64). */
+export async function loadMedia(
+  input: string | { data: Uint8Array | string },
+  source: string,
+  config: MediaFetchConfig | undefined,
+  InputError: MediaInputErrorClass,
+): Promise<Uint8Array> {
+  if (typeof input !== "string") {
+    return typeof input.data === "string" ? Buffer.from(input.data, "base64") : input.data;
+  }
+  if (input.startsWith("data:")) return decodeDataUrl(input, source, InputError);
+  if (input.startsWith("file:")) return readLocalFile(input, source, config, InputError);
+  if (/^https?:\/\//i.test(input)) return download(input, source, config, InputError);
+  throw new InputError(source, "expected an http(s), file:// or data: URL");
+}
+
+type ContentBlocks = Exclude<SDKUserMessage["message"]["content"], string>;
+
+/**
+ * What to pass to a V2 `session.send()`: the plain text, or a user message
+ * with the image and document blocks ahead of the text when there are any.
+ */
+export function sessionMessage(text: string, blocks: object[], sessionId: string | null): string | SDKUserMessage {
+  if (blocks.length === 0) return text;
+  return {
+    type: "user",
+    message: { role: "user", content: [...blocks, { type: "text", text }] as ContentBlocks },
+    parent_tool_use_id: null,
+    session_id: sessionId ?? "",
+  };
+}
+
+/**
+ * A V1 `query()` prompt: the plain text, or a one-message stream carrying the
+ * blocks ahead of the text, which is how the SDK takes multimodal input.
+ */
+export function queryPrompt(text: string, blocks: object[]): string | AsyncIterable<SDKUserMessage> {
+  const message = sessionMessage(text, blocks, null);
+  if (typeof message === "string") return message;
+  return (async function* () {
+    yield message;
+  })();
+}
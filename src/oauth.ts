@@ -0,0 +1,161 @@
+/**
+ * OAuth access-token refresh for Claude Pro/Max credentials.
+ *
+ * Claude Code stores the subscription token in ~/.claude/.credentials.json
+ * under `claudeAiOauth`. Access tokens are short-lived, so long-running
+ * daemons must refresh them before `expiresAt` and write the rotated
+ * credentials back for the next process that reads the file.
+ */
+
+import { readFile } from "node:fs/promises";
+import { writeFileAtomic } from "./fs-utils.js";
+import { logger } from "./logger.js";
+
+/** Token endpoint used by Claude Code for subscription logins. */
+export const OAUTH_TOKEN_URL = "https://console.anthropic.com/v1/oauth/token";
+
+/** Public OAuth client ID of the Claude Code CLI. */
+export const OAUTH_CLIENT_ID = "9d1c250a-e61b-44d9-88ed-5944d1962f5e";
+
+// Refresh this long before the token actually expires
+const DEFAULT_REFRESH_SKEW_MS = 5 * 60 * 1000;
+
+// Assumed lifetime of a refreshed token whose response has no expires_in
+const DEFAULT_TOKEN_LIFETIME_MS = 60 * 60 * 1000;
+
+export interface OAuthCredentials {
+  accessToken: string;
+  refreshToken?: string;
+  /** Expiry as epoch milliseconds. */
+  expiresAt?: number;
+}
+
+interface OAuthTokenManagerOptions {
+  tokenUrl?: string;
+  clientId?: string;
+  /** How early (ms) before `expiresAt` a refresh is triggered. */
+  refreshSkewMs?: number;
+}
+
+interface TokenResponse {
+  access_token?: string;
+  refresh_token?: string;
+  expires_in?: number;
+}
+
+export class OAuthTokenManager {
+  // In-flight refresh, shared so concurrent queries trigger a single request
+  private refreshing: Promise<OAuthCredentials> | null = null;
+  private readonly tokenUrl: string;
+  private readonly clientId: string;
+  private readonly refreshSkewMs: number;
+
+  constructor(
+    private readonly credentialsPath: string,
+    options: OAuthTokenManagerOptions = {},
+  ) {
+    this.tokenUrl = options.tokenUrl ?? OAUTH_TOKEN_URL;
+    this.clientId = options.clientId ?? OAUTH_CLIENT_ID;
+    this.refreshSkewMs = options.refreshSkewMs ?? DEFAULT_REFRESH_SKEW_MS;
+  }
+
+  /** Read the current OAuth credentials from disk (null if absent or unreadable). */
+  async read(): Promise<OAuthCredentials | null> {
+    try {
+      const data = JSON.parse(await readFile(this.credentialsPath, "utf-8"));
+      const oauth = data?.claudeAiOauth;
+      if (!oauth?.accessToken) return null;
+      return {
+        accessToken: oauth.accessToken,
+        refreshToken: oauth.refreshToken,
+        expiresAt: typeof oauth.expiresAt === "number" ? oauth.expiresAt : undefined,
+      };
+    } catch {
+      return null;
+    }
+  }
+
+  /** True when the token is expired or will expire within the refresh skew. */
+  needsRefresh(creds: OAuthCredentials, now = Date.now()): boolean {
+    if (!creds.expiresAt) return false;
+    return creds.expiresAt - now <= this.refreshSkewMs;
+  }
+
+  /**
+   * Return a usable access token, refreshing it first if it is about to expire.
+   * Falls back to the current token when the refresh fails so the caller gets
+   * the SDK's auth error rather than a silent hang.
+   */
+  async getAccessToken(): Promise<string | null> {
+    const creds = await this.read();
+    if (!creds) return null;
+    if (!this.needsRefresh(creds) || !creds.refreshToken) return creds.accessToken;
+
+    try {
+      const refreshed = await this.refresh(creds);
+      return refreshed.accessToken;
+    } catch (error) {
+      logger.warn(`[anthropic] OAuth token refresh failed: ${error instanceof Error ? error.message : String(error)}`);
+      return creds.accessToken;
+    }
+  }
+
+  /** Exchange the refresh token for a new access token and persist the result. */
+  refresh(current: OAuthCredentials): Promise<OAuthCredentials> {
+    if (!this.refreshing) {
+      this.refreshing = this.doRefresh(current).finally(() => {
+        this.refreshing = null;
+      });
+    }
+    return this.refreshing;
+  }
+
+  private async doRefresh(current: OAuthCredentials): Promise<OAuthCredentials> {
+    if (!current.refreshToken) throw new Error("No refresh token available");
+
+    logger.info("[anthropic] Refreshing OAuth access token");
+    const response = await fetch(this.tokenUrl, {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({
+        grant_type: "refresh_token",
+        refresh_token: current.refreshToken,
+        client_id: this.clientId,
+      }),
+    });
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+
+    const body = (await response.json()) as TokenResponse;
+    if (!body.access_token) throw new Error("Token response missing access_token");
+
+    const refreshed: OAuthCredentials = {
+      accessToken: body.access_token,
+      // Refresh tokens may or may not rotate; keep the old one if none was issued
+      refreshToken: body.refresh_token ?? current.refreshToken,
+      // Without an expiry the token would never be refreshed again; assume a short one
+      expiresAt:
+        Date.now() + (typeof body.expires_in === "number" ? body.expires_in * 1000 : DEFAULT_TOKEN_LIFETIME_MS),
+    };
+
+    await this.write(refreshed);
+    logger.info("[anthropic] OAuth access token refreshed");
+    return refreshed;
+  }
+
+  /**
+   * Merge the new tokens into the credentials file, preserving any other
+   * fields, via write-to-temp + rename so readers never see a partial file.
+   */
+  private async write(creds: OAuthCredentials): Promise<void> {
+    let data: Record<string, unknown> = {};
+    try {
+      data = JSON.parse(await readFile(this.credentialsPath, "utf-8"));
+    } catch {
+      // Start from an empty document if the file vanished or is corrupt
+    }
+    const existing = (data.claudeAiOauth as Record<string, unknown> | undefined) ?? {};
+    data.claudeAiOauth = { ...existing, ...creds };
+
+    await writeFileAtomic(this.credentialsPath, JSON.stringify(data, null, 2));
+  }
+}
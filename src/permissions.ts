@@ -0,0 +1,89 @@
+/**
+ * Permission modes.
+ *
+ * Which tool calls the agent may run without approval is a per-query choice,
+ * bounded by an operator-set maximum. Hosted (gateway) clients never get
+ * bypassPermissions unless the operator explicitly allows it.
+ */
+
+/** Claude Agent SDK permission modes the plugin exposes, least to most permissive. */
+export type PermissionMode = "plan" | "default" | "acceptEdits" | "bypassPermissions";
+
+export interface PermissionConfig {
+  /**
+   * Mode for queries that don't set one. Default "bypassPermissions" for V1
+   * queries; "default" for hosted clients, V2 sessions and with a tool approver.
+   */
+  mode?: PermissionMode | "bypass";
+  /** Most permissive mode a query may use. Default "bypassPermissions". */
+  maxMode?: PermissionMode | "bypass";
+  /** Let hosted clients use bypassPermissions. Default false. */
+  allowBypassWhenHosted?: boolean;
+}
+
+const MODE_ORDER: PermissionMode[] = ["plan", "default", "acceptEdits", "bypassPermissions"];
+
+/** Options for the plugin's own queries (probes, credential checks), which never need tools. */
+export const INTERNAL_QUERY_PERMISSIONS = { permissionMode: "dontAsk" } as const;
+
+export class PermissionModeError extends Error {
+  constructor(
+    readonly mode: string,
+    message: string,
+  ) {
+    super(`[anthropic] Permission mode "${mode}" ${message}`);
+    this.name = "PermissionModeError";
+  }
+}
+
+/** Parse a configured or requested mode; "bypass" is accepted for bypassPermissions. */
+export function parsePermissionMode(value: string): PermissionMode {
+  const mode = value === "bypass" ? "bypassPermissions" : value;
+  if (!MODE_ORDER.includes(mode as PermissionMode)) {
+    throw new PermissionModeError(value, `is not one of ${MODE_ORDER.join(", ")}`);
+  }
+  return mode as PermissionMode;
+}
+
+function rank(mode: PermissionMode): number {
+  return MODE_ORDER.indexOf(mode);
+}
+
+/**
+ * The mode a query runs with. An explicitly requested mode above the allowed
+ * maximum throws PermissionModeError; a configured default above it is
+ * lowered to the maximum.
+ */
+export function resolvePermissionMode(
+  requested: string | undefined,
+  config: PermissionConfig,
+  hosted: boolean,
+): PermissionMode {
+  let max = parsePermissionMode(config.maxMode ?? "bypassPermissions");
+  const bypassBlocked = hosted && !config.allowBypassWhenHosted;
+  if (bypassBlocked && max === "bypassPermissions") max = "acceptEdits";
+
+  if (requested !== undefined) {
+    const mode = parsePermissionMode(requested);
+    if (rank(mode) > rank(max)) {
+      throw new PermissionModeError(
+        mode,
+        bypassBlocked && mode === "bypassPermissions"
+          ? "is disabled for hosted clients (set permissions.allowBypassWhenHosted to enable it)"
+          : `exceeds the configured maximum "${max}"`,
+      );
+    }
+    return mode;
+  }
+
+  const fallback = parsePermissionMode(config.mode ?? (hosted ? "default" : "bypassPermissions"));
+  return rank(fallback) > rank(max) ? max : fallback;
+}
+
+/** SDK options for `mode`. bypassPermissions also needs the SDK's explicit opt-in flag. */
+export function sdkPermissionOptions(mode: PermissionMode): {
+  permissionMode: PermissionMode;
+  allowDangerouslySkipPermissions: boolean;
+} {
+  return { permissionMode: mode, allowDangerouslySkipPermissions: mode === "bypassPermissions" };
+}
@@ -0,0 +1,203 @@
+/**
+ * Client-side rate limiting.
+ *
+ * One limiter per auth target (like the circuit breakers), shared by every
+ * client and session using the credential. Token buckets pace requests per
+ * minute and input/output tokens per minute, and a semaphore caps concurrent
+ * streams, so many sessions on one API key queue locally instead of turning
+ * into cascades of 429s. Token usage is only known once a query reports it, so
+ * token buckets are debited afterwards and new requests wait while a bucket is
+ * in debt.
+ */
+
+import type { TokenUsage } from "./usage.js";
+
+export interface RateLimitOptions {
+  requestsPerMinute?: number;
+  /** Uncached input plus cache writes, as the API counts them. */
+  inputTokensPerMinute?: number;
+  outputTokensPerMinute?: number;
+  /** Streams (V1 queries or V2 turns) allowed to run at once. */
+  maxConcurrentStreams?: number;
+}
+
+export interface RateLimitConfig extends RateLimitOptions {
+  /**
+   * Overrides per credential, keyed by auth target as reported by
+   * getCircuitState(): "api_key:<fingerprint>", "oauth" or "hosted:<host>".
+   */
+  credentials?: Record<string, RateLimitOptions>;
+}
+
+/** A granted slot. Release it when the stream ends. */
+export interface RateLimitPermit {
+  /** How long the request waited in the queue. */
+  waitedMs: number;
+  release(): void;
+}
+
+const MINUTE_MS = 60_000;
+
+class TokenBucket {
+  private tokens: number;
+  private refilledAt: number;
+
+  constructor(
+    private perMinute: number,
+    private readonly now: () => number,
+  ) {
+    this.tokens = perMinute;
+    this.refilledAt = now();
+  }
+
+  private refill(): void {
+    const now = this.now();
+    this.tokens = Math.min(this.perMinute, this.tokens + ((now - this.refilledAt) * this.perMinute) / MINUTE_MS);
+    this.refilledAt = now;
+  }
+
+  /** Milliseconds until `amount` is available. */
+  waitFor(amount: number): number {
+    this.refill();
+    if (this.tokens >= amount) return 0;
+    return Math.ceil(((amount - this.tokens) * MINUTE_MS) / this.perMinute);
+  }
+
+  /** Take `amount`; may leave the bucket in debt. */
+  take(amount: number): void {
+    this.refill();
+    this.tokens -= amount;
+  }
+}
+
+interface Waiter {
+  enqueuedAt: number;
+  resolve: (permit: RateLimitPermit) => void;
+  reject: (reason: unknown) => void;
+  signal?: AbortSignal;
+  onAbort: () => void;
+}
+
+export class RateLimiter {
+  private requests: TokenBucket | null = null;
+  private inputTokens: TokenBucket | null = null;
+  private outputTokens: TokenBucket | null = null;
+  private maxConcurrent = Number.POSITIVE_INFINITY;
+  private active = 0;
+  private queue: Waiter[] = [];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(
+    readonly target: string,
+    options: RateLimitOptions = {},
+    private readonly now: () => number = Date.now,
+  ) {
+    this.configure(options);
+  }
+
+  configure(options: RateLimitOptions): void {
+    const bucket = (perMinute?: number) => (perMinute && perMinute > 0 ? new TokenBucket(perMinute, this.now) : null);
+    this.requests = bucket(options.requestsPerMinute);
+    this.inputTokens = bucket(options.inputTokensPerMinute);
+    this.outputTokens = bucket(options.outputTokensPerMinute);
+    const max = options.maxConcurrentStreams;
+    this.maxConcurrent = max && max > 0 ? max : Number.POSITIVE_INFINITY;
+    this.pump();
+  }
+
+  /**
+   * Wait for a slot. Requests are served in order; aborting `signal` removes
+   * the request from the queue and rejects with the signal's reason.
+   */
+  acquire(signal?: AbortSignal): Promise<RateLimitPermit> {
+    if (signal?.aborted) return Promise.reject(signal.reason);
+    return new Promise<RateLimitPermit>((resolve, reject) => {
+      const waiter: Waiter = {
+        enqueuedAt: this.now(),
+        resolve,
+        reject,
+        signal,
+        onAbort: () => {
+          this.queue = this.queue.filter((w) => w !== waiter);
+          reject(signal?.reason);
+          this.pump();
+        },
+      };
+      signal?.addEventListener("abort", waiter.onAbort, { once: true });
+      this.queue.push(waiter);
+      this.pump();
+    });
+  }
+
+  /** Debit what a finished query used from the token buckets. */
+  recordUsage(usage: TokenUsage): void {
+    this.inputTokens?.take(usage.inputTokens + usage.cacheWriteTokens);
+    this.outputTokens?.take(usage.outputTokens);
+  }
+
+  /** Requests currently waiting for a slot. */
+  get queued(): number {
+    return this.queue.length;
+  }
+
+  private waitTime(): number {
+    return Math.max(
+      this.requests?.waitFor(1) ?? 0,
+      this.inputTokens?.waitFor(1) ?? 0,
+      this.outputTokens?.waitFor(1) ?? 0,
+    );
+  }
+
+  private pump(): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+
+    while (this.queue.length > 0 && this.active < this.maxConcurrent) {
+      const wait = this.waitTime();
+      if (wait > 0) {
+        this.timer = setTimeout(() => this.pump(), wait);
+        this.timer.unref?.();
+        return;
+      }
+      const waiter = this.queue.shift() as Waiter;
+      waiter.signal?.removeEventListener("abort", waiter.onAbort);
+      this.requests?.take(1);
+      this.active++;
+      waiter.resolve({ waitedMs: this.now() - waiter.enqueuedAt, release: this.releaser() });
+    }
+  }
+
+  private releaser(): () => void {
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      this.active--;
+      this.pump();
+    };
+  }
+}
+
+export class RateLimiterRegistry {
+  private limiters = new Map<string, RateLimiter>();
+  private config: RateLimitConfig = {};
+
+  configure(config: RateLimitConfig = {}): void {
+    this.config = config;
+    for (const limiter of this.limiters.values()) limiter.configure(this.optionsFor(limiter.target));
+  }
+
+  private optionsFor(target: string): RateLimitOptions {
+    const { credentials, ...defaults } = this.config;
+    return { ...defaults, ...credentials?.[target] };
+  }
+
+  get(target: string): RateLimiter {
+    let limiter = this.limiters.get(target);
+    if (!limiter) {
+      limiter = new RateLimiter(target, this.optionsFor(target));
+      this.limiters.set(target, limiter);
+    }
+    return limiter;
+  }
+}
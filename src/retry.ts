@@ -0,0 +1,236 @@
+/**
+ * Retry policy for Anthropic calls.
+ *
+ * Classifies failures by HTTP status and error class rather than message
+ * text, honours server-provided delays (`retry-after`, `retry-after-ms` and
+ * Anthropic's rate-limit reset headers), backs off with full jitter and stops
+ * once a total elapsed-time cap would be exceeded. One policy object is shared
+ * by query(), queryV2() and healthCheck(); callers can override it per call
+ * with `providerOptions.retry`.
+ */
+
+export interface RetryOptions {
+  /** Retries after the first attempt. Default 3. */
+  maxRetries?: number;
+  /** Backoff base; attempt n waits up to baseDelayMs * 2^n. Default 1000. */
+  baseDelayMs?: number;
+  /** Cap on a single backoff delay. Default 30s. */
+  maxDelayMs?: number;
+  /** Give up rather than retry past this much total time since the first attempt. Default 2 minutes. */
+  maxElapsedMs?: number;
+  /** HTTP statuses worth retrying. Default 408, 409, 429, 500, 502, 503, 504, 529. */
+  retryableStatusCodes?: number[];
+  /** "full" waits a random time up to the backoff delay; "none" waits exactly. Default "full". */
+  jitter?: "full" | "none";
+  /**
+   * What query() does when the stream fails after messages were already
+   * yielded: "resume" continues in the captured SDK session, "fail" gives up.
+   * Failures before the first message are always retried. Default "resume".
+   */
+  midStream?: "resume" | "fail";
+}
+
+export interface RetryClassification {
+  retryable: boolean;
+  /** Short description for logs, e.g. "529" or "ECONNRESET". */
+  reason: string;
+}
+
+interface RetryLogger {
+  warn: (msg: string) => void;
+}
+
+const DEFAULTS: Required<RetryOptions> = {
+  maxRetries: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 30_000,
+  maxElapsedMs: 120_000,
+  retryableStatusCodes: [408, 409, 429, 500, 502, 503, 504, 529],
+  jitter: "full",
+  midStream: "resume",
+};
+
+// Anthropic API error types (the `error.type` of an error response) worth retrying
+const RETRYABLE_ERROR_TYPES = ["overloaded_error", "rate_limit_error", "api_error", "timeout_error"];
+
+// Node/undici error codes for transient network failures
+const RETRYABLE_ERROR_CODES = [
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ECONNABORTED",
+  "ETIMEDOUT",
+  "EPIPE",
+  "EAI_AGAIN",
+  "UND_ERR_SOCKET",
+  "UND_ERR_CONNECT_TIMEOUT",
+  "UND_ERR_HEADERS_TIMEOUT",
+];
+
+// The SDK surfaces API failures as plain Errors like "API Error: 529 {...}"
+const STATUS_IN_MESSAGE = /\bAPI Error: (\d{3})\b/;
+
+// Rate-limit reset headers: RFC 3339 timestamps of when the limit refills
+const RATE_LIMIT_RESET_HEADERS = [
+  "anthropic-ratelimit-requests-reset",
+  "anthropic-ratelimit-tokens-reset",
+  "anthropic-ratelimit-input-tokens-reset",
+  "anthropic-ratelimit-output-tokens-reset",
+];
+
+type ErrorLike = {
+  status?: unknown;
+  statusCode?: unknown;
+  code?: unknown;
+  message?: unknown;
+  error?: { type?: unknown; error?: { type?: unknown } };
+  headers?: unknown;
+  cause?: unknown;
+};
+
+/** HTTP status of an error, from its `status`/`statusCode` or an SDK "API Error: NNN" message. */
+export function errorStatus(error: unknown): number | undefined {
+  const e = error as ErrorLike | null;
+  const status = e?.status ?? e?.statusCode;
+  if (typeof status === "number") return status;
+  const match = typeof e?.message === "string" ? STATUS_IN_MESSAGE.exec(e.message) : null;
+  return match ? Number(match[1]) : undefined;
+}
+
+function errorCode(error: unknown): string | undefined {
+  for (let e = error as ErrorLike | null, depth = 0; e && depth < 3; e = e.cause as ErrorLike | null, depth++) {
+    if (typeof e.code === "string") return e.code;
+  }
+  return undefined;
+}
+
+/** Anthropic API error type (`error.type` of the response body), e.g. "overloaded_error". */
+export function apiErrorType(error: unknown): string | undefined {
+  const body = (error as ErrorLike | null)?.error;
+  const type = body?.error?.type ?? body?.type;
+  return typeof type === "string" ? type : undefined;
+}
+
+function header(headers: unknown, name: string): string | undefined {
+  if (!headers || typeof headers !== "object") return undefined;
+  if (typeof (headers as Headers).get === "function") return (headers as Headers).get(name) ?? undefined;
+  const value = (headers as Record<string, unknown>)[name];
+  return typeof value === "string" ? value : undefined;
+}
+
+/** Delay the server asked for, in ms, or undefined if it gave none. */
+export function serverRetryDelayMs(error: unknown, now = Date.now()): number | undefined {
+  const headers = (error as ErrorLike | null)?.headers;
+
+  const retryAfterMs = Number(header(headers, "retry-after-ms"));
+  if (Number.isFinite(retryAfterMs) && retryAfterMs >= 0) return retryAfterMs;
+
+  const retryAfter = header(headers, "retry-after");
+  if (retryAfter !== undefined) {
+    const seconds = Number(retryAfter);
+    if (Number.isFinite(seconds) && seconds >= 0) return seconds * 1000;
+    const date = Date.parse(retryAfter);
+    if (!Number.isNaN(date)) return Math.max(0, date - now);
+  }
+
+  // Wait for the latest reset among the limits the server reported
+  const resets = RATE_LIMIT_RESET_HEADERS.map((name) => Date.parse(header(headers, name) ?? "")).filter(
+    (t) => !Number.isNaN(t),
+  );
+  if (resets.length > 0) return Math.max(0, Math.max(...resets) - now);
+  return undefined;
+}
+
+export class RetryPolicy {
+  readonly options: Required<RetryOptions>;
+
+  constructor(
+    options: RetryOptions = {},
+    private readonly random: () => number = Math.random,
+    private readonly now: () => number = Date.now,
+  ) {
+    this.options = { ...DEFAULTS, ...stripUndefined(options) };
+  }
+
+  /** A copy of this policy with the given options replaced. */
+  with(overrides: RetryOptions | undefined): RetryPolicy {
+    if (!overrides) return this;
+    return new RetryPolicy({ ...this.options, ...stripUndefined(overrides) }, this.random, this.now);
+  }
+
+  classify(error: unknown): RetryClassification {
+    const status = errorStatus(error);
+    if (status !== undefined) {
+      return { retryable: this.options.retryableStatusCodes.includes(status), reason: String(status) };
+    }
+    const type = apiErrorType(error);
+    if (type) return { retryable: RETRYABLE_ERROR_TYPES.includes(type), reason: type };
+    const code = errorCode(error);
+    if (code) return { retryable: RETRYABLE_ERROR_CODES.includes(code), reason: code };
+
+    // Errors that lost their class on the way through the SDK subprocess
+    const msg = error instanceof Error ? error.message : String(error);
+    const codeInMessage = RETRYABLE_ERROR_CODES.find((c) => msg.includes(c));
+    if (codeInMessage) return { retryable: true, reason: codeInMessage };
+    if (msg.includes("fetch failed") || msg.includes("socket hang up")) {
+      return { retryable: true, reason: msg.slice(0, 80) };
+    }
+    return { retryable: false, reason: msg.slice(0, 80) };
+  }
+
+  /**
+   * Delay before retry number `attempt + 1` after `error`, or null to give up:
+   * not retryable, out of retries, or past the elapsed-time cap.
+   */
+  nextDelay(error: unknown, attempt: number, startedAt: number): number | null {
+    if (attempt >= this.options.maxRetries || !this.classify(error).retryable) return null;
+
+    const server = serverRetryDelayMs(error, this.now());
+    let delay: number;
+    if (server !== undefined) {
+      delay = server;
+    } else {
+      const ceiling = Math.min(this.options.maxDelayMs, this.options.baseDelayMs * 2 ** attempt);
+      delay = this.options.jitter === "full" ? Math.floor(this.random() * ceiling) : ceiling;
+    }
+
+    if (this.now() - startedAt + delay > this.options.maxElapsedMs) return null;
+    return delay;
+  }
+
+  /** Log line for a retry, in the format used across the plugin. */
+  describeRetry(error: unknown, attempt: number, delay: number): string {
+    return `[retry] Attempt ${attempt + 1}/${this.options.maxRetries} failed (${this.classify(error).reason}), retrying in ${delay}ms`;
+  }
+
+  /** Run `fn`, retrying per this policy. `sleep` can make the waits cancellable. */
+  async run<T>(
+    fn: () => Promise<T>,
+    logger: RetryLogger,
+    sleep: (ms: number) => Promise<void> = (ms) => new Promise((r) => setTimeout(r, ms)),
+  ): Promise<T> {
+    const startedAt = this.now();
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await fn();
+      } catch (error: unknown) {
+        const delay = this.nextDelay(error, attempt, startedAt);
+        if (delay === null) throw error;
+        logger.warn(this.describeRetry(error, attempt, delay));
+        await sleep(delay);
+      }
+    }
+  }
+}
+
+function stripUndefined(options: RetryOptions): RetryOptions {
+  return Object.fromEntries(Object.entries(options).filter(([, v]) => v !== undefined)) as RetryOptions;
+}
+
+/** Run `fn` with a one-off retry policy built from `opts`. */
+export async function retryWithBackoff<T>(
+  fn: () => Promise<T>,
+  opts: RetryOptions = {},
+  logger: RetryLogger,
+): Promise<T> {
+  return new RetryPolicy(opts).run(fn, logger);
+}
@@ -0,0 +1,120 @@
+/**
+ * Tool approval bridge.
+ *
+ * The Agent SDK asks its `canUseTool` callback before running a tool the
+ * permission mode doesn't already allow. This adapts that callback to a
+ * WOPR approver, which sees the WOPR sessionKey (so a chat channel can ask a
+ * human) and may allow, deny, or allow with modified input. Approvers that
+ * don't answer in time, throw, are cancelled or answer with something that
+ * isn't a decision count as a denial.
+ */
+
+import type { CanUseTool, PermissionResult } from "@anthropic-ai/claude-agent-sdk";
+import { logger } from "./logger.js";
+
+export interface ToolApprovalRequest {
+  toolName: string;
+  input: Record<string, unknown>;
+  /** WOPR session the tool call belongs to, when the query set one. */
+  sessionKey?: string;
+  toolUseId?: string;
+  /** Prompt sentence from the SDK, e.g. "Claude wants to run git status". */
+  title?: string;
+  /** Why the SDK is asking, e.g. a path outside the allowed directories. */
+  reason?: string;
+  /** Aborted when the decision is no longer needed (timeout or cancelled query). */
+  signal: AbortSignal;
+}
+
+export type ToolApprovalDecision =
+  | {
+      behavior: "allow";
+      /** Replaces the tool input the model sent. */
+      updatedInput?: Record<string, unknown>;
+    }
+  | {
+      behavior: "deny";
+      /** Shown to the model as the reason. */
+      message?: string;
+      /** Also stop the current turn. */
+      interrupt?: boolean;
+    };
+
+export type ToolApprover = (request: ToolApprovalRequest) => ToolApprovalDecision | Promise<ToolApprovalDecision>;
+
+export interface ToolApprovalConfig {
+  /** How long to wait for a decision before denying. Default 120000. */
+  timeoutMs?: number;
+}
+
+export const DEFAULT_APPROVAL_TIMEOUT_MS = 120_000;
+
+// Settles the race when the approver is out of time or no longer needed
+const EXPIRED = Symbol("expired");
+
+/** Build the SDK callback for `approver`. */
+export function createCanUseTool(
+  approver: ToolApprover,
+  options: { sessionKey?: string; timeoutMs?: number } = {},
+): CanUseTool {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_APPROVAL_TIMEOUT_MS;
+
+  return async (toolName, input, { signal, toolUseID, title, decisionReason }): Promise<PermissionResult> => {
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(signal.reason);
+    signal.addEventListener("abort", onAbort, { once: true });
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const deny = (message: string): PermissionResult => {
+      logger.info(`[anthropic] Tool ${toolName} denied: ${message}`);
+      return { behavior: "deny", message };
+    };
+
+    try {
+      const expired = new Promise<typeof EXPIRED>((resolve) => {
+        timer = setTimeout(() => resolve(EXPIRED), timeoutMs);
+        controller.signal.addEventListener("abort", () => resolve(EXPIRED), { once: true });
+      });
+      const decision = await Promise.race([
+        Promise.resolve(
+          approver({
+            toolName,
+            input,
+            sessionKey: options.sessionKey,
+            toolUseId: toolUseID,
+            title,
+            reason: decisionReason,
+            signal: controller.signal,
+          }),
+        ),
+        expired,
+      ]);
+
+      if (decision === EXPIRED) {
+        if (signal.aborted) return deny("Query was cancelled before the tool call was approved");
+        controller.abort(new Error("Tool approval timed out"));
+        return deny(`No approval received within ${timeoutMs}ms`);
+      }
+      // Approvers are often plain JavaScript; anything else is not a decision
+      const behavior = (decision as Partial<ToolApprovalDecision> | null | undefined)?.behavior;
+      if (behavior !== "allow" && behavior !== "deny") {
+        return deny("The approver did not return an allow or deny decision");
+      }
+      if (decision.behavior === "allow") {
+        return { behavior: "allow", updatedInput: decision.updatedInput ?? input, toolUseID };
+      }
+      logger.info(`[anthropic] Tool ${toolName} denied by approver`);
+      return {
+        behavior: "deny",
+        message: decision.message ?? "The user denied this tool call",
+        interrupt: decision.interrupt,
+        toolUseID,
+      };
+    } catch (error) {
+      return deny(`Approval failed: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      clearTimeout(timer);
+      signal.removeEventListener("abort", onAbort);
+    }
+  };
+}
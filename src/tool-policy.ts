@@ -0,0 +1,226 @@
+/**
+ * Declarative tool policy.
+ *
+ * Operators list allow/deny rules by tool name and argument pattern: Bash
+ * commands ("git *"), file paths (Write only under a workspace) and URL
+ * domains (WebFetch only to listed sites). The policy runs as an SDK
+ * PreToolUse hook, so it applies whatever the permission mode and for V1 and
+ * V2 alike; a denial reaches the model as the tool's error and is logged.
+ *
+ * Rules are checked in order and the first match decides. A tool named by
+ * any allow rule is denied when none of its allow rules match; tools no rule
+ * names are left to the permission mode and tool approver.
+ */
+
+import { isAbsolute, resolve, sep } from "node:path";
+import type { HookCallback, HookCallbackMatcher, HookEvent } from "@anthropic-ai/claude-agent-sdk";
+import { logger } from "./logger.js";
+
+export interface ToolPolicyRule {
+  action: "allow" | "deny";
+  /** Tool name; `*` matches any run of characters, e.g. "mcp__github__*". */
+  tool: string;
+  /** Bash command patterns, e.g. "git *". */
+  commands?: string[];
+  /**
+   * File path patterns for Read/Write/Edit/Glob/Grep and friends. A pattern
+   * without wildcards matches the path and everything under it; relative
+   * patterns resolve against the session's working directory.
+   */
+  paths?: string[];
+  /** WebFetch hosts; "example.com" also matches its subdomains. */
+  domains?: string[];
+  /** Shown to the model when the rule denies a call. */
+  reason?: string;
+}
+
+export interface ToolPolicyConfig {
+  rules?: ToolPolicyRule[];
+}
+
+export interface ToolPolicyDecision {
+  action: "allow" | "deny";
+  reason: string;
+}
+
+type SdkHooks = Partial<Record<HookEvent, HookCallbackMatcher[]>>;
+
+/** Shell operators that chain commands (but not redirections like 2>&1); each part must pass the policy. */
+const COMMAND_SEPARATORS = /&&|\|\||[;\n]|\|&?|(?<![<>])&(?![>&])/;
+/** Command and process substitution hide what actually runs. */
+const SUBSTITUTION = /\$\(|`|<\(|>\(/;
+
+function globToRegExp(pattern: string, wildcard: string): RegExp {
+  let source = "";
+  for (let i = 0; i < pattern.length; i++) {
+    const ch = pattern[i];
+    if (ch === "*" && pattern[i + 1] === "*") {
+      source += ".*";
+      i++;
+    } else if (ch === "*") {
+      source += wildcard;
+    } else if (ch === "?") {
+      source += wildcard === ".*" ? "." : "[^/]";
+    } else {
+      source += ch.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`, "s");
+}
+
+function matchesTool(pattern: string, toolName: string): boolean {
+  return globToRegExp(pattern, ".*").test(toolName);
+}
+
+function matchesCommand(patterns: string[], command: string): boolean {
+  return patterns.some((p) => globToRegExp(p.trim(), ".*").test(command));
+}
+
+function matchesPath(patterns: string[], path: string, cwd: string): boolean {
+  return patterns.some((p) => {
+    const pattern = isAbsolute(p) ? p : resolve(cwd, p);
+    if (/[*?]/.test(pattern)) return globToRegExp(pattern, "[^/]*").test(path);
+    const dir = resolve(pattern);
+    return path === dir || path.startsWith(dir.endsWith(sep) ? dir : dir + sep);
+  });
+}
+
+/** "example.com" matches itself and its subdomains, "*.example.com" only subdomains. */
+export function matchesDomain(patterns: string[], host: string): boolean {
+  return patterns.some((p) => {
+    const domain = p.toLowerCase();
+    if (domain.startsWith("*.")) return host.endsWith(domain.slice(1));
+    return host === domain || host.endsWith(`.${domain}`);
+  });
+}
+
+/** The file path a tool call touches, if it takes one. Search tools default to the cwd. */
+function toolPath(toolName: string, input: Record<string, unknown>, cwd: string): string | null {
+  const raw = input.file_path ?? input.notebook_path ?? input.path;
+  if (typeof raw === "string") return resolve(cwd, raw);
+  return toolName === "Glob" || toolName === "Grep" ? resolve(cwd) : null;
+}
+
+function toolHost(input: Record<string, unknown>): string | null {
+  if (typeof input.url !== "string") return null;
+  try {
+    return new URL(input.url).hostname.toLowerCase();
+  } catch {
+    return null;
+  }
+}
+
+function validateRule(rule: ToolPolicyRule, index: number): void {
+  if (rule.action !== "allow" && rule.action !== "deny") {
+    throw new Error(`[anthropic] Tool policy rule ${index}: action must be "allow" or "deny"`);
+  }
+  if (typeof rule.tool !== "string" || !rule.tool) {
+    throw new Error(`[anthropic] Tool policy rule ${index}: tool is required`);
+  }
+}
+
+export class ToolPolicy {
+  private readonly rules: ToolPolicyRule[];
+
+  constructor(config: ToolPolicyConfig = {}) {
+    this.rules = config.rules ?? [];
+    this.rules.forEach(validateRule);
+  }
+
+  get empty(): boolean {
+    return this.rules.length === 0;
+  }
+
+  /** The policy's verdict on one tool call, or null if it doesn't govern the tool. */
+  evaluate(toolName: string, input: Record<string, unknown>, cwd: string = process.cwd()): ToolPolicyDecision | null {
+    if (toolName === "Bash" && typeof input.command === "string") {
+      return this.evaluateCommand(input.command);
+    }
+    return this.decide(toolName, (rule) => this.matchesArguments(rule, toolName, input, cwd));
+  }
+
+  /** Chained commands are checked part by part: any denied part denies the whole call. */
+  private evaluateCommand(command: string): ToolPolicyDecision | null {
+    const verifiable = !SUBSTITUTION.test(command);
+    const parts = command
+      .split(COMMAND_SEPARATORS)
+      .map((part) => part.trim())
+      .filter(Boolean);
+    const decisions = parts.map((part) =>
+      this.decide("Bash", (rule) => {
+        if (!rule.commands) return !rule.paths && !rule.domains;
+        // An allow pattern can't vouch for a command whose substitutions it can't see
+        if (rule.action === "allow" && !verifiable) return false;
+        return matchesCommand(rule.commands, part);
+      }),
+    );
+    const denied = decisions.find((d) => d?.action === "deny");
+    if (denied) return denied;
+    if (decisions.length > 0 && decisions.every((d) => d?.action === "allow")) return decisions[0];
+    return null;
+  }
+
+  private matchesArguments(
+    rule: ToolPolicyRule,
+    toolName: string,
+    input: Record<string, unknown>,
+    cwd: string,
+  ): boolean {
+    if (rule.paths) {
+      const path = toolPath(toolName, input, cwd);
+      if (!path || !matchesPath(rule.paths, path, cwd)) return false;
+    }
+    if (rule.domains) {
+      const host = toolHost(input);
+      if (!host || !matchesDomain(rule.domains, host)) return false;
+    }
+    // A commands-only rule never matches a call without a command
+    return !rule.commands;
+  }
+
+  private decide(toolName: string, matches: (rule: ToolPolicyRule) => boolean): ToolPolicyDecision | null {
+    const rules = this.rules.filter((rule) => matchesTool(rule.tool, toolName));
+    const rule = rules.find(matches);
+    if (rule) {
+      return {
+        action: rule.action,
+        reason: rule.reason ?? `${toolName} ${rule.action === "allow" ? "allowed" : "denied"} by tool policy`,
+      };
+    }
+    if (rules.some((r) => r.action === "allow")) {
+      return { action: "deny", reason: `${toolName} call is not allowed by tool policy` };
+    }
+    return null;
+  }
+
+  /** PreToolUse hook enforcing the policy, logging each denial for audit. */
+  hook(sessionKey?: string): HookCallback {
+    return async (input) => {
+      if (input.hook_event_name !== "PreToolUse") return {};
+      const toolInput = (input.tool_input ?? {}) as Record<string, unknown>;
+      const decision = this.evaluate(input.tool_name, toolInput, input.cwd);
+      if (!decision) return {};
+      if (decision.action === "deny") {
+        logger.warn("[anthropic] Tool call denied by policy", {
+          sessionKey,
+          sdkSessionId: input.session_id,
+          toolName: input.tool_name,
+          toolUseId: input.tool_use_id,
+          reason: decision.reason,
+        });
+      }
+      return {
+        hookSpecificOutput: {
+          hookEventName: "PreToolUse",
+          permissionDecision: decision.action,
+          permissionDecisionReason: decision.reason,
+        },
+      };
+    };
+  }
+}
+
+/** `hooks` with `hook` added as a PreToolUse hook, keeping any the caller set. */
+export function withPreToolUseHook(hooks: SdkHooks | undefined, hook: HookCallback): SdkHooks {
+  return { ...hooks, PreToolUse: [...(hooks?.PreToolUse ?? []), { hooks: [hook] }] };
+}
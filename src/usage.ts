@@ -0,0 +1,150 @@
+/**
+ * Token usage and cost accounting.
+ *
+ * The SDK reports token usage on each `result` message. This module turns
+ * that into a priced summary and keeps running totals per WOPR sessionKey.
+ */
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number;
+  cacheWriteTokens: number;
+}
+
+/** USD per million tokens. */
+export interface ModelPricing {
+  inputPrice: number;
+  outputPrice: number;
+}
+
+/** Usage of a single query (or V2 turn), attached to its final result message. */
+export interface UsageSummary extends TokenUsage {
+  model: string;
+  /** Cost in USD; 0 when no pricing is known for the model. */
+  costUsd: number;
+  /** False when the model had no pricing, so `costUsd` is not meaningful. */
+  priced: boolean;
+}
+
+/** Running totals for one sessionKey. */
+export interface SessionUsage extends TokenUsage {
+  sessionKey: string;
+  queries: number;
+  costUsd: number;
+  updatedAt: number;
+}
+
+// Anthropic bills prompt-cache reads at 10% and 5-minute cache writes at 125%
+// of the base input price.
+const CACHE_READ_MULTIPLIER = 0.1;
+const CACHE_WRITE_MULTIPLIER = 1.25;
+
+// Published list prices, used when discovery has no pricing for a model.
+// Ordered most-specific first; matched by prefix like the capability registry.
+const DEFAULT_PRICING: Array<[prefix: string, pricing: ModelPricing]> = [
+  ["claude-opus-4-6", { inputPrice: 5, outputPrice: 25 }],
+  ["claude-opus-4-5", { inputPrice: 5, outputPrice: 25 }],
+  ["claude-opus-4", { inputPrice: 15, outputPrice: 75 }],
+  ["claude-sonnet-4", { inputPrice: 3, outputPrice: 15 }],
+  ["claude-3-7-sonnet", { inputPrice: 3, outputPrice: 15 }],
+  ["claude-haiku-4-5", { inputPrice: 1, outputPrice: 5 }],
+  ["claude-3-5-haiku", { inputPrice: 0.8, outputPrice: 4 }],
+];
+
+/** List pricing for a model ID, or null if unknown. */
+export function defaultModelPricing(modelId: string): ModelPricing | null {
+  for (const [prefix, pricing] of DEFAULT_PRICING) {
+    if (modelId === prefix || modelId.startsWith(`${prefix}-`)) return { ...pricing };
+  }
+  return null;
+}
+
+function tokenCount(value: unknown): number {
+  return typeof value === "number" && Number.isFinite(value) && value > 0 ? value : 0;
+}
+
+/** Convert an API `usage` object (snake_case counts) to TokenUsage. */
+export function toTokenUsage(usage: Record<string, unknown>): TokenUsage {
+  return {
+    inputTokens: tokenCount(usage.input_tokens),
+    outputTokens: tokenCount(usage.output_tokens),
+    cacheReadTokens: tokenCount(usage.cache_read_input_tokens),
+    cacheWriteTokens: tokenCount(usage.cache_creation_input_tokens),
+  };
+}
+
+/** Extract token usage from an SDK `result` message; null for any other message. */
+export function usageFromResultMessage(msg: unknown): TokenUsage | null {
+  const m = msg as { type?: string; usage?: Record<string, unknown> } | null;
+  if (m?.type !== "result" || !m.usage) return null;
+  return toTokenUsage(m.usage);
+}
+
+/** Cost in USD of the given usage at the given per-million-token prices. */
+export function computeCost(usage: TokenUsage, pricing: ModelPricing): number {
+  const perToken = pricing.inputPrice / 1_000_000;
+  return (
+    usage.inputTokens * perToken +
+    usage.cacheReadTokens * perToken * CACHE_READ_MULTIPLIER +
+    usage.cacheWriteTokens * perToken * CACHE_WRITE_MULTIPLIER +
+    (usage.outputTokens * pricing.outputPrice) / 1_000_000
+  );
+}
+
+export function summarizeUsage(model: string, usage: TokenUsage, pricing: ModelPricing | null): UsageSummary {
+  return {
+    model,
+    ...usage,
+    costUsd: pricing ? computeCost(usage, pricing) : 0,
+    priced: !!pricing,
+  };
+}
+
+export class UsageTracker {
+  private sessions = new Map<string, SessionUsage>();
+
+  /** Add a query's usage to its session's running totals and return the new totals. */
+  record(sessionKey: string, summary: UsageSummary): SessionUsage {
+    const current = this.sessions.get(sessionKey) ?? {
+      sessionKey,
+      queries: 0,
+      inputTokens: 0,
+      outputTokens: 0,
+      cacheReadTokens: 0,
+      cacheWriteTokens: 0,
+      costUsd: 0,
+      updatedAt: 0,
+    };
+    const updated: SessionUsage = {
+      sessionKey,
+      queries: current.queries + 1,
+      inputTokens: current.inputTokens + summary.inputTokens,
+      outputTokens: current.outputTokens + summary.outputTokens,
+      cacheReadTokens: current.cacheReadTokens + summary.cacheReadTokens,
+      cacheWriteTokens: current.cacheWriteTokens + summary.cacheWriteTokens,
+      costUsd: current.costUsd + summary.costUsd,
+      updatedAt: Date.now(),
+    };
+    this.sessions.set(sessionKey, updated);
+    return updated;
+  }
+
+  get(sessionKey: string): SessionUsage | null {
+    const usage = this.sessions.get(sessionKey);
+    return usage ? { ...usage } : null;
+  }
+
+  /** Forget the sessionKey's totals, which also resets its perSession budget. */
+  reset(sessionKey: string): void {
+    this.sessions.delete(sessionKey);
+  }
+
+  all(): SessionUsage[] {
+    return [...this.sessions.values()].map((u) => ({ ...u }));
+  }
+
+  clear(): void {
+    this.sessions.clear();
+  }
+}
@@ -0,0 +1,129 @@
+/**
+ * Per-session workspaces.
+ *
+ * Gives each WOPR sessionKey its own working directory for V2 sessions, so
+ * conversations with Read/Write/Edit/Bash enabled don't share the daemon's
+ * cwd and trample each other's files. Workspaces are either temporary
+ * directories created on first use and deleted when the session closes, or
+ * operator-configured paths that are created if missing and never deleted.
+ */
+
+import { mkdirSync, mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join, resolve } from "node:path";
+import { logger } from "./logger.js";
+
+export interface WorkspaceConfig {
+  /** Give every V2 session a workspace. Default false (sessions use the daemon's cwd). */
+  enabled?: boolean;
+  /** Where temporary workspaces are created. Default `<os tmpdir>/wopr-anthropic`. */
+  root?: string;
+  /** Fixed workspace per sessionKey. These are kept when the session closes. */
+  paths?: Record<string, string>;
+  /** Directories every session may use besides its workspace. */
+  additionalDirectories?: string[];
+}
+
+export interface Workspace {
+  sessionKey: string;
+  path: string;
+  /** Created by the plugin and deleted on release. */
+  temporary: boolean;
+  lastUsedAt: number;
+}
+
+/** Filesystem-safe prefix for a temporary workspace name. */
+function dirPrefix(sessionKey: string): string {
+  return `${sessionKey.replace(/[^A-Za-z0-9_-]+/g, "_").slice(0, 40)}-`;
+}
+
+export class WorkspaceManager {
+  private workspaces = new Map<string, Workspace>();
+  private config: WorkspaceConfig = {};
+
+  constructor(private readonly now: () => number = Date.now) {}
+
+  configure(config: WorkspaceConfig = {}): void {
+    this.config = config;
+  }
+
+  /** Extra directories to pass to the SDK alongside a workspace. */
+  get additionalDirectories(): string[] {
+    return (this.config.additionalDirectories ?? []).map((dir) => resolve(dir));
+  }
+
+  /**
+   * Session options that start the SDK's CLI process in `workspace`. V2
+   * sessions ignore `cwd` and `additionalDirectories`, so a preload module
+   * changes directory and adds `--add-dir` arguments before the CLI starts.
+   */
+  launchOptions(workspace: Workspace): { executable: "node"; executableArgs: string[] } {
+    const preload = [
+      `process.chdir(${JSON.stringify(workspace.path)});`,
+      ...this.additionalDirectories.map((dir) => `process.argv.push("--add-dir", ${JSON.stringify(dir)});`),
+    ].join("");
+    return { executable: "node", executableArgs: ["--import", `data:text/javascript,${encodeURIComponent(preload)}`] };
+  }
+
+  /**
+   * The workspace for `sessionKey`, creating it on first use. `path` (a
+   * per-query override) or a configured path is used as-is; otherwise a
+   * temporary directory is created when workspaces are enabled. Returns null
+   * when the session should run in the daemon's cwd.
+   */
+  acquire(sessionKey: string, path?: string): Workspace | null {
+    const fixed = path ?? this.config.paths?.[sessionKey];
+    const existing = this.workspaces.get(sessionKey);
+    if (existing && (!fixed || existing.path === resolve(fixed))) {
+      existing.lastUsedAt = this.now();
+      return existing;
+    }
+    if (existing) this.release(sessionKey);
+    if (!fixed && !this.config.enabled) return null;
+
+    let workspace: Workspace;
+    if (fixed) {
+      const dir = resolve(fixed);
+      mkdirSync(dir, { recursive: true });
+      workspace = { sessionKey, path: dir, temporary: false, lastUsedAt: this.now() };
+    } else {
+      const root = resolve(this.config.root ?? join(tmpdir(), "wopr-anthropic"));
+      mkdirSync(root, { recursive: true });
+      const dir = mkdtempSync(join(root, dirPrefix(sessionKey)));
+      workspace = { sessionKey, path: dir, temporary: true, lastUsedAt: this.now() };
+    }
+    logger.info(`[anthropic] Workspace for ${sessionKey}: ${workspace.path}`);
+    this.workspaces.set(sessionKey, workspace);
+    return workspace;
+  }
+
+  get(sessionKey: string): Workspace | undefined {
+    return this.workspaces.get(sessionKey);
+  }
+
+  /** Forget the sessionKey's workspace, deleting it if the plugin created it. */
+  release(sessionKey: string): void {
+    const workspace = this.workspaces.get(sessionKey);
+    if (!workspace) return;
+    this.workspaces.delete(sessionKey);
+    if (!workspace.temporary) return;
+    try {
+      rmSync(workspace.path, { recursive: true, force: true });
+      logger.info(`[anthropic] Removed workspace for ${sessionKey}: ${workspace.path}`);
+    } catch (error) {
+      logger.warn(`[anthropic] Could not remove workspace ${workspace.path}: ${error}`);
+    }
+  }
+
+  /** Release workspaces unused for `maxIdleMs` whose sessionKey isn't in `active`. */
+  releaseIdle(maxIdleMs: number, active: (sessionKey: string) => boolean): void {
+    const now = this.now();
+    for (const [key, workspace] of this.workspaces) {
+      if (!active(key) && now - workspace.lastUsedAt > maxIdleMs) this.release(key);
+    }
+  }
+
+  releaseAll(): void {
+    for (const key of [...this.workspaces.keys()]) this.release(key);
+  }
+}
@@ -0,0 +1,351 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const mockQuery = vi.fn();
+const mockCreateSession = vi.fn();
+
+vi.mock("@anthropic-ai/claude-agent-sdk", () => ({
+  query: mockQuery,
+  unstable_v2_createSession: mockCreateSession,
+  unstable_v2_resumeSession: vi.fn(),
+}));
+
+vi.mock("fs", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("fs")>();
+  return {
+    ...actual,
+    existsSync: vi.fn(() => false),
+    readFileSync: vi.fn((path: unknown) =>
+      path && String(path).endsWith("package.json")
+        ? JSON.stringify({ name: "@wopr-network/wopr-plugin-provider-anthropic", version: "2.3.0" })
+        : "{}",
+    ),
+  };
+});
+
+const HAIKU = "claude-haiku-4-5-20251001";
+
+function assistantMessage(id: string, usage: Record<string, number>) {
+  return { type: "assistant", message: { id, content: [{ type: "text", text: "..." }], usage } };
+}
+
+function resultMessage(usage: Record<string, number>) {
+  return { type: "result", subtype: "success", session_id: "sdk-1", result: "OK", usage };
+}
+
+function makeCtx() {
+  return {
+    log: { info: vi.fn(), warn: vi.fn() },
+    registerProvider: vi.fn(),
+    registerConfigSchema: vi.fn(),
+    registerExtension: vi.fn(),
+  };
+}
+
+describe("budget helpers", () => {
+  it("meters assistant usage once per API message until the result arrives", async () => {
+    const { QueryUsageMeter } = await import("../src/budget.js");
+    const meter = new QueryUsageMeter();
+
+    meter.observe(assistantMessage("msg_1", { input_tokens: 100, output_tokens: 10 }));
+    // Same API message streamed again for its next content block
+    meter.observe(assistantMessage("msg_1", { input_tokens: 100, output_tokens: 20 }));
+    expect(meter.observe(assistantMessage("msg_2", { input_tokens: 50, output_tokens: 5 }))).toMatchObject({
+      inputTokens: 150,
+      outputTokens: 25,
+    });
+
+    expect(meter.observe(resultMessage({ input_tokens: 160, output_tokens: 30 }))).toMatchObject({
+      inputTokens: 160,
+      outputTokens: 30,
+    });
+  });
+
+  it("resets daily spend at the UTC day boundary", async () => {
+    const { DailySpend } = await import("../src/budget.js");
+    const daily = new DailySpend();
+    const day1 = Date.parse("2026-03-01T23:59:00Z");
+    const day2 = Date.parse("2026-03-02T00:01:00Z");
+
+    daily.add({ tokens: 100, costUsd: 1 }, day1);
+    daily.add({ tokens: 50, costUsd: 0.5 }, day1);
+    expect(daily.current(day1)).toEqual({ tokens: 150, costUsd: 1.5 });
+    expect(daily.current(day2)).toEqual({ tokens: 0, costUsd: 0 });
+  });
+
+  it("warns once per threshold and throws once a limit is exceeded", async () => {
+    const { BudgetExceededError, BudgetGuard } = await import("../src/budget.js");
+    const guard = new BudgetGuard(
+      { perQuery: { maxTokens: 1000 }, warnThresholds: [0.5, 0.9] },
+      { session: { tokens: 0, costUsd: 0 }, day: () => ({ tokens: 0, costUsd: 0 }) },
+      null,
+    );
+
+    expect(guard.observe(assistantMessage("a", { input_tokens: 600 }))).toEqual([
+      expect.objectContaining({ subtype: "budget_warning", scope: "query", metric: "tokens", threshold: 0.5 }),
+    ]);
+    expect(guard.observe(assistantMessage("b", { output_tokens: 10 }))).toEqual([]);
+    expect(guard.observe(assistantMessage("c", { input_tokens: 300 }))).toEqual([
+      expect.objectContaining({ threshold: 0.9, used: 910 }),
+    ]);
+
+    let error: any;
+    try {
+      guard.observe(assistantMessage("d", { input_tokens: 200 }));
+    } catch (e) {
+      error = e;
+    }
+    expect(error).toBeInstanceOf(BudgetExceededError);
+    expect(error).toMatchObject({ scope: "query", metric: "tokens", limit: 1000, used: 1110 });
+  });
+
+  it("does not throw on the final result, but fails the next pre-check", async () => {
+    const { BudgetGuard } = await import("../src/budget.js");
+    const config = { perSession: { maxTokens: 100 } };
+    const first = new BudgetGuard(
+      config,
+      { session: { tokens: 0, costUsd: 0 }, day: () => ({ tokens: 0, costUsd: 0 }) },
+      null,
+      "s",
+    );
+    expect(() => first.observe(resultMessage({ input_tokens: 150 }))).not.toThrow();
+
+    const next = new BudgetGuard(
+      config,
+      { session: { tokens: 150, costUsd: 0 }, day: () => ({ tokens: 150, costUsd: 0 }) },
+      null,
+      "s",
+    );
+    expect(() => next.assertWithinBudget()).toThrow(/session budget exceeded/);
+  });
+});
+
+describe("budgets in AnthropicClient", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("aborts a V1 query mid-stream with BudgetExceededError", async () => {
+    let closed = false;
+    mockQuery.mockImplementation(() =>
+      (async function* () {
+        try {
+          yield assistantMessage("msg_1", { input_tokens: 1000, output_tokens: 100 });
+          yield assistantMessage("msg_2", { input_tokens: 1500, output_tokens: 100 });
+          yield assistantMessage("msg_3", { input_tokens: 2000, output_tokens: 100 });
+          yield resultMessage({ input_tokens: 4500, output_tokens: 300 });
+        } finally {
+          closed = true;
+        }
+      })(),
+    );
+    const { AnthropicClient, BudgetExceededError } = await import("../src/index.js");
+    const client = new AnthropicClient("sk-ant-test-key", { budgets: { perQuery: { maxTokens: 2000 } } });
+
+    const chunks: any[] = [];
+    let error: unknown;
+    try {
+      for await (const chunk of client.query({ prompt: "Hi", model: HAIKU })) chunks.push(chunk);
+    } catch (e) {
+      error = e;
+    }
+
+    expect(error).toBeInstanceOf(BudgetExceededError);
+    expect(error).toMatchObject({ scope: "query", metric: "tokens", used: 2700 });
+    // The message that crossed the limit is delivered, nothing after it
+    expect(chunks.map((c) => c.message?.id ?? c.subtype)).toEqual(["msg_1", "msg_2"]);
+    expect(closed).toBe(true);
+    // Budget errors are not retried
+    expect(mockQuery).toHaveBeenCalledTimes(1);
+  });
+
+  it("does not forward the budgets option to the SDK", async () => {
+    mockQuery.mockImplementation(() =>
+      (async function* () {
+        yield resultMessage({ input_tokens: 1, output_tokens: 1 });
+      })(),
+    );
+    const { AnthropicClient } = await import("../src/index.js");
+    const client = new AnthropicClient("sk-ant-test-key", { budgets: { perQuery: { maxCostUsd: 1 } } });
+
+    for await (const _ of client.query({ prompt: "Hi", model: HAIKU })) {
+      // consume
+    }
+
+    expect(mockQuery.mock.calls[0][0].options.budgets).toBeUndefined();
+  });
+
+  it("closes a V2 session that overspends mid-turn", async () => {
+    const close = vi.fn();
+    mockCreateSession.mockReturnValue({
+      send: vi.fn().mockResolvedValue(undefined),
+      stream: () =>
+        (async function* () {
+          // 1M input tokens on Haiku = $1
+          yield assistantMessage("msg_1", { input_tokens: 850_000 });
+          yield assistantMessage("msg_2", { input_tokens: 300_000 });
+          yield resultMessage({ input_tokens: 1_150_000 });
+        })(),
+      close,
+    });
+    const { AnthropicClient, BudgetExceededError } = await import("../src/index.js");
+    const client = new AnthropicClient("sk-ant-test-key", { budgets: { perSession: { maxCostUsd: 1 } } });
+
+    const chunks: any[] = [];
+    await expect(async () => {
+      for await (const chunk of client.queryV2({ prompt: "Hi", sessionKey: "budget-v2", model: HAIKU })) {
+        chunks.push(chunk);
+      }
+    }).rejects.toBeInstanceOf(BudgetExceededError);
+
+    expect(chunks.some((c) => c.subtype === "budget_warning" && c.scope === "session")).toBe(true);
+    expect(close).toHaveBeenCalled();
+    expect(client.hasActiveSession("budget-v2")).toBe(false);
+  });
+
+  it("fails fast when the session is already over budget", async () => {
+    mockCreateSession.mockReturnValue({
+      send: vi.fn().mockResolvedValue(undefined),
+      stream: () =>
+        (async function* () {
+          yield resultMessage({ input_tokens: 500 });
+        })(),
+      close: vi.fn(),
+    });
+    const { AnthropicClient } = await import("../src/index.js");
+    const client = new AnthropicClient("sk-ant-test-key", { budgets: { perSession: { maxTokens: 400 } } });
+
+    // The final result is never cut off, it only counts against later turns
+    for await (const _ of client.queryV2({ prompt: "one", sessionKey: "budget-spent", model: HAIKU })) {
+      // consume
+    }
+    await expect(async () => {
+      for await (const _ of client.queryV2({ prompt: "two", sessionKey: "budget-spent", model: HAIKU })) {
+        // consume
+      }
+    }).rejects.toMatchObject({ name: "BudgetExceededError", scope: "session", used: 500 });
+    expect(mockCreateSession).toHaveBeenCalledTimes(1);
+
+    // A new session under the same sessionKey does not get a fresh budget
+    client.closeSession("budget-spent");
+    await expect(async () => {
+      for await (const _ of client.queryV2({ prompt: "three", sessionKey: "budget-spent", model: HAIKU })) {
+        // consume
+      }
+    }).rejects.toMatchObject({ name: "BudgetExceededError", scope: "session" });
+    expect(mockCreateSession).toHaveBeenCalledTimes(1);
+  });
+
+  it("enforces the daily budget across sessions", async () => {
+    vi.resetModules();
+    mockQuery.mockImplementation(() =>
+      (async function* () {
+        yield resultMessage({ input_tokens: 300 });
+      })(),
+    );
+    const { AnthropicClient } = await import("../src/index.js");
+    const client = new AnthropicClient("sk-ant-test-key", { budgets: { perDay: { maxTokens: 500 } } });
+
+    for (const sessionKey of ["day-a", "day-b"]) {
+      for await (const _ of client.query({ prompt: "Hi", model: HAIKU, sessionKey })) {
+        // consume
+      }
+    }
+    await expect(async () => {
+      for await (const _ of client.query({ prompt: "Hi", model: HAIKU, sessionKey: "day-c" })) {
+        // consume
+      }
+    }).rejects.toMatchObject({ scope: "day", used: 600 });
+    expect(mockQuery).toHaveBeenCalledTimes(2);
+  });
+
+  it("counts spend of queries that finish while another is still streaming", async () => {
+    vi.resetModules();
+    let release!: () => void;
+    const gate = new Promise<void>((resolve) => {
+      release = resolve;
+    });
+    mockQuery
+      .mockImplementationOnce(() =>
+        (async function* () {
+          yield { type: "system", subtype: "init", session_id: "sdk-long" };
+          await gate;
+          yield assistantMessage("long-1", { input_tokens: 250 });
+          yield resultMessage({ input_tokens: 250 });
+        })(),
+      )
+      .mockImplementationOnce(() =>
+        (async function* () {
+          yield resultMessage({ input_tokens: 300 });
+        })(),
+      );
+    const { AnthropicClient } = await import("../src/index.js");
+    const client = new AnthropicClient("sk-ant-test-key", { budgets: { perDay: { maxTokens: 500 } } });
+
+    const long = client.query({ prompt: "Hi", model: HAIKU, sessionKey: "day-long" });
+    await long.next();
+    for await (const _ of client.query({ prompt: "Hi", model: HAIKU, sessionKey: "day-short" })) {
+      // consume
+    }
+    release();
+
+    await expect(async () => {
+      for await (const _ of long) {
+        // consume
+      }
+    }).rejects.toMatchObject({ name: "BudgetExceededError", scope: "day", used: 550 });
+  });
+
+  it("adds the spend of an aborted query to the session and daily totals", async () => {
+    vi.resetModules();
+    mockQuery.mockImplementation(() =>
+      (async function* () {
+        yield assistantMessage("msg_1", { input_tokens: 1000, output_tokens: 100 });
+        yield assistantMessage("msg_2", { input_tokens: 1500, output_tokens: 100 });
+        yield resultMessage({ input_tokens: 2500, output_tokens: 200 });
+      })(),
+    );
+    const { default: plugin, AnthropicClient } = await import("../src/index.js");
+    const ctx = makeCtx();
+    await plugin.init(ctx as any);
+    const extension = ctx.registerExtension.mock.calls[0][1];
+    const client = new AnthropicClient("sk-ant-test-key", { budgets: { perQuery: { maxTokens: 2000 } } });
+
+    await expect(async () => {
+      for await (const _ of client.query({ prompt: "Hi", model: HAIKU, sessionKey: "aborted" })) {
+        // consume
+      }
+    }).rejects.toMatchObject({ name: "BudgetExceededError", scope: "query" });
+
+    expect(extension.getDailySpend().tokens).toBe(2700);
+    expect(extension.getUsage("aborted")).toMatchObject({ queries: 1, inputTokens: 2500, outputTokens: 200 });
+  });
+
+  it("counts a finishing query once against the daily budget", async () => {
+    vi.resetModules();
+    mockQuery.mockImplementation(() =>
+      (async function* () {
+        yield resultMessage({ input_tokens: 500 });
+      })(),
+    );
+    const { AnthropicClient } = await import("../src/index.js");
+    const client = new AnthropicClient("sk-ant-test-key", {
+      budgets: { perDay: { maxTokens: 1000 }, warnThresholds: [0.9] },
+    });
+
+    const first: any[] = [];
+    for await (const chunk of client.query({ prompt: "Hi", model: HAIKU })) first.push(chunk);
+    // 500 of 1000: the 90% warning would only fire if the result were counted twice
+    expect(first.some((c) => c.subtype === "budget_warning")).toBe(false);
+
+    const second: any[] = [];
+    for await (const chunk of client.query({ prompt: "Hi", model: HAIKU })) second.push(chunk);
+    expect(second.filter((c) => c.subtype === "budget_warning")).toEqual([
+      expect.objectContaining({ scope: "day", threshold: 0.9, used: 1000, limit: 1000 }),
+    ]);
+    // Exactly at the limit is not over it
+    for await (const _ of client.query({ prompt: "Hi", model: HAIKU })) {
+      // consume
+    }
+    expect(mockQuery).toHaveBeenCalledTimes(3);
+  });
+});
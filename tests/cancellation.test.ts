@@ -0,0 +1,229 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const mockQuery = vi.fn();
+const mockCreateSession = vi.fn();
+
+vi.mock("@anthropic-ai/claude-agent-sdk", () => ({
+  query: mockQuery,
+  unstable_v2_createSession: mockCreateSession,
+  unstable_v2_resumeSession: vi.fn(),
+}));
+
+vi.mock("fs", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("fs")>();
+  return {
+    ...actual,
+    existsSync: vi.fn(() => false),
+    readFileSync: vi.fn((path: unknown) =>
+      path && String(path).endsWith("package.json")
+        ? JSON.stringify({ name: "@wopr-network/wopr-plugin-provider-anthropic", version: "2.3.0" })
+        : "{}",
+    ),
+  };
+});
+
+vi.mock("../src/media-fetch.js", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("../src/media-fetch.js")>();
+  return { ...actual, fetchMedia: vi.fn() };
+});
+
+const HAIKU = "claude-haiku-4-5-20251001";
+
+function text(value: string) {
+  return { type: "assistant", session_id: "sdk-1", message: { content: [{ type: "text", text: value }] } };
+}
+
+function result(value: string) {
+  return { type: "result", subtype: "success", session_id: "sdk-1", result: value };
+}
+
+/** A V1 query that yields one message and then hangs until aborted. */
+function hangingQuery() {
+  return ({ options }: { options: { abortController: AbortController } }) =>
+    (async function* () {
+      yield text("working");
+      await new Promise<void>((_, reject) => {
+        options.abortController.signal.addEventListener("abort", () =>
+          reject(new Error("Claude Code process aborted")),
+        );
+      });
+    })();
+}
+
+/**
+ * A V2 session backed by a message queue, shaped like the SDK's: stream()
+ * ends after each turn's result, and interrupt() lives on the inner query.
+ */
+function queuedSession({ interruptible = true } = {}) {
+  const queue: unknown[] = [];
+  const waiters: Array<(msg: unknown) => void> = [];
+  const push = (msg: unknown) => {
+    const waiter = waiters.shift();
+    if (waiter) waiter(msg);
+    else queue.push(msg);
+  };
+  const next = () => (queue.length > 0 ? Promise.resolve(queue.shift()) : new Promise<unknown>((r) => waiters.push(r)));
+
+  return {
+    send: vi.fn(async (prompt: string) => {
+      push(text(`re: ${prompt}`));
+      // "slow" turns never finish on their own
+      if (prompt !== "slow") push(result(prompt));
+    }),
+    stream: () =>
+      (async function* () {
+        while (true) {
+          const msg = (await next()) as { type: string };
+          yield msg;
+          if (msg.type === "result") return;
+        }
+      })(),
+    close: vi.fn(),
+    ...(interruptible
+      ? {
+          query: {
+            interrupt: vi.fn(async () => {
+              push(text("partial"));
+              push({ ...result(""), subtype: "error_during_execution", is_error: true });
+            }),
+          },
+        }
+      : {}),
+  };
+}
+
+describe("cancellation of V1 queries", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("aborts the SDK query when the caller's signal fires", async () => {
+    mockQuery.mockImplementation(hangingQuery());
+    const { AnthropicClient, QueryCancelledError } = await import("../src/index.js");
+    const client = new AnthropicClient("sk-ant-test-key");
+    const controller = new AbortController();
+
+    const chunks: any[] = [];
+    let error: any;
+    try {
+      for await (const chunk of client.query({ prompt: "Hi", model: HAIKU, signal: controller.signal })) {
+        chunks.push(chunk);
+        controller.abort();
+      }
+    } catch (e) {
+      error = e;
+    }
+
+    expect(error).toBeInstanceOf(QueryCancelledError);
+    expect(error.reason).toBe("aborted");
+    expect(chunks).toHaveLength(1);
+    expect(mockQuery.mock.calls[0][0].options.abortController.signal.aborted).toBe(true);
+    // Cancellation is not retried
+    expect(mockQuery).toHaveBeenCalledTimes(1);
+  });
+
+  it("cancels after the per-call timeout", async () => {
+    mockQuery.mockImplementation(hangingQuery());
+    const { AnthropicClient } = await import("../src/index.js");
+    const client = new AnthropicClient("sk-ant-test-key");
+
+    await expect(async () => {
+      for await (const _ of client.query({ prompt: "Hi", model: HAIKU, timeoutMs: 50 })) {
+        // consume
+      }
+    }).rejects.toMatchObject({ name: "QueryCancelledError", reason: "timeout", timeoutMs: 50 });
+  });
+
+  it("stops waiting for image and document downloads", async () => {
+    const { fetchMedia } = await import("../src/media-fetch.js");
+    vi.mocked(fetchMedia).mockImplementation(() => new Promise(() => {}));
+    const { AnthropicClient } = await import("../src/index.js");
+    const client = new AnthropicClient("sk-ant-test-key");
+
+    for (const attachments of [
+      { images: ["https://example.com/a.png"] },
+      { documents: ["https://example.com/a.pdf"] },
+    ]) {
+      await expect(async () => {
+        for await (const _ of client.query({ prompt: "Hi", model: HAIKU, timeoutMs: 50, ...attachments })) {
+          // consume
+        }
+      }).rejects.toMatchObject({ name: "QueryCancelledError", reason: "timeout" });
+    }
+    expect(fetchMedia).toHaveBeenCalledTimes(2);
+    expect(mockQuery).not.toHaveBeenCalled();
+  });
+
+  it("does not start a query whose signal is already aborted", async () => {
+    const { AnthropicClient } = await import("../src/index.js");
+    const client = new AnthropicClient("sk-ant-test-key");
+
+    await expect(async () => {
+      for await (const _ of client.query({ prompt: "Hi", model: HAIKU, signal: AbortSignal.abort() })) {
+        // consume
+      }
+    }).rejects.toMatchObject({ name: "QueryCancelledError", reason: "aborted" });
+    expect(mockQuery).not.toHaveBeenCalled();
+  });
+});
+
+describe("cancellation of V2 turns", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("interrupts the turn and keeps the session for the next one", async () => {
+    const session = queuedSession();
+    mockCreateSession.mockReturnValue(session);
+    const { AnthropicClient, QueryCancelledError } = await import("../src/index.js");
+    const client = new AnthropicClient("sk-ant-test-key");
+    const controller = new AbortController();
+
+    let error: unknown;
+    try {
+      for await (const _ of client.queryV2({
+        prompt: "slow",
+        sessionKey: "cancel-v2",
+        model: HAIKU,
+        signal: controller.signal,
+      })) {
+        controller.abort();
+      }
+    } catch (e) {
+      error = e;
+    }
+
+    expect(error).toBeInstanceOf(QueryCancelledError);
+    expect(session.query?.interrupt).toHaveBeenCalled();
+    expect(session.close).not.toHaveBeenCalled();
+    expect(client.hasActiveSession("cancel-v2")).toBe(false); // not streaming
+
+    // The next turn reuses the session and sees none of the interrupted turn's messages
+    const chunks: any[] = [];
+    for await (const chunk of client.queryV2({ prompt: "again", sessionKey: "cancel-v2", model: HAIKU })) {
+      chunks.push(chunk);
+    }
+    expect(mockCreateSession).toHaveBeenCalledTimes(1);
+    expect(chunks.map((c) => c.message?.content[0].text ?? c.result)).toEqual(["re: again", "again"]);
+    client.closeSession("cancel-v2");
+  });
+
+  it("closes the session when the turn cannot be interrupted", async () => {
+    const session = queuedSession({ interruptible: false });
+    mockCreateSession.mockReturnValue(session);
+    const { AnthropicClient } = await import("../src/index.js");
+    const client = new AnthropicClient("sk-ant-test-key");
+
+    await expect(async () => {
+      for await (const _ of client.queryV2({
+        prompt: "slow",
+        sessionKey: "cancel-v2-close",
+        model: HAIKU,
+        timeoutMs: 50,
+      })) {
+        // consume
+      }
+    }).rejects.toMatchObject({ name: "QueryCancelledError", reason: "timeout" });
+    expect(session.close).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,195 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const mockQuery = vi.fn();
+const mockCreateSession = vi.fn();
+
+vi.mock("@anthropic-ai/claude-agent-sdk", () => ({
+  query: mockQuery,
+  unstable_v2_createSession: mockCreateSession,
+  unstable_v2_resumeSession: vi.fn(),
+}));
+
+vi.mock("fs", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("fs")>();
+  return {
+    ...actual,
+    existsSync: vi.fn(() => false),
+    readFileSync: vi.fn((path: unknown) =>
+      path && String(path).endsWith("package.json")
+        ? JSON.stringify({ name: "@wopr-network/wopr-plugin-provider-anthropic", version: "2.3.0" })
+        : "{}",
+    ),
+  };
+});
+
+const HAIKU = "claude-haiku-4-5-20251001";
+
+function overloaded(status = 529) {
+  return Object.assign(new Error("Overloaded"), { status });
+}
+
+/** An SDK run where the API failed: an assistant error followed by an error result. */
+function outageRun() {
+  return (async function* () {
+    yield { type: "assistant", error: "server_error", message: { content: [] } };
+    yield { type: "result", subtype: "success", is_error: true, result: "API Error: 529" };
+  })();
+}
+
+function okRun() {
+  return (async function* () {
+    yield { type: "result", subtype: "success", result: "OK" };
+  })();
+}
+
+async function drain(stream: AsyncIterable<unknown>) {
+  for await (const _ of stream) {
+    // consume
+  }
+}
+
+function makeCtx(config: Record<string, unknown> = {}) {
+  return {
+    log: { info: vi.fn(), warn: vi.fn() },
+    getConfig: () => config,
+    registerProvider: vi.fn(),
+    unregisterProvider: vi.fn(),
+    unregisterExtension: vi.fn(),
+    unregisterConfigSchema: vi.fn(),
+    registerConfigSchema: vi.fn(),
+    registerExtension: vi.fn(),
+  };
+}
+
+describe("CircuitBreaker", () => {
+  it("opens after consecutive outage failures and then fails fast", async () => {
+    const { CircuitBreaker, CircuitOpenError } = await import("../src/circuit-breaker.js");
+    const breaker = new CircuitBreaker("t", { failureThreshold: 3 });
+    const probe = vi.fn(async () => {});
+
+    breaker.recordFailure(overloaded());
+    breaker.recordFailure(overloaded(503));
+    expect(breaker.snapshot()).toMatchObject({ state: "closed", consecutiveFailures: 2 });
+    breaker.recordFailure(new Error("fetch failed"));
+
+    expect(breaker.snapshot()).toMatchObject({ state: "open", lastError: "fetch failed" });
+    await expect(breaker.acquire(probe)).rejects.toBeInstanceOf(CircuitOpenError);
+    expect(probe).not.toHaveBeenCalled();
+  });
+
+  it("ignores errors that are not outages and resets on success", async () => {
+    const { CircuitBreaker } = await import("../src/circuit-breaker.js");
+    const breaker = new CircuitBreaker("t", { failureThreshold: 2 });
+
+    breaker.recordFailure(Object.assign(new Error("invalid_request_error"), { status: 400 }));
+    breaker.recordFailure(new Error("[anthropic] Query cancelled"));
+    breaker.recordFailure(overloaded());
+    breaker.recordSuccess();
+    breaker.recordFailure(overloaded());
+
+    expect(breaker.snapshot()).toMatchObject({ state: "closed", consecutiveFailures: 1 });
+  });
+
+  it("probes once when half-open and closes on success", async () => {
+    const { CircuitBreaker } = await import("../src/circuit-breaker.js");
+    let now = 1_000;
+    const breaker = new CircuitBreaker("t", { failureThreshold: 1, resetTimeoutMs: 500 }, () => now);
+    breaker.recordFailure(overloaded());
+    expect(breaker.snapshot()).toMatchObject({ state: "open", retryAt: 1_500 });
+
+    now = 1_600;
+    let finishProbe: () => void = () => {};
+    const probe = vi.fn(() => new Promise<void>((r) => (finishProbe = r)));
+    const first = breaker.acquire(probe);
+    const second = breaker.acquire(probe);
+    expect(breaker.snapshot().state).toBe("half-open");
+    finishProbe();
+
+    await Promise.all([first, second]);
+    expect(probe).toHaveBeenCalledTimes(1);
+    expect(breaker.snapshot()).toMatchObject({ state: "closed", consecutiveFailures: 0 });
+  });
+
+  it("reopens when the probe fails", async () => {
+    const { CircuitBreaker } = await import("../src/circuit-breaker.js");
+    let now = 1_000;
+    const breaker = new CircuitBreaker("t", { failureThreshold: 1, resetTimeoutMs: 500 }, () => now);
+    breaker.recordFailure(overloaded());
+
+    now = 2_000;
+    await expect(breaker.acquire(() => Promise.reject(overloaded(503)))).rejects.toMatchObject({
+      name: "CircuitOpenError",
+      retryAt: 2_500,
+    });
+    expect(breaker.snapshot()).toMatchObject({ state: "open", openedAt: 2_000, lastError: "503 Overloaded" });
+  });
+});
+
+describe("circuit breaker in AnthropicClient", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("trips after repeated outages and stops calling the SDK", async () => {
+    mockQuery.mockImplementation(() => outageRun());
+    const { default: plugin, AnthropicClient, CircuitOpenError } = await import("../src/index.js");
+    const ctx = makeCtx({ circuitBreaker: { failureThreshold: 3, resetTimeoutMs: 60_000 } });
+    await plugin.init(ctx as any);
+    const client = new AnthropicClient("sk-ant-breaker-trip");
+
+    for (let i = 0; i < 3; i++) await drain(client.query({ prompt: "Hi", model: HAIKU }));
+    expect(mockQuery).toHaveBeenCalledTimes(3);
+
+    await expect(drain(client.query({ prompt: "Hi", model: HAIKU }))).rejects.toBeInstanceOf(CircuitOpenError);
+    await expect(
+      drain(client.queryV2({ prompt: "Hi", sessionKey: "breaker-v2", model: HAIKU })),
+    ).rejects.toBeInstanceOf(CircuitOpenError);
+    expect(mockQuery).toHaveBeenCalledTimes(3);
+    expect(mockCreateSession).not.toHaveBeenCalled();
+
+    const extension = ctx.registerExtension.mock.calls[0][1];
+    const state = extension.getCircuitState().find((s: any) => s.state === "open");
+    expect(state.target).toMatch(/^api_key:[0-9a-f]{12}$/);
+    expect(JSON.stringify(extension.getCircuitState())).not.toContain("sk-ant-breaker-trip");
+  });
+
+  it("shares one breaker between clients with the same credential", async () => {
+    mockQuery.mockImplementation(() => outageRun());
+    const { default: plugin, AnthropicClient, CircuitOpenError } = await import("../src/index.js");
+    await plugin.init(makeCtx({ circuitBreaker: { failureThreshold: 2 } }) as any);
+
+    await drain(new AnthropicClient("sk-ant-breaker-shared").query({ prompt: "Hi", model: HAIKU }));
+    await drain(new AnthropicClient("sk-ant-breaker-shared").query({ prompt: "Hi", model: HAIKU }));
+
+    await expect(
+      drain(new AnthropicClient("sk-ant-breaker-shared").query({ prompt: "Hi", model: HAIKU })),
+    ).rejects.toBeInstanceOf(CircuitOpenError);
+    // A different key has its own breaker
+    mockQuery.mockImplementation(() => okRun());
+    await drain(new AnthropicClient("sk-ant-breaker-other").query({ prompt: "Hi", model: HAIKU }));
+  });
+
+  it("closes a tripped breaker when healthCheck() passes", async () => {
+    mockQuery.mockImplementation(() => outageRun());
+    const { default: plugin, AnthropicClient } = await import("../src/index.js");
+    await plugin.init(makeCtx({ circuitBreaker: { failureThreshold: 1 } }) as any);
+    const client = new AnthropicClient("sk-ant-breaker-health");
+
+    await drain(client.query({ prompt: "Hi", model: HAIKU }));
+    await expect(drain(client.query({ prompt: "Hi", model: HAIKU }))).rejects.toThrow(/Circuit open/);
+
+    mockQuery.mockImplementation(() => okRun());
+    expect(await client.healthCheck()).toBe(true);
+    await drain(client.query({ prompt: "Hi", model: HAIKU }));
+  });
+
+  it("keys hosted clients by gateway host", async () => {
+    const { default: plugin, AnthropicClient } = await import("../src/index.js");
+    const ctx = makeCtx();
+    await plugin.init(ctx as any);
+    new AnthropicClient("", { baseUrl: "https://gateway.example.com/v1", tenantToken: "tenant-secret" });
+
+    const targets = ctx.registerExtension.mock.calls[0][1].getCircuitState().map((s: any) => s.target);
+    expect(targets).toContain("hosted:gateway.example.com");
+  });
+});
@@ -0,0 +1,184 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { pathToFileURL } from "node:url";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+const mockQuery = vi.fn();
+const mockCreateSession = vi.fn();
+
+vi.mock("@anthropic-ai/claude-agent-sdk", () => ({
+  query: mockQuery,
+  unstable_v2_createSession: mockCreateSession,
+  unstable_v2_resumeSession: vi.fn(),
+}));
+
+vi.mock("fs", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("fs")>();
+  return {
+    ...actual,
+    existsSync: vi.fn(() => false),
+    readFileSync: vi.fn((path: unknown) =>
+      path && String(path).endsWith("package.json")
+        ? JSON.stringify({ name: "@wopr-network/wopr-plugin-provider-anthropic", version: "2.3.0" })
+        : "{}",
+    ),
+  };
+});
+
+const HAIKU = "claude-haiku-4-5-20251001";
+const PDF = Buffer.from("%PDF-1.7\n1 0 obj\n<< >>\nendobj\n%%EOF\n");
+const ZIP = Buffer.from([0x50, 0x4b, 0x03, 0x04, 0x00, 0x00]);
+
+function okRun() {
+  return (async function* () {
+    yield { type: "system", subtype: "init", session_id: "sdk-doc" };
+    yield { type: "result", subtype: "success", session_id: "sdk-doc", result: "OK" };
+  })();
+}
+
+async function drain(stream: AsyncIterable<unknown>) {
+  for await (const _ of stream) {
+    // consume
+  }
+}
+
+let dir: string;
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  dir = mkdtempSync(join(tmpdir(), "documents-"));
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe("buildDocumentBlocks", () => {
+  it("builds base64 PDF and plain-text blocks with titles, context and citations", async () => {
+    const { buildDocumentBlocks } = await import("../src/documents.js");
+    const notes = join(dir, "notes.md");
+    writeFileSync(notes, "# Notes\nShip on Friday.");
+
+    const blocks = await buildDocumentBlocks(
+      [
+        { data: PDF, title: "Contract", citations: true },
+        { url: pathToFileURL(notes).href, context: "Meeting notes" },
+        { text: "Plain text", title: "Inline" },
+        `data:text/plain;base64,${Buffer.from("from a data URL").toString("base64")}`,
+      ],
+      { allowSchemes: ["file"], fileRoots: [dir] },
+    );
+
+    expect(blocks).toEqual([
+      {
+        type: "document",
+        source: { type: "base64", media_type: "application/pdf", data: PDF.toString("base64") },
+        title: "Contract",
+        citations: { enabled: true },
+      },
+      {
+        type: "document",
+        source: { type: "text", media_type: "text/plain", data: "# Notes\nShip on Friday." },
+        context: "Meeting notes",
+      },
+      { type: "document", source: { type: "text", media_type: "text/plain", data: "Plain text" }, title: "Inline" },
+      { type: "document", source: { type: "text", media_type: "text/plain", data: "from a data URL" } },
+    ]);
+  });
+
+  it("rejects binary formats, empty attachments and files over the size limit", async () => {
+    const { buildDocumentBlocks, DocumentInputError } = await import("../src/documents.js");
+    const big = join(dir, "big.txt");
+    writeFileSync(big, "x".repeat(2000));
+
+    await expect(buildDocumentBlocks([{ data: ZIP, mediaType: "application/zip", title: "Archive" }])).rejects.toThrow(
+      '[anthropic] Document "Archive": unsupported document format (declared application/zip); expected PDF or plain text',
+    );
+    await expect(buildDocumentBlocks([{ title: "Empty" }])).rejects.toThrow(/needs a url, data or text/);
+    await expect(
+      buildDocumentBlocks([pathToFileURL(big).href], { maxBytes: 1000, allowSchemes: ["file"], fileRoots: [dir] }),
+    ).rejects.toMatchObject({
+      name: "DocumentInputError",
+      code: "too_large",
+    });
+    await expect(buildDocumentBlocks(["ftp://example.com/a.pdf"])).rejects.toBeInstanceOf(DocumentInputError);
+  });
+});
+
+describe("local documents", () => {
+  it("are refused unless the file scheme and a containing root are configured", async () => {
+    const { buildDocumentBlocks } = await import("../src/documents.js");
+    const root = join(dir, "docs");
+    mkdirSync(root);
+    writeFileSync(join(root, "notes.txt"), "notes");
+    writeFileSync(join(dir, ".env"), "ANTHROPIC_API_KEY=sk-ant-secret");
+    const inside = pathToFileURL(join(root, "notes.txt")).href;
+    const outside = pathToFileURL(join(dir, ".env")).href;
+
+    await expect(buildDocumentBlocks([inside])).rejects.toMatchObject({
+      name: "DocumentInputError",
+      code: "scheme_not_allowed",
+    });
+    await expect(buildDocumentBlocks([inside], { allowSchemes: ["file"] })).rejects.toMatchObject({
+      code: "path_not_allowed",
+    });
+    await expect(buildDocumentBlocks([inside], { fileRoots: [root] })).rejects.toMatchObject({
+      code: "scheme_not_allowed",
+    });
+    await expect(buildDocumentBlocks([outside], { allowSchemes: ["file"], fileRoots: [root] })).rejects.toMatchObject({
+      code: "path_not_allowed",
+    });
+    const [block] = await buildDocumentBlocks([inside], { allowSchemes: ["file"], fileRoots: [root] });
+    expect(block.source.data).toBe("notes");
+  });
+});
+
+describe("documents in queries", () => {
+  it("sends document blocks ahead of the prompt in a V1 query", async () => {
+    mockQuery.mockImplementation(okRun);
+    const { AnthropicClient } = await import("../src/index.js");
+    const client = new AnthropicClient("sk-ant-docs-v1");
+
+    await drain(client.query({ prompt: "Summarize", model: HAIKU, documents: [{ data: PDF, title: "Contract" }] }));
+
+    const prompt = mockQuery.mock.calls[0][0].prompt as AsyncIterable<any>;
+    const messages: any[] = [];
+    for await (const msg of prompt) messages.push(msg);
+    expect(messages).toHaveLength(1);
+    expect(messages[0]).toMatchObject({ type: "user", parent_tool_use_id: null });
+    expect(messages[0].message.content.map((b: any) => b.type)).toEqual(["document", "text"]);
+    expect(messages[0].message.content[0].title).toBe("Contract");
+    expect(messages[0].message.content[1].text).toBe("Summarize");
+  });
+
+  it("keeps a plain string prompt without documents", async () => {
+    mockQuery.mockImplementation(okRun);
+    const { AnthropicClient } = await import("../src/index.js");
+    const client = new AnthropicClient("sk-ant-docs-none");
+
+    await drain(client.query({ prompt: "Hi", model: HAIKU }));
+
+    expect(mockQuery.mock.calls[0][0].prompt).toBe("Hi");
+  });
+
+  it("sends documents into V2 sessions", async () => {
+    const session = { send: vi.fn(async () => {}), stream: okRun, close: vi.fn() };
+    mockCreateSession.mockImplementation(() => session);
+    const { AnthropicClient } = await import("../src/index.js");
+    const client = new AnthropicClient("sk-ant-docs-v2");
+
+    await drain(
+      client.queryV2({
+        prompt: "Compare",
+        sessionKey: "docs-v2",
+        model: HAIKU,
+        documents: [{ text: "A" }, { text: "B" }],
+      }),
+    );
+
+    const sent = (session.send.mock.calls as any[][])[0][0];
+    expect(sent.message.content.map((b: any) => b.source?.data ?? b.text)).toEqual(["A", "B", "Compare"]);
+    client.closeSession("docs-v2");
+  });
+});
@@ -0,0 +1,239 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { ModelCapabilities } from "../src/capabilities.js";
+
+const mockQuery = vi.fn();
+const mockCreateSession = vi.fn();
+
+vi.mock("@anthropic-ai/claude-agent-sdk", () => ({
+  query: mockQuery,
+  unstable_v2_createSession: mockCreateSession,
+  unstable_v2_resumeSession: vi.fn(),
+}));
+
+vi.mock("fs", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("fs")>();
+  return {
+    ...actual,
+    existsSync: vi.fn(() => false),
+    readFileSync: vi.fn((path: unknown) =>
+      path && String(path).endsWith("package.json")
+        ? JSON.stringify({ name: "@wopr-network/wopr-plugin-provider-anthropic", version: "2.3.0" })
+        : "{}",
+    ),
+  };
+});
+
+const OPUS = "claude-opus-4-6";
+const SONNET = "claude-sonnet-4-5";
+const HAIKU = "claude-haiku-4-5";
+const CHAIN = [OPUS, SONNET, HAIKU];
+const NO_RETRY = { retry: { maxRetries: 0 } };
+
+function overloaded() {
+  return Object.assign(new Error('API Error: 529 {"type":"overloaded_error"}'), { status: 529 });
+}
+
+function okRun(text: string) {
+  return (async function* () {
+    yield { type: "system", subtype: "init", session_id: `sdk-${text}` };
+    yield { type: "assistant", session_id: `sdk-${text}`, message: { content: [{ type: "text", text }] } };
+    yield { type: "result", subtype: "success", session_id: `sdk-${text}`, result: text };
+  })();
+}
+
+async function collect(stream: AsyncIterable<unknown>): Promise<any[]> {
+  const chunks: any[] = [];
+  for await (const chunk of stream) chunks.push(chunk);
+  return chunks;
+}
+
+describe("fallback chain helpers", () => {
+  it("falls back only to models after the requested one", async () => {
+    const { fallbackChain } = await import("../src/fallback.js");
+    expect(fallbackChain(OPUS, CHAIN)).toEqual([SONNET, HAIKU]);
+    expect(fallbackChain(`${SONNET}-20250929`, CHAIN)).toEqual([HAIKU]);
+    expect(fallbackChain(HAIKU, CHAIN)).toEqual([]);
+    expect(fallbackChain("claude-opus-4-1", CHAIN)).toEqual([]);
+  });
+
+  it("treats overload and rate limits as capacity errors", async () => {
+    const { isCapacityError } = await import("../src/fallback.js");
+    expect(isCapacityError(overloaded())).toBe(true);
+    expect(isCapacityError(Object.assign(new Error("rate limited"), { status: 429 }))).toBe(true);
+    expect(isCapacityError(new Error("API Error: 529 Overloaded"))).toBe(true);
+    expect(isCapacityError(Object.assign(new Error("x"), { error: { type: "overloaded_error" } }))).toBe(true);
+    expect(isCapacityError(Object.assign(new Error("boom"), { status: 500 }))).toBe(false);
+    expect(isCapacityError(new Error("ECONNRESET"))).toBe(false);
+  });
+
+  it("strips options the fallback model does not support instead of throwing", async () => {
+    const { lookupModelCapabilities, stripUnsupportedOptions } = await import("../src/capabilities.js");
+    const { options, adjustments } = stripUnsupportedOptions(
+      HAIKU,
+      { thinking: { type: "adaptive" }, toolSearch: { enabled: true }, effort: "high", maxTokens: 100_000 },
+      lookupModelCapabilities(HAIKU) as ModelCapabilities,
+    );
+    expect(options).toMatchObject({ thinking: undefined, toolSearch: undefined, effort: undefined, maxTokens: 64_000 });
+    expect(adjustments).toHaveLength(4);
+  });
+});
+
+describe("fallback in query()", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("moves to the next model when the requested one stays overloaded", async () => {
+    mockQuery.mockImplementation(({ options }: any) => {
+      if (options.model === OPUS) throw overloaded();
+      return okRun(options.model);
+    });
+    const { AnthropicClient } = await import("../src/index.js");
+    const client = new AnthropicClient("sk-ant-fallback-v1");
+
+    const chunks = await collect(
+      client.query({
+        prompt: "Hi",
+        model: OPUS,
+        fallbackModels: [OPUS, HAIKU],
+        effort: "high",
+        toolSearch: { enabled: true } as any,
+        providerOptions: NO_RETRY,
+      }),
+    );
+
+    expect(chunks[0]).toEqual({ type: "system", subtype: "model_fallback", from: OPUS, model: HAIKU, reason: "529" });
+    expect(chunks.at(-1).result).toBe(HAIKU);
+    expect(mockQuery).toHaveBeenCalledTimes(2);
+    const fallbackOptions = mockQuery.mock.calls[1][0].options;
+    expect(fallbackOptions.model).toBe(HAIKU);
+    expect(fallbackOptions.effort).toBeUndefined();
+    expect(fallbackOptions.toolSearch).toBeUndefined();
+    expect(mockQuery.mock.calls[1][0].prompt).toBe("Hi");
+  });
+
+  it("falls back on SDK-reported overload without yielding the failed run", async () => {
+    mockQuery.mockImplementation(({ options }: any) =>
+      options.model === OPUS
+        ? (async function* () {
+            yield { type: "system", subtype: "init", session_id: "sdk-opus" };
+            yield { type: "assistant", error: "rate_limit", message: { content: [] } };
+            yield { type: "result", subtype: "success", is_error: true, result: "API Error: 429" };
+          })()
+        : okRun(options.model),
+    );
+    const { AnthropicClient } = await import("../src/index.js");
+    const client = new AnthropicClient("sk-ant-fallback-v1-msg");
+
+    const chunks = await collect(client.query({ prompt: "Hi", model: OPUS, fallbackModels: CHAIN }));
+
+    expect(chunks.map((c) => c.subtype ?? c.type)).toEqual(["init", "model_fallback", "init", "assistant", "success"]);
+    expect(chunks[1]).toMatchObject({ from: OPUS, model: SONNET, reason: "rate_limit" });
+  });
+
+  it("does not fall back once the model has produced output", async () => {
+    mockQuery.mockImplementation(() =>
+      (async function* () {
+        yield { type: "assistant", message: { content: [{ type: "text", text: "Part" }] } };
+        throw overloaded();
+      })(),
+    );
+    const { AnthropicClient } = await import("../src/index.js");
+    const client = new AnthropicClient("sk-ant-fallback-v1-served");
+
+    await expect(
+      collect(client.query({ prompt: "Hi", model: OPUS, fallbackModels: CHAIN, providerOptions: NO_RETRY })),
+    ).rejects.toThrow(/Anthropic query failed/);
+    expect(mockQuery).toHaveBeenCalledTimes(1);
+  });
+
+  it("uses the plugin fallback config and reports it as a normalized event", async () => {
+    mockQuery.mockImplementation(({ options }: any) => {
+      if (!options.model.includes("haiku")) throw overloaded();
+      return okRun(options.model);
+    });
+    const { default: plugin, AnthropicClient } = await import("../src/index.js");
+    await plugin.init({
+      log: { info: vi.fn(), warn: vi.fn() },
+      getConfig: () => ({ fallback: { models: ["opus", "sonnet", "haiku"] } }),
+      registerProvider: vi.fn(),
+      registerConfigSchema: vi.fn(),
+      registerExtension: vi.fn(),
+    } as any);
+    const client = new AnthropicClient("sk-ant-fallback-config");
+
+    const events = await collect(
+      client.query({ prompt: "Hi", model: "opus", eventFormat: "normalized", providerOptions: NO_RETRY }),
+    );
+
+    const fallbacks = events.filter((e) => e.type === "model-fallback");
+    expect(fallbacks.map((e) => e.model)).toHaveLength(2);
+    expect(fallbacks.at(-1)).toMatchObject({ type: "model-fallback", reason: "529" });
+    expect(mockQuery.mock.calls.at(-1)[0].options.model).toMatch(/haiku/);
+  });
+});
+
+describe("fallback in queryV2()", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  function session(model: string) {
+    return {
+      send: vi.fn(async () => {
+        if (model === OPUS) throw overloaded();
+      }),
+      stream: () => okRun(model),
+      close: vi.fn(),
+    };
+  }
+
+  it("replaces a new session whose first turn is overloaded", async () => {
+    const sessions: any[] = [];
+    mockCreateSession.mockImplementation((options: any) => {
+      const s = session(options.model);
+      sessions.push(s);
+      return s;
+    });
+    const { AnthropicClient } = await import("../src/index.js");
+    const client = new AnthropicClient("sk-ant-fallback-v2");
+
+    const chunks = await collect(
+      client.queryV2({
+        prompt: "Hi",
+        sessionKey: "fallback-v2",
+        model: OPUS,
+        fallbackModels: CHAIN,
+        providerOptions: NO_RETRY,
+      }),
+    );
+
+    expect(chunks[0]).toMatchObject({ subtype: "model_fallback", from: OPUS, model: SONNET });
+    expect(chunks.at(-1).result).toBe(SONNET);
+    expect(mockCreateSession.mock.calls.map((c) => c[0].model)).toEqual([OPUS, SONNET]);
+    expect(sessions[0].close).toHaveBeenCalled();
+    expect(sessions[1].close).not.toHaveBeenCalled();
+    client.closeSession("fallback-v2");
+  });
+
+  it("does not switch the model of an existing session", async () => {
+    let overload = false;
+    mockCreateSession.mockImplementation(() => ({
+      send: vi.fn(async () => {
+        if (overload) throw overloaded();
+      }),
+      stream: () => okRun("first"),
+      close: vi.fn(),
+    }));
+    const { AnthropicClient } = await import("../src/index.js");
+    const client = new AnthropicClient("sk-ant-REDACTED");
+    const opts = { prompt: "Hi", sessionKey: "fallback-v2-existing", model: OPUS, fallbackModels: CHAIN };
+
+    await collect(client.queryV2(opts));
+    overload = true;
+    await expect(collect(client.queryV2({ ...opts, providerOptions: NO_RETRY }))).rejects.toThrow(
+      /Anthropic V2 query failed/,
+    );
+    expect(mockCreateSession).toHaveBeenCalledTimes(1);
+  });
+});
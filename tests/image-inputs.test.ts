@@ -0,0 +1,174 @@
+import { mkdirSync, mkdtempSync, rmSync, symlinkSync, writeFileSync } from "node:fs";
+import { createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { pathToFileURL } from "node:url";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+const mockQuery = vi.fn();
+
+vi.mock("@anthropic-ai/claude-agent-sdk", () => ({
+  query: mockQuery,
+  unstable_v2_createSession: vi.fn(),
+  unstable_v2_resumeSession: vi.fn(),
+}));
+
+vi.mock("fs", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("fs")>();
+  return {
+    ...actual,
+    existsSync: vi.fn(() => false),
+    readFileSync: vi.fn((path: unknown) =>
+      path && String(path).endsWith("package.json")
+        ? JSON.stringify({ name: "@wopr-network/wopr-plugin-provider-anthropic", version: "2.3.0" })
+        : "{}",
+    ),
+  };
+});
+
+const PNG = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 0]);
+const JPEG = Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0, 0x10, 0x4a, 0x46]);
+const GIF = Buffer.from("GIF89a\x01\x00\x01\x00", "latin1");
+const WEBP = Buffer.concat([Buffer.from("RIFF"), Buffer.from([0x24, 0, 0, 0]), Buffer.from("WEBPVP8 ")]);
+const BMP = Buffer.from("BM\x00\x00\x00\x00", "latin1");
+
+let dir: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), "image-inputs-"));
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe("image inputs", () => {
+  it("sniffs the supported formats from their magic bytes", async () => {
+    const { sniffImageType } = await import("../src/images.js");
+    expect(sniffImageType(PNG)).toBe("image/png");
+    expect(sniffImageType(JPEG)).toBe("image/jpeg");
+    expect(sniffImageType(GIF)).toBe("image/gif");
+    expect(sniffImageType(WEBP)).toBe("image/webp");
+    expect(sniffImageType(BMP)).toBeNull();
+    expect(sniffImageType(new Uint8Array())).toBeNull();
+  });
+
+  it("loads file:// paths, data: URLs and attachments", async () => {
+    const { prepareImages } = await import("../src/images.js");
+    const file = join(dir, "photo.jpg");
+    writeFileSync(file, JPEG);
+
+    const { blocks } = await prepareImages(
+      [
+        pathToFileURL(file).href,
+        `data:image/png;base64,${PNG.toString("base64")}`,
+        { data: GIF, mediaType: "image/gif" },
+        { data: WEBP.toString("base64") },
+      ],
+      { fetch: { allowSchemes: ["file"], fileRoots: [dir] } },
+    );
+
+    expect(blocks.map((b) => b.source.media_type)).toEqual(["image/jpeg", "image/png", "image/gif", "image/webp"]);
+    expect(blocks[0].source.data).toBe(JPEG.toString("base64"));
+    expect(blocks[2].source.data).toBe(GIF.toString("base64"));
+  });
+
+  it("trusts the bytes over the content-type header", async () => {
+    const server = createServer((_req, res) =>
+      res.writeHead(200, { "content-type": "application/octet-stream" }).end(PNG),
+    );
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/download?id=1`;
+    const { prepareImages } = await import("../src/images.js");
+
+    try {
+      const {
+        blocks: [block],
+      } = await prepareImages([url], { fetch: { allowPrivateNetworks: true } });
+      expect(block.source.media_type).toBe("image/png");
+      // Without the opt-in, the loopback URL is refused outright
+      await expect(prepareImages([url])).rejects.toMatchObject({
+        name: "ImageInputError",
+        code: "private_address",
+        source: url,
+      });
+    } finally {
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+
+  it("fails on HTTP errors and unreachable URLs instead of dropping the image", async () => {
+    const server = createServer((_req, res) => res.writeHead(404).end());
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/missing.png`;
+    const { prepareImages } = await import("../src/images.js");
+    const fetch = { allowPrivateNetworks: true };
+
+    try {
+      await expect(prepareImages([url], { fetch })).rejects.toMatchObject({
+        name: "ImageInputError",
+        code: "http_status",
+        message: expect.stringMatching(/HTTP 404/),
+      });
+    } finally {
+      await new Promise((resolve) => server.close(resolve));
+    }
+    await expect(prepareImages([url], { fetch })).rejects.toMatchObject({ name: "ImageInputError", code: "network" });
+  });
+
+  it("only reads local files inside the configured fileRoots", async () => {
+    const { prepareImages } = await import("../src/images.js");
+    const root = join(dir, "uploads");
+    mkdirSync(root);
+    writeFileSync(join(dir, "secret.png"), PNG);
+    symlinkSync(join(dir, "secret.png"), join(root, "link.png"));
+    const secret = pathToFileURL(join(dir, "secret.png")).href;
+    const fetch = { allowSchemes: ["file"], fileRoots: [root] };
+
+    await expect(prepareImages([secret], { fetch: { allowSchemes: ["file"] } })).rejects.toMatchObject({
+      name: "ImageInputError",
+      code: "path_not_allowed",
+      message: expect.stringMatching(/no fileRoots/),
+    });
+    await expect(prepareImages([secret], { fetch })).rejects.toMatchObject({ code: "path_not_allowed" });
+    await expect(prepareImages([`${pathToFileURL(root).href}/../secret.png`], { fetch })).rejects.toMatchObject({
+      code: "path_not_allowed",
+    });
+    await expect(prepareImages([pathToFileURL(join(root, "link.png")).href], { fetch })).rejects.toMatchObject({
+      code: "path_not_allowed",
+    });
+  });
+
+  it("rejects unsupported formats and sources explicitly", async () => {
+    const { prepareImages, ImageInputError } = await import("../src/images.js");
+
+    await expect(prepareImages([{ data: BMP, mediaType: "image/bmp" }])).rejects.toThrow(
+      "[anthropic] Image attachment #1: unsupported image format (declared image/bmp); expected JPEG, PNG, GIF or WebP",
+    );
+    await expect(prepareImages([`data:image/png;base64,${BMP.toString("base64")}`])).rejects.toThrow(
+      /data URL #1: unsupported image format/,
+    );
+    await expect(prepareImages(["data:image/png;base64"])).rejects.toThrow(/malformed data URL/);
+    await expect(
+      prepareImages([pathToFileURL(join(dir, "missing.png")).href], {
+        fetch: { allowSchemes: ["file"], fileRoots: [dir] },
+      }),
+    ).rejects.toThrow(/cannot read file \(ENOENT\)/);
+    await expect(prepareImages(["ftp://example.com/a.png"])).rejects.toBeInstanceOf(ImageInputError);
+  });
+
+  it("fails a query with an unsupported image before calling the SDK", async () => {
+    const { AnthropicClient, ImageInputError } = await import("../src/index.js");
+    const client = new AnthropicClient("sk-ant-image-inputs");
+
+    const run = async () => {
+      for await (const _ of client.query({ prompt: "Hi", model: "claude-haiku-4-5", images: [{ data: BMP }] })) {
+        // consume
+      }
+    };
+
+    await expect(run()).rejects.toBeInstanceOf(ImageInputError);
+    expect(mockQuery).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, expect, it, vi } from "vitest";
+
+// As if the optional dependency was not installed
+vi.mock("sharp", () => {
+  throw new Error("Cannot find module 'sharp'");
+});
+
+/** PNG signature and IHDR header, padded to `bytes`. */
+function png(width: number, height: number, bytes = 33): Buffer {
+  const header = Buffer.alloc(bytes);
+  Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]).copy(header);
+  header.writeUInt32BE(13, 8);
+  header.write("IHDR", 12, "latin1");
+  header.writeUInt32BE(width, 16);
+  header.writeUInt32BE(height, 20);
+  return header;
+}
+
+describe("image processing without sharp", () => {
+  it("sends images under the API's size limit at full size", async () => {
+    const { prepareImages } = await import("../src/images.js");
+    const photo = png(4032, 3024);
+
+    const { blocks, report } = await prepareImages([{ data: photo }]);
+
+    expect(Buffer.from(blocks[0].source.data, "base64")).toEqual(photo);
+    expect(report?.images[0]).toMatchObject({ width: 4032, height: 3024, bytes: photo.length });
+    expect(report?.images[0]).not.toHaveProperty("original");
+  });
+
+  it("refuses an image over 5 MB instead of sending it", async () => {
+    const { prepareImages } = await import("../src/images.js");
+    const { sharpAvailable } = await import("../src/image-processing.js");
+
+    expect(await sharpAvailable()).toBe(false);
+    await expect(prepareImages([{ data: png(4032, 3024, 6 * 1024 * 1024) }])).rejects.toMatchObject({
+      name: "ImageInputError",
+      code: "too_large",
+      message: expect.stringMatching(/attachment #1: 6291456 bytes is over .* install the optional 'sharp' package/),
+    });
+  });
+});
@@ -0,0 +1,149 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const mockQuery = vi.fn();
+const resizeCalls: unknown[] = [];
+
+vi.mock("@anthropic-ai/claude-agent-sdk", () => ({
+  query: mockQuery,
+  unstable_v2_createSession: vi.fn(),
+  unstable_v2_resumeSession: vi.fn(),
+}));
+
+vi.mock("fs", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("fs")>();
+  return {
+    ...actual,
+    existsSync: vi.fn(() => false),
+    readFileSync: vi.fn((path: unknown) =>
+      path && String(path).endsWith("package.json")
+        ? JSON.stringify({ name: "@wopr-network/wopr-plugin-provider-anthropic", version: "2.3.0" })
+        : "{}",
+    ),
+  };
+});
+
+/** PNG signature and IHDR header; enough for the size to be read. */
+function png(width: number, height: number): Buffer {
+  const header = Buffer.alloc(33);
+  Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]).copy(header);
+  header.writeUInt32BE(13, 8);
+  header.write("IHDR", 12, "latin1");
+  header.writeUInt32BE(width, 16);
+  header.writeUInt32BE(height, 20);
+  return header;
+}
+
+// Resizes to the box it's given, keeping the aspect ratio
+vi.mock("sharp", () => ({
+  default: (input: Buffer) => {
+    let size = { width: input.readUInt32BE(16), height: input.readUInt32BE(20) };
+    const pipeline = {
+      rotate: () => pipeline,
+      resize: (options: { width: number; height: number }) => {
+        resizeCalls.push(options);
+        const scale = Math.min(options.width / size.width, options.height / size.height);
+        size = { width: Math.round(size.width * scale), height: Math.round(size.height * scale) };
+        return pipeline;
+      },
+      flatten: () => pipeline,
+      jpeg: () => pipeline,
+      png: () => pipeline,
+      webp: () => pipeline,
+      toBuffer: async () => png(size.width, size.height),
+    };
+    return pipeline;
+  },
+}));
+
+const PHOTO = png(4032, 3024);
+const HAIKU = "claude-haiku-4-5-20251001";
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  resizeCalls.length = 0;
+});
+
+describe("image measurement", () => {
+  it("reads dimensions from PNG, GIF, JPEG and WebP headers", async () => {
+    const { imageDimensions } = await import("../src/image-processing.js");
+    const gif = Buffer.from("GIF89a\x40\x01\xf0\x00", "latin1");
+    const jpeg = Buffer.from([
+      0xff, 0xd8, 0xff, 0xe0, 0x00, 0x04, 0x00, 0x00, 0xff, 0xc0, 0x00, 0x11, 0x08, 0x02, 0x58, 0x03, 0x20, 0x03,
+    ]);
+    const webp = Buffer.alloc(30);
+    webp.write("RIFF", 0, "latin1");
+    webp.write("WEBPVP8X", 8, "latin1");
+    webp.writeUIntLE(1919, 24, 3);
+    webp.writeUIntLE(1079, 27, 3);
+
+    expect(imageDimensions(PHOTO, "image/png")).toEqual({ width: 4032, height: 3024 });
+    expect(imageDimensions(gif, "image/gif")).toEqual({ width: 320, height: 240 });
+    expect(imageDimensions(jpeg, "image/jpeg")).toEqual({ width: 800, height: 600 });
+    expect(imageDimensions(webp, "image/webp")).toEqual({ width: 1920, height: 1080 });
+    expect(imageDimensions(Buffer.from([0xff, 0xd8, 0xff]), "image/jpeg")).toBeNull();
+  });
+
+  it("estimates tokens as pixels / 750 after the API's own downscaling", async () => {
+    const { estimateImageTokens } = await import("../src/image-processing.js");
+    expect(estimateImageTokens({ width: 200, height: 200 })).toBe(54);
+    expect(estimateImageTokens({ width: 1000, height: 1000 })).toBe(1334);
+    expect(estimateImageTokens({ width: 4032, height: 3024 })).toBe(1532);
+  });
+});
+
+describe("prepareImages", () => {
+  it("downscales large images to the maximum edge and reports it", async () => {
+    const { prepareImages } = await import("../src/images.js");
+
+    const { blocks, report } = await prepareImages([{ data: PHOTO }, { data: png(64, 64) }], {
+      processing: { maxEdge: 1024 },
+    });
+
+    expect(resizeCalls).toEqual([{ width: 1024, height: 1024, fit: "inside" }]);
+    expect(Buffer.from(blocks[0].source.data, "base64").readUInt32BE(16)).toBe(1024);
+    expect(report?.images[0]).toMatchObject({
+      source: "attachment #1",
+      width: 1024,
+      height: 768,
+      estimatedTokens: 1049,
+      original: { width: 4032, height: 3024, mediaType: "image/png", bytes: PHOTO.length },
+    });
+    expect(report?.images[1]).not.toHaveProperty("original");
+    expect(report?.estimatedTokens).toBe(1049 + 6);
+  });
+
+  it("enforces the per-query image token budget", async () => {
+    const { prepareImages } = await import("../src/images.js");
+    const { ImageBudgetError } = await import("../src/image-processing.js");
+
+    const images = [{ data: png(1000, 1000) }, { data: png(1000, 1000) }];
+    await expect(prepareImages(images, { processing: { maxTokensPerQuery: 2000 } })).rejects.toBeInstanceOf(
+      ImageBudgetError,
+    );
+    await expect(prepareImages(images, { processing: { maxTokensPerQuery: 2668 } })).resolves.toBeTruthy();
+  });
+
+  it("reports resized images at the start of a query's stream", async () => {
+    mockQuery.mockImplementation(() =>
+      (async function* () {
+        yield { type: "result", subtype: "success", session_id: "sdk-1", result: "A cat" };
+      })(),
+    );
+    const { AnthropicClient } = await import("../src/index.js");
+    const client = new AnthropicClient("sk-ant-image-processing");
+
+    const messages: any[] = [];
+    for await (const msg of client.query({ prompt: "What is this?", model: HAIKU, images: [{ data: PHOTO }] })) {
+      messages.push(msg);
+    }
+
+    expect(messages[0]).toMatchObject({
+      type: "system",
+      subtype: "images_processed",
+      images: [{ width: 1238, height: 929, original: { width: 4032, height: 3024 } }],
+    });
+    for await (const sent of mockQuery.mock.calls[0][0].prompt as AsyncIterable<any>) {
+      expect(Buffer.from(sent.message.content[0].source.data, "base64").readUInt32BE(16)).toBe(1238);
+    }
+  });
+});
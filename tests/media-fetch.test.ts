@@ -0,0 +1,106 @@
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { fetchMedia, isPrivateAddress, type MediaFetchConfig } from "../src/media-fetch.js";
+
+const PNG = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+const LOCAL: MediaFetchConfig = { allowPrivateNetworks: true };
+
+let server: Server;
+let base: string;
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    const port = (server.address() as AddressInfo).port;
+    switch (req.url) {
+      case "/image.png":
+        res.writeHead(200, { "content-type": "image/png" }).end(PNG);
+        break;
+      case "/hop":
+        res.writeHead(302, { location: "/image.png" }).end();
+        break;
+      case "/loop":
+        res.writeHead(302, { location: "/loop" }).end();
+        break;
+      case "/to-localhost":
+        res.writeHead(302, { location: `http://localhost:${port}/image.png` }).end();
+        break;
+      case "/declared-huge":
+        res.writeHead(200, { "content-length": "1000000" }).end();
+        break;
+      case "/streamed-huge":
+        res.writeHead(200);
+        res.write(Buffer.alloc(600));
+        res.end(Buffer.alloc(600));
+        break;
+      case "/hang":
+        break;
+      default:
+        res.writeHead(404).end();
+    }
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  server.closeAllConnections();
+  await new Promise((resolve) => server.close(resolve));
+});
+
+describe("fetchMedia", () => {
+  it("fetches the body and follows redirects", async () => {
+    const fetched = await fetchMedia(`${base}/hop`, LOCAL);
+
+    expect(fetched.bytes).toEqual(PNG);
+    expect(fetched.url).toBe(`${base}/image.png`);
+    expect(fetched.contentType).toBe("image/png");
+  });
+
+  it("blocks loopback, private and link-local addresses by default", async () => {
+    await expect(fetchMedia(`${base}/image.png`)).rejects.toMatchObject({ code: "private_address" });
+    await expect(fetchMedia("http://169.254.169.254/latest/meta-data/")).rejects.toMatchObject({
+      code: "private_address",
+    });
+    await expect(fetchMedia("http://[::ffff:10.0.0.1]/")).rejects.toMatchObject({ code: "private_address" });
+    // Checked on the resolved address, not the hostname
+    const port = new URL(base).port;
+    await expect(fetchMedia(`http://localhost:${port}/image.png`)).rejects.toMatchObject({
+      code: "private_address",
+    });
+
+    expect(isPrivateAddress("192.168.1.20")).toBe(true);
+    expect(isPrivateAddress("fd00::1")).toBe(true);
+    expect(isPrivateAddress("93.184.216.34")).toBe(false);
+    expect(isPrivateAddress("2606:2800:220:1::")).toBe(false);
+  });
+
+  it("applies scheme and host rules to every hop", async () => {
+    await expect(fetchMedia("ftp://example.com/a.png")).rejects.toMatchObject({ code: "scheme_not_allowed" });
+    await expect(fetchMedia(`${base}/image.png`, { ...LOCAL, allowSchemes: ["https"] })).rejects.toMatchObject({
+      code: "scheme_not_allowed",
+    });
+    await expect(fetchMedia(`${base}/image.png`, { ...LOCAL, allowHosts: ["example.com"] })).rejects.toMatchObject({
+      code: "host_not_allowed",
+    });
+    await expect(fetchMedia(`${base}/to-localhost`, { ...LOCAL, denyHosts: ["localhost"] })).rejects.toMatchObject({
+      code: "host_not_allowed",
+      reason: "host localhost is denied",
+    });
+    await expect(fetchMedia("not a url")).rejects.toMatchObject({ code: "invalid_url" });
+  });
+
+  it("enforces redirect, size and time limits", async () => {
+    await expect(fetchMedia(`${base}/loop`, { ...LOCAL, maxRedirects: 2 })).rejects.toMatchObject({
+      code: "too_many_redirects",
+    });
+    await expect(fetchMedia(`${base}/declared-huge`, { ...LOCAL, maxBytes: 1000 })).rejects.toMatchObject({
+      code: "too_large",
+    });
+    await expect(fetchMedia(`${base}/streamed-huge`, { ...LOCAL, maxBytes: 1000 })).rejects.toMatchObject({
+      code: "too_large",
+    });
+    await expect(fetchMedia(`${base}/hang`, { ...LOCAL, timeoutMs: 100 })).rejects.toMatchObject({ code: "timeout" });
+    await expect(fetchMedia(`${base}/missing`, LOCAL)).rejects.toMatchObject({ code: "http_status", status: 404 });
+  });
+});
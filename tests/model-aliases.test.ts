@@ -0,0 +1,154 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const mockQuery = vi.fn();
+const mockCreateSession = vi.fn();
+
+vi.mock("@anthropic-ai/claude-agent-sdk", () => ({
+  query: mockQuery,
+  unstable_v2_createSession: mockCreateSession,
+  unstable_v2_resumeSession: vi.fn(),
+}));
+
+vi.mock("fs", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("fs")>();
+  return {
+    ...actual,
+    existsSync: vi.fn(() => false),
+    readFileSync: vi.fn((path: unknown) =>
+      path && String(path).endsWith("package.json")
+        ? JSON.stringify({ name: "@wopr-network/wopr-plugin-provider-anthropic", version: "2.3.0" })
+        : "{}",
+    ),
+  };
+});
+
+const MODELS = [
+  { id: "claude-sonnet-4-20250514", legacy: false },
+  { id: "claude-opus-4-5-20251101", legacy: false },
+  { id: "claude-3-7-sonnet-20250219", legacy: true },
+  { id: "claude-haiku-4-5-20251001", legacy: false },
+  { id: "claude-opus-4-6", legacy: false },
+  { id: "claude-sonnet-4-5-20250929", legacy: false },
+  { id: "claude-sonnet-9-0", legacy: true },
+];
+
+describe("resolveModelAlias", () => {
+  it("maps family names to the newest non-legacy model of that family", async () => {
+    const { resolveModelAlias } = await import("../src/aliases.js");
+
+    expect(resolveModelAlias("opus", MODELS)).toBe("claude-opus-4-6");
+    // claude-sonnet-9-0 is newer but legacy
+    expect(resolveModelAlias("sonnet", MODELS)).toBe("claude-sonnet-4-5-20250929");
+    expect(resolveModelAlias("haiku", MODELS)).toBe("claude-haiku-4-5-20251001");
+  });
+
+  it("accepts -latest, claude- prefixed and mixed-case spellings", async () => {
+    const { resolveModelAlias } = await import("../src/aliases.js");
+
+    expect(resolveModelAlias("opus-latest", MODELS)).toBe("claude-opus-4-6");
+    expect(resolveModelAlias("claude-sonnet-latest", MODELS)).toBe("claude-sonnet-4-5-20250929");
+    expect(resolveModelAlias(" Haiku ", MODELS)).toBe("claude-haiku-4-5-20251001");
+  });
+
+  it("maps latest to the newest current model overall", async () => {
+    const { resolveModelAlias } = await import("../src/aliases.js");
+    expect(resolveModelAlias("latest", MODELS)).toBe("claude-opus-4-6");
+  });
+
+  it("falls back to legacy models when a family has nothing current", async () => {
+    const { resolveModelAlias } = await import("../src/aliases.js");
+    expect(resolveModelAlias("sonnet", [{ id: "claude-3-7-sonnet-20250219", legacy: true }])).toBe(
+      "claude-3-7-sonnet-20250219",
+    );
+  });
+
+  it("prefers operator pins over discovery", async () => {
+    const { resolveModelAlias } = await import("../src/aliases.js");
+    const pins = { sonnet: "claude-sonnet-4-20250514", "team-default": "claude-haiku-4-5-20251001" };
+
+    expect(resolveModelAlias("sonnet", MODELS, pins)).toBe("claude-sonnet-4-20250514");
+    expect(resolveModelAlias("team-default", MODELS, pins)).toBe("claude-haiku-4-5-20251001");
+  });
+
+  it("leaves concrete IDs and unmatched aliases unchanged", async () => {
+    const { resolveModelAlias } = await import("../src/aliases.js");
+
+    expect(resolveModelAlias("claude-opus-4-5-20251101", MODELS)).toBe("claude-opus-4-5-20251101");
+    expect(resolveModelAlias("opus", [])).toBe("opus");
+  });
+});
+
+describe("alias resolution in AnthropicClient", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockQuery.mockImplementation(() =>
+      (async function* () {
+        yield { type: "assistant", message: { content: [{ type: "text", text: "OK" }] } };
+      })(),
+    );
+  });
+
+  it("sends the resolved ID to the SDK and reports it in the stream", async () => {
+    const { AnthropicClient } = await import("../src/index.js");
+    const client = new AnthropicClient("sk-ant-test-key");
+
+    const chunks: any[] = [];
+    for await (const chunk of client.query({ prompt: "Hi", model: "opus" })) chunks.push(chunk);
+
+    expect(mockQuery.mock.calls[0][0].options.model).toBe("claude-opus-4-6");
+    expect(chunks[0]).toEqual({
+      type: "system",
+      subtype: "model_resolved",
+      requested: "opus",
+      model: "claude-opus-4-6",
+    });
+    expect(chunks[1].type).toBe("assistant");
+  });
+
+  it("does not emit a resolution event for concrete model IDs", async () => {
+    const { AnthropicClient } = await import("../src/index.js");
+    const client = new AnthropicClient("sk-ant-test-key");
+
+    const chunks: any[] = [];
+    for await (const chunk of client.query({ prompt: "Hi", model: "claude-haiku-4-5-20251001" })) chunks.push(chunk);
+
+    expect(chunks).toHaveLength(1);
+  });
+
+  it("honours alias pins from client options without forwarding them to the SDK", async () => {
+    const { AnthropicClient } = await import("../src/index.js");
+    const client = new AnthropicClient("sk-ant-test-key", {
+      modelAliases: { sonnet: "claude-sonnet-4-20250514" },
+    });
+
+    for await (const _ of client.query({ prompt: "Hi", model: "sonnet" })) {
+      // consume
+    }
+
+    const options = mockQuery.mock.calls[0][0].options;
+    expect(options.model).toBe("claude-sonnet-4-20250514");
+    expect(options.modelAliases).toBeUndefined();
+  });
+
+  it("creates V2 sessions with the resolved model", async () => {
+    mockCreateSession.mockReturnValue({
+      send: vi.fn().mockResolvedValue(undefined),
+      stream: () =>
+        (async function* () {
+          yield { type: "result", subtype: "success", session_id: "s-1" };
+        })(),
+      close: vi.fn(),
+    });
+    const { AnthropicClient } = await import("../src/index.js");
+    const client = new AnthropicClient("sk-ant-test-key");
+
+    const chunks: any[] = [];
+    for await (const chunk of client.queryV2({ prompt: "Hi", model: "haiku-latest", sessionKey: "alias-v2" })) {
+      chunks.push(chunk);
+    }
+
+    expect(mockCreateSession.mock.calls[0][0].model).toBe("claude-haiku-4-5-20251001");
+    expect(chunks[0]).toMatchObject({ subtype: "model_resolved", model: "claude-haiku-4-5-20251001" });
+    client.closeSession("alias-v2");
+  });
+});
@@ -0,0 +1,189 @@
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("@anthropic-ai/claude-agent-sdk", () => ({
+  query: vi.fn(),
+  unstable_v2_createSession: vi.fn(),
+  unstable_v2_resumeSession: vi.fn(),
+}));
+
+const cachedModel = {
+  id: "claude-opus-9-0",
+  name: "Claude Opus 9",
+  contextWindow: "200K",
+  maxOutput: "128K",
+  inputPrice: 5,
+  outputPrice: 25,
+  legacy: false,
+};
+
+function makeCtx() {
+  return {
+    log: { info: vi.fn(), warn: vi.fn() },
+    registerProvider: vi.fn(),
+    unregisterProvider: vi.fn(),
+    unregisterExtension: vi.fn(),
+    unregisterConfigSchema: vi.fn(),
+    registerConfigSchema: vi.fn(),
+    registerExtension: vi.fn(),
+  };
+}
+
+function modelsResponse(ids: string[]) {
+  return new Response(JSON.stringify({ data: ids.map((id) => ({ id, display_name: id })), has_more: false }));
+}
+
+describe("persistent model cache", () => {
+  const originalFetch = globalThis.fetch;
+  const originalHome = process.env.HOME;
+  let home: string;
+  let cachePath: string;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.resetModules();
+    home = mkdtempSync(join(tmpdir(), "wopr-home-"));
+    mkdirSync(join(home, ".wopr"));
+    cachePath = join(home, ".wopr", "anthropic-models.json");
+    process.env.HOME = home;
+    delete process.env.ANTHROPIC_API_KEY;
+    globalThis.fetch = vi.fn().mockRejectedValue(new Error("network disabled in tests"));
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+    process.env.HOME = originalHome;
+    rmSync(home, { recursive: true, force: true });
+  });
+
+  it("loads the persisted model list on init()", async () => {
+    writeFileSync(cachePath, JSON.stringify({ models: [cachedModel], fetchedAt: Date.now() }));
+    const { default: plugin } = await import("../src/index.js");
+    const ctx = makeCtx();
+
+    await plugin.init(ctx as any);
+
+    const provider = ctx.registerProvider.mock.calls[0][0];
+    expect(provider.supportedModels).toEqual(["claude-opus-9-0"]);
+    expect(provider.defaultModel).toBe("claude-opus-9-0");
+  });
+
+  it("serves a stale persisted list instead of the hardcoded fallback when offline", async () => {
+    const dayAgo = Date.now() - 2 * 24 * 60 * 60 * 1000;
+    writeFileSync(cachePath, JSON.stringify({ models: [cachedModel], fetchedAt: dayAgo }));
+    const { default: plugin, discoverModels } = await import("../src/index.js");
+    await plugin.init(makeCtx() as any);
+    process.env.ANTHROPIC_API_KEY = "sk-ant-test";
+    try {
+      const models = await discoverModels();
+
+      expect(globalThis.fetch).toHaveBeenCalled();
+      expect(models).toEqual([cachedModel]);
+    } finally {
+      delete process.env.ANTHROPIC_API_KEY;
+    }
+
+    // The plugin's list is never served for other credentials
+    const tenant = await discoverModels({ auth: { apiKey: "sk-ant-tenant" } });
+    expect(tenant.map((m) => m.id)).not.toContain("claude-opus-9-0");
+  });
+
+  it("ignores a cache file with the wrong shape", async () => {
+    writeFileSync(cachePath, JSON.stringify({ models: [{ id: "claude-x", inputPrice: "free" }], fetchedAt: 1 }));
+    const { default: plugin } = await import("../src/index.js");
+    const ctx = makeCtx();
+
+    await plugin.init(ctx as any);
+
+    const provider = ctx.registerProvider.mock.calls[0][0];
+    expect(provider.supportedModels).not.toContain("claude-x");
+    expect(provider.supportedModels.length).toBeGreaterThan(0);
+  });
+
+  it("recomputes cached capabilities from the registry, keeping the reported limits", async () => {
+    const haiku = {
+      ...cachedModel,
+      id: "claude-haiku-4-5-20251001",
+      capabilities: { contextWindow: 150_000, maxOutputTokens: "lots", adaptiveThinking: true, betas: "all" },
+    };
+    writeFileSync(cachePath, JSON.stringify({ models: [haiku, cachedModel], fetchedAt: Date.now() }));
+    process.env.ANTHROPIC_API_KEY = "sk-ant-test";
+    try {
+      const { default: plugin, discoverModels, lookupModelCapabilities } = await import("../src/index.js");
+      await plugin.init(makeCtx() as any);
+
+      const [loaded, unknown] = await discoverModels();
+      expect(globalThis.fetch).not.toHaveBeenCalled();
+      expect(loaded.capabilities).toEqual({
+        ...lookupModelCapabilities("claude-haiku-4-5-20251001"),
+        contextWindow: 150_000,
+      });
+      expect(unknown).not.toHaveProperty("capabilities");
+    } finally {
+      delete process.env.ANTHROPIC_API_KEY;
+    }
+  });
+
+  it("ignores a corrupt cache file", async () => {
+    writeFileSync(cachePath, "{not json");
+    const { default: plugin } = await import("../src/index.js");
+
+    await expect(plugin.init(makeCtx() as any)).resolves.not.toThrow();
+  });
+
+  it("persists successful discoveries to disk", async () => {
+    rmSync(join(home, ".wopr"), { recursive: true });
+    globalThis.fetch = vi.fn(async () => modelsResponse(["claude-opus-4-6", "claude-haiku-4-5"]));
+    const { discoverModels } = await import("../src/index.js");
+
+    // Other credentials' listings stay in memory
+    await discoverModels({ auth: { apiKey: "sk-ant-tenant" } });
+    process.env.ANTHROPIC_API_KEY = "sk-ant-test";
+    try {
+      await discoverModels();
+    } finally {
+      delete process.env.ANTHROPIC_API_KEY;
+    }
+
+    // Writes are fire-and-forget; wait for the file to land
+    const saved = await vi.waitFor(() => JSON.parse(readFileSync(cachePath, "utf-8")));
+    expect(saved.models.map((m: { id: string }) => m.id)).toEqual(["claude-opus-4-6", "claude-haiku-4-5"]);
+    expect(saved.fetchedAt).toBeTypeOf("number");
+    expect(saved.source).toBe("local");
+  });
+
+  it("refreshModels() bypasses a fresh cache", async () => {
+    writeFileSync(cachePath, JSON.stringify({ models: [cachedModel], fetchedAt: Date.now() }));
+    globalThis.fetch = vi.fn().mockResolvedValue(modelsResponse(["claude-opus-4-7"]));
+    process.env.ANTHROPIC_API_KEY = "sk-ant-test";
+    try {
+      const { default: plugin, discoverModels, refreshModels } = await import("../src/index.js");
+      await plugin.init(makeCtx() as any);
+
+      // Fresh cache is served without a request
+      expect(await discoverModels()).toEqual([cachedModel]);
+      expect(globalThis.fetch).not.toHaveBeenCalled();
+
+      const refreshed = await refreshModels();
+      expect(refreshed.map((m) => m.id)).toEqual(["claude-opus-4-7"]);
+      expect(globalThis.fetch).toHaveBeenCalledTimes(1);
+      await vi.waitFor(() => expect(readFileSync(cachePath, "utf-8")).toContain("claude-opus-4-7"));
+    } finally {
+      delete process.env.ANTHROPIC_API_KEY;
+    }
+  });
+
+  it("exposes refreshModels through the provider-anthropic extension", async () => {
+    const { default: plugin } = await import("../src/index.js");
+    const ctx = makeCtx();
+
+    await plugin.init(ctx as any);
+
+    expect(ctx.registerExtension).toHaveBeenCalledWith(
+      "provider-anthropic",
+      expect.objectContaining({ refreshModels: expect.any(Function) }),
+    );
+  });
+});
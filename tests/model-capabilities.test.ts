@@ -0,0 +1,158 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const mockQuery = vi.fn();
+const mockCreateSession = vi.fn();
+
+vi.mock("@anthropic-ai/claude-agent-sdk", () => ({
+  query: mockQuery,
+  unstable_v2_createSession: mockCreateSession,
+  unstable_v2_resumeSession: vi.fn(),
+}));
+
+vi.mock("fs", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("fs")>();
+  return {
+    ...actual,
+    existsSync: vi.fn(() => false),
+    readFileSync: vi.fn((path: unknown) =>
+      path && String(path).endsWith("package.json")
+        ? JSON.stringify({ name: "@wopr-network/wopr-plugin-provider-anthropic", version: "2.3.0" })
+        : "{}",
+    ),
+  };
+});
+
+async function drain(gen: AsyncGenerator<unknown>) {
+  for await (const _ of gen) {
+    // consume
+  }
+}
+
+describe("model capability registry", () => {
+  it("resolves dated snapshots to their family", async () => {
+    const { lookupModelCapabilities } = await import("../src/index.js");
+
+    const sonnet = lookupModelCapabilities("claude-sonnet-4-5-20250929");
+    expect(sonnet).toMatchObject({ contextWindow: 200_000, extendedContextWindow: 1_000_000, structuredOutputs: true });
+    expect(sonnet?.adaptiveThinking).toBe(false);
+
+    // claude-sonnet-4-5 must not be mistaken for claude-sonnet-4
+    const sonnet4 = lookupModelCapabilities("claude-sonnet-4-20250514");
+    expect(sonnet4?.structuredOutputs).toBe(false);
+  });
+
+  it("reports numeric limits and feature flags for Opus 4.6", async () => {
+    const { lookupModelCapabilities } = await import("../src/index.js");
+
+    expect(lookupModelCapabilities("claude-opus-4-6")).toEqual({
+      contextWindow: 200_000,
+      extendedContextWindow: 1_000_000,
+      maxOutputTokens: 128_000,
+      thinking: true,
+      adaptiveThinking: true,
+      effort: true,
+      structuredOutputs: true,
+      vision: true,
+      toolSearch: true,
+      programmaticToolCalling: true,
+      betas: ["context-1m-2025-08-07"],
+    });
+  });
+
+  it("returns null for unknown models", async () => {
+    const { lookupModelCapabilities } = await import("../src/index.js");
+    expect(lookupModelCapabilities("claude-future-9")).toBeNull();
+  });
+});
+
+describe("capability checks in AnthropicClient", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockQuery.mockImplementation(() =>
+      (async function* () {
+        yield { type: "assistant", message: { content: [{ type: "text", text: "OK" }] } };
+      })(),
+    );
+  });
+
+  it("rejects structured output on a model without it", async () => {
+    const { AnthropicClient, ModelCapabilityError } = await import("../src/index.js");
+    const client = new AnthropicClient("sk-ant-test-key");
+
+    const run = drain(
+      client.query({
+        prompt: "Test",
+        model: "claude-sonnet-4-20250514",
+        responseFormat: { type: "json_schema", schema: { type: "object" } },
+      }),
+    );
+
+    await expect(run).rejects.toBeInstanceOf(ModelCapabilityError);
+    await expect(run).rejects.toThrow("does not support structured outputs");
+    expect(mockQuery).not.toHaveBeenCalled();
+  });
+
+  it("rejects adaptive thinking on models that only support budgeted thinking", async () => {
+    const { AnthropicClient } = await import("../src/index.js");
+    const client = new AnthropicClient("sk-ant-test-key");
+
+    await expect(
+      drain(client.query({ prompt: "Test", model: "claude-haiku-4-5-20251001", thinking: { type: "adaptive" } })),
+    ).rejects.toThrow("adaptive thinking");
+  });
+
+  it("downgrades effort, gated betas and maxTokens instead of failing", async () => {
+    const { AnthropicClient } = await import("../src/index.js");
+    const client = new AnthropicClient("sk-ant-test-key");
+
+    await drain(
+      client.query({
+        prompt: "Test",
+        model: "claude-haiku-4-5-20251001",
+        effort: "high",
+        betas: ["context-1m-2025-08-07", "some-other-beta"],
+        maxTokens: 200_000,
+      }),
+    );
+
+    const options = mockQuery.mock.calls[0][0].options;
+    expect(options.effort).toBeUndefined();
+    expect(options.betas).toEqual(["some-other-beta"]);
+    expect(options.max_tokens).toBe(64_000);
+  });
+
+  it("passes options through untouched for unknown models", async () => {
+    const { AnthropicClient } = await import("../src/index.js");
+    const client = new AnthropicClient("sk-ant-test-key");
+
+    await drain(
+      client.query({
+        prompt: "Test",
+        model: "claude-future-9",
+        thinking: { type: "adaptive" },
+        effort: "max",
+      }),
+    );
+
+    const options = mockQuery.mock.calls[0][0].options;
+    expect(options.thinking).toEqual({ type: "adaptive" });
+    expect(options.effort).toBe("max");
+  });
+
+  it("checks V2 session options before creating the session", async () => {
+    const { AnthropicClient } = await import("../src/index.js");
+    const client = new AnthropicClient("sk-ant-test-key");
+
+    await expect(
+      drain(
+        client.queryV2({
+          prompt: "Test",
+          sessionKey: "cap-v2",
+          model: "claude-haiku-4-5-20251001",
+          toolSearch: { variant: "bm25" },
+        }),
+      ),
+    ).rejects.toThrow("does not support tool search");
+    expect(mockCreateSession).not.toHaveBeenCalled();
+  });
+});
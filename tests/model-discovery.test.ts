@@ -0,0 +1,250 @@
+import { mkdtempSync, rmSync } from "node:fs";
+import { createServer, type IncomingMessage, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+const mockQuery = vi.fn();
+
+vi.mock("@anthropic-ai/claude-agent-sdk", () => ({
+  query: mockQuery,
+  unstable_v2_createSession: vi.fn(),
+  unstable_v2_resumeSession: vi.fn(),
+}));
+
+// Local stand-in for Anthropic's GET /v1/models
+interface StandIn {
+  url: string;
+  requests: IncomingMessage[];
+  server: Server;
+}
+
+const PAGES: Record<string, { data: unknown[]; has_more: boolean; last_id: string | null }> = {
+  "": {
+    data: [
+      { type: "model", id: "claude-opus-4-6", display_name: "Claude Opus 4.6", max_input_tokens: 200000 },
+      { type: "model", id: "claude-sonnet-4-5-20250929", display_name: "Claude Sonnet 4.5" },
+    ],
+    has_more: true,
+    last_id: "claude-sonnet-4-5-20250929",
+  },
+  "claude-sonnet-4-5-20250929": {
+    data: [{ type: "model", id: "claude-haiku-4-5-20251001", display_name: "Claude Haiku 4.5", max_tokens: 64000 }],
+    has_more: false,
+    last_id: "claude-haiku-4-5-20251001",
+  },
+};
+
+function startStandIn(status = 200): Promise<StandIn> {
+  const requests: IncomingMessage[] = [];
+  const server = createServer((req, res) => {
+    requests.push(req);
+    const url = new URL(req.url ?? "/", "http://localhost");
+    if (!url.pathname.endsWith("/v1/models") || status !== 200) {
+      res.writeHead(status === 200 ? 404 : status, { "content-type": "application/json" });
+      res.end(JSON.stringify({ type: "error" }));
+      return;
+    }
+    const page = PAGES[url.searchParams.get("after_id") ?? ""];
+    res.writeHead(200, { "content-type": "application/json" });
+    res.end(JSON.stringify(page));
+  });
+  return new Promise((resolve) => {
+    server.listen(0, "127.0.0.1", () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({ url: `http://127.0.0.1:${port}`, requests, server });
+    });
+  });
+}
+
+describe("discoverModels via the Models API", () => {
+  const originalHome = process.env.HOME;
+  let standIn: StandIn;
+  let home: string;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    vi.resetModules();
+    // Keep the persisted model cache out of the real home directory
+    home = mkdtempSync(join(tmpdir(), "wopr-home-"));
+    process.env.HOME = home;
+  });
+
+  afterEach(async () => {
+    await new Promise((r) => standIn.server.close(r));
+    process.env.HOME = originalHome;
+    rmSync(home, { recursive: true, force: true });
+  });
+
+  it("lists models across pages using the API key", async () => {
+    standIn = await startStandIn();
+    const { discoverModels } = await import("../src/index.js");
+
+    const models = await discoverModels({ auth: { baseUrl: standIn.url, apiKey: "sk-ant-test" } });
+
+    expect(models.map((m) => m.id)).toEqual([
+      "claude-opus-4-6",
+      "claude-sonnet-4-5-20250929",
+      "claude-haiku-4-5-20251001",
+    ]);
+    expect(models[0]).toMatchObject({ name: "Claude Opus 4.6", contextWindow: "200K", legacy: false });
+    expect(models[2].maxOutput).toBe("64K");
+
+    expect(standIn.requests).toHaveLength(2);
+    expect(standIn.requests[0].headers["x-api-key"]).toBe("sk-ant-test");
+    expect(standIn.requests[0].headers["anthropic-version"]).toBe("2023-06-01");
+    expect(standIn.requests[1].url).toContain("after_id=claude-sonnet-4-5-20250929");
+    // No LLM call without enrichment
+    expect(mockQuery).not.toHaveBeenCalled();
+  });
+
+  it("routes through the hosted gateway path with the tenant token", async () => {
+    standIn = await startStandIn();
+    const { discoverModels } = await import("../src/index.js");
+
+    await discoverModels({ auth: { baseUrl: `${standIn.url}/v1/anthropic/`, apiKey: "wopr-tenant-token" } });
+
+    expect(standIn.requests[0].url?.startsWith("/v1/anthropic/v1/models")).toBe(true);
+    expect(standIn.requests[0].headers["x-api-key"]).toBe("wopr-tenant-token");
+  });
+
+  it("discovers models with the hosted tenant credentials at init", async () => {
+    standIn = await startStandIn();
+    const { default: plugin } = await import("../src/index.js");
+
+    await plugin.init({
+      log: { info: vi.fn(), warn: vi.fn() },
+      getConfig: () => ({ baseUrl: standIn.url, tenantToken: "wopr-tenant-token" }),
+      registerProvider: vi.fn(),
+      registerConfigSchema: vi.fn(),
+      registerExtension: vi.fn(),
+    } as any);
+
+    await vi.waitFor(() => expect(standIn.requests).toHaveLength(2));
+    expect(standIn.requests[0].headers["x-api-key"]).toBe("wopr-tenant-token");
+  });
+
+  it("caches listings per credential and gives each listing a deadline", async () => {
+    standIn = await startStandIn();
+    const originalFetch = globalThis.fetch;
+    const signals: (AbortSignal | null | undefined)[] = [];
+    globalThis.fetch = vi.fn((input: string | URL | Request, init?: RequestInit) => {
+      signals.push(init?.signal);
+      return originalFetch(input, init);
+    }) as typeof fetch;
+
+    try {
+      const { discoverModels } = await import("../src/index.js");
+      await discoverModels({ auth: { baseUrl: standIn.url, apiKey: "sk-ant-tenant-a" } });
+      await discoverModels({ auth: { baseUrl: standIn.url, apiKey: "sk-ant-tenant-a" } });
+      expect(standIn.requests).toHaveLength(2);
+
+      await discoverModels({ auth: { baseUrl: standIn.url, apiKey: "sk-ant-tenant-b" } });
+      expect(standIn.requests).toHaveLength(4);
+      expect(standIn.requests[2].headers["x-api-key"]).toBe("sk-ant-tenant-b");
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+    expect(signals).toHaveLength(4);
+    expect(signals.every((s) => s instanceof AbortSignal && !s.aborted)).toBe(true);
+  });
+
+  it("sends OAuth tokens as bearer auth with the oauth beta header", async () => {
+    standIn = await startStandIn();
+    const { discoverModels } = await import("../src/index.js");
+
+    await discoverModels({ auth: { baseUrl: standIn.url, oauthToken: "oauth-token" } });
+
+    expect(standIn.requests[0].headers.authorization).toBe("Bearer oauth-token");
+    expect(standIn.requests[0].headers["anthropic-beta"]).toBe("oauth-2025-04-20");
+    expect(standIn.requests[0].headers["x-api-key"]).toBeUndefined();
+  });
+
+  it("updates the provider's supported and default models", async () => {
+    standIn = await startStandIn();
+    const { default: plugin, discoverModels } = await import("../src/index.js");
+    const ctx = {
+      log: { info: vi.fn(), warn: vi.fn() },
+      registerProvider: vi.fn(),
+      unregisterProvider: vi.fn(),
+      unregisterExtension: vi.fn(),
+      unregisterConfigSchema: vi.fn(),
+      registerConfigSchema: vi.fn(),
+    };
+    await plugin.init(ctx as any);
+    const provider = ctx.registerProvider.mock.calls[0][0];
+    const fallback = [...provider.supportedModels];
+
+    // Another credential's listing is only returned to its caller
+    await discoverModels({ auth: { baseUrl: standIn.url, apiKey: "sk-ant-tenant" } });
+    expect(provider.supportedModels).toEqual(fallback);
+
+    process.env.ANTHROPIC_API_KEY = "sk-ant-test";
+    process.env.ANTHROPIC_BASE_URL = standIn.url;
+    try {
+      await discoverModels();
+    } finally {
+      delete process.env.ANTHROPIC_API_KEY;
+      delete process.env.ANTHROPIC_BASE_URL;
+    }
+
+    expect(provider.supportedModels).toHaveLength(3);
+    expect(provider.defaultModel).toBe("claude-opus-4-6");
+  });
+
+  it("falls back to the hardcoded list when the API errors", async () => {
+    standIn = await startStandIn(500);
+    const { discoverModels } = await import("../src/index.js");
+
+    const models = await discoverModels({ auth: { baseUrl: standIn.url, apiKey: "sk-ant-test" } });
+
+    expect(models.length).toBeGreaterThan(0);
+    expect(models.every((m) => m.inputPrice === 0)).toBe(true);
+    expect(models.some((m) => m.id.includes("opus"))).toBe(true);
+  });
+
+  it("merges scraped pricing when enrichment is enabled", async () => {
+    standIn = await startStandIn();
+    const originalFetch = globalThis.fetch;
+    // Serve the docs page from a stub, everything else from the stand-in
+    globalThis.fetch = vi.fn((input: string | URL | Request, init?: RequestInit) =>
+      String(input).startsWith("https://docs.anthropic.com")
+        ? Promise.resolve(new Response("<html><body>Models</body></html>"))
+        : originalFetch(input, init),
+    ) as typeof fetch;
+    mockQuery.mockImplementation(() =>
+      (async function* () {
+        yield {
+          type: "assistant",
+          message: {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify([
+                  { id: "claude-opus-4-6", inputPrice: 5, outputPrice: 25, legacy: false },
+                  { id: "claude-sonnet-4-5-20250929", inputPrice: 3, outputPrice: 15, legacy: true },
+                ]),
+              },
+            ],
+          },
+        };
+      })(),
+    );
+
+    try {
+      const { discoverModels } = await import("../src/index.js");
+      const models = await discoverModels({
+        auth: { baseUrl: standIn.url, apiKey: "sk-ant-test" },
+        enrichPricing: true,
+      });
+
+      expect(models[0]).toMatchObject({ id: "claude-opus-4-6", inputPrice: 5, outputPrice: 25 });
+      expect(models[1]).toMatchObject({ legacy: true, inputPrice: 3 });
+      // Models only in the API listing keep their defaults
+      expect(models[2]).toMatchObject({ id: "claude-haiku-4-5-20251001", inputPrice: 0 });
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  });
+});
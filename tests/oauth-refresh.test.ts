@@ -0,0 +1,209 @@
+import { mkdirSync, mkdtempSync, readdirSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+const mockQuery = vi.fn();
+const mockCreateSession = vi.fn();
+const mockResumeSession = vi.fn();
+
+vi.mock("@anthropic-ai/claude-agent-sdk", () => ({
+  query: mockQuery,
+  unstable_v2_createSession: mockCreateSession,
+  unstable_v2_resumeSession: mockResumeSession,
+}));
+
+function writeCredentials(path: string, oauth: Record<string, unknown>, extra: Record<string, unknown> = {}) {
+  writeFileSync(path, JSON.stringify({ ...extra, claudeAiOauth: oauth }));
+}
+
+function tokenResponse(body: Record<string, unknown>, status = 200) {
+  return { ok: status >= 200 && status < 300, status, json: async () => body };
+}
+
+function fakeSession(sessionId: string) {
+  return {
+    send: vi.fn().mockResolvedValue(undefined),
+    stream: vi.fn(() =>
+      (async function* () {
+        yield { type: "result", subtype: "success", session_id: sessionId };
+      })(),
+    ),
+    close: vi.fn(),
+  };
+}
+
+describe("OAuthTokenManager", () => {
+  const originalFetch = globalThis.fetch;
+  let dir: string;
+  let credsPath: string;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    dir = mkdtempSync(join(tmpdir(), "wopr-oauth-"));
+    credsPath = join(dir, ".credentials.json");
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("returns the current token without refreshing when it is not near expiry", async () => {
+    const { OAuthTokenManager } = await import("../src/oauth.js");
+    writeCredentials(credsPath, { accessToken: "tok-1", refreshToken: "ref-1", expiresAt: Date.now() + 3600_000 });
+    globalThis.fetch = vi.fn();
+
+    const manager = new OAuthTokenManager(credsPath);
+    expect(await manager.getAccessToken()).toBe("tok-1");
+    expect(globalThis.fetch).not.toHaveBeenCalled();
+  });
+
+  it("refreshes an expiring token and writes it back, preserving other fields", async () => {
+    const { OAuthTokenManager } = await import("../src/oauth.js");
+    writeCredentials(
+      credsPath,
+      { accessToken: "tok-1", refreshToken: "ref-1", expiresAt: Date.now() + 1000, scopes: ["user:inference"] },
+      { otherTool: { keep: true } },
+    );
+    globalThis.fetch = vi
+      .fn()
+      .mockResolvedValue(tokenResponse({ access_token: "tok-2", refresh_token: "ref-2", expires_in: 3600 }));
+
+    const manager = new OAuthTokenManager(credsPath, { tokenUrl: "https://auth.test/token" });
+    expect(await manager.getAccessToken()).toBe("tok-2");
+
+    const [url, init] = (globalThis.fetch as ReturnType<typeof vi.fn>).mock.calls[0];
+    expect(url).toBe("https://auth.test/token");
+    expect(JSON.parse(init.body)).toMatchObject({ grant_type: "refresh_token", refresh_token: "ref-1" });
+
+    const written = JSON.parse(readFileSync(credsPath, "utf-8"));
+    expect(written.otherTool).toEqual({ keep: true });
+    expect(written.claudeAiOauth).toMatchObject({
+      accessToken: "tok-2",
+      refreshToken: "ref-2",
+      scopes: ["user:inference"],
+    });
+    expect(written.claudeAiOauth.expiresAt).toBeGreaterThan(Date.now() + 3000_000);
+    // No temp files left behind by the atomic write
+    expect(readdirSync(dir)).toEqual([".credentials.json"]);
+  });
+
+  it("keeps the old refresh token when the server does not rotate it", async () => {
+    const { OAuthTokenManager } = await import("../src/oauth.js");
+    writeCredentials(credsPath, { accessToken: "tok-1", refreshToken: "ref-1", expiresAt: Date.now() - 1000 });
+    globalThis.fetch = vi.fn().mockResolvedValue(tokenResponse({ access_token: "tok-2", expires_in: 3600 }));
+
+    await new OAuthTokenManager(credsPath).getAccessToken();
+
+    expect(JSON.parse(readFileSync(credsPath, "utf-8")).claudeAiOauth.refreshToken).toBe("ref-1");
+  });
+
+  it("gives a refreshed token a default expiry when the response has no expires_in", async () => {
+    const { OAuthTokenManager } = await import("../src/oauth.js");
+    writeCredentials(credsPath, { accessToken: "tok-1", refreshToken: "ref-1", expiresAt: Date.now() - 1000 });
+    globalThis.fetch = vi.fn().mockResolvedValue(tokenResponse({ access_token: "tok-2" }));
+
+    const manager = new OAuthTokenManager(credsPath);
+    await manager.getAccessToken();
+
+    const { expiresAt } = JSON.parse(readFileSync(credsPath, "utf-8")).claudeAiOauth;
+    expect(expiresAt).toBeGreaterThan(Date.now() + 50 * 60_000);
+    expect(expiresAt).toBeLessThanOrEqual(Date.now() + 60 * 60_000);
+    expect(manager.needsRefresh({ accessToken: "tok-2", expiresAt })).toBe(false);
+    expect(manager.needsRefresh({ accessToken: "tok-2", expiresAt }, expiresAt)).toBe(true);
+  });
+
+  it("issues a single refresh request for concurrent callers", async () => {
+    const { OAuthTokenManager } = await import("../src/oauth.js");
+    writeCredentials(credsPath, { accessToken: "tok-1", refreshToken: "ref-1", expiresAt: Date.now() - 1000 });
+    globalThis.fetch = vi.fn().mockResolvedValue(tokenResponse({ access_token: "tok-2", expires_in: 3600 }));
+
+    const manager = new OAuthTokenManager(credsPath);
+    const creds = { accessToken: "tok-1", refreshToken: "ref-1", expiresAt: Date.now() - 1000 };
+    const results = await Promise.all([manager.refresh(creds), manager.refresh(creds), manager.refresh(creds)]);
+
+    expect(results.map((r) => r.accessToken)).toEqual(["tok-2", "tok-2", "tok-2"]);
+    expect(globalThis.fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("falls back to the current token when the refresh fails", async () => {
+    const { OAuthTokenManager } = await import("../src/oauth.js");
+    writeCredentials(credsPath, { accessToken: "tok-1", refreshToken: "ref-1", expiresAt: Date.now() - 1000 });
+    globalThis.fetch = vi.fn().mockResolvedValue(tokenResponse({ error: "invalid_grant" }, 400));
+
+    expect(await new OAuthTokenManager(credsPath).getAccessToken()).toBe("tok-1");
+    expect(JSON.parse(readFileSync(credsPath, "utf-8")).claudeAiOauth.accessToken).toBe("tok-1");
+  });
+});
+
+describe("AnthropicClient OAuth refresh", () => {
+  const originalFetch = globalThis.fetch;
+  const originalHome = process.env.HOME;
+  let home: string;
+  let credsPath: string;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.resetModules();
+    home = mkdtempSync(join(tmpdir(), "wopr-home-"));
+    mkdirSync(join(home, ".claude"));
+    credsPath = join(home, ".claude", ".credentials.json");
+    process.env.HOME = home;
+    delete process.env.ANTHROPIC_API_KEY;
+    delete process.env.CLAUDE_CODE_OAUTH_TOKEN;
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+    process.env.HOME = originalHome;
+    rmSync(home, { recursive: true, force: true });
+  });
+
+  it("passes a refreshed token to V1 query() via env", async () => {
+    writeCredentials(credsPath, { accessToken: "tok-old", refreshToken: "ref-1", expiresAt: Date.now() - 1000 });
+    globalThis.fetch = vi.fn().mockResolvedValue(tokenResponse({ access_token: "tok-new", expires_in: 3600 }));
+    mockQuery.mockImplementation(() =>
+      (async function* () {
+        yield { type: "assistant", message: { content: [{ type: "text", text: "OK" }] } };
+      })(),
+    );
+
+    const { AnthropicClient } = await import("../src/index.js");
+    const client = new AnthropicClient("");
+    for await (const _ of client.query({ prompt: "Hi" })) {
+      // consume
+    }
+
+    expect(mockQuery.mock.calls[0][0].options.env.CLAUDE_CODE_OAUTH_TOKEN).toBe("tok-new");
+    expect(process.env.CLAUDE_CODE_OAUTH_TOKEN).toBeUndefined();
+  });
+
+  it("resumes an idle V2 session with the new token after a rotation", async () => {
+    writeCredentials(credsPath, { accessToken: "tok-1", refreshToken: "ref-1", expiresAt: Date.now() + 3600_000 });
+    globalThis.fetch = vi.fn().mockResolvedValue(tokenResponse({ access_token: "tok-2", expires_in: 3600 }));
+    const first = fakeSession("sess-1");
+    const resumed = fakeSession("sess-1");
+    mockCreateSession.mockReturnValue(first);
+    mockResumeSession.mockReturnValue(resumed);
+
+    const { AnthropicClient } = await import("../src/index.js");
+    const client = new AnthropicClient("");
+    for await (const _ of client.queryV2({ prompt: "one", sessionKey: "chat-1" })) {
+      // consume
+    }
+    expect(mockCreateSession.mock.calls[0][0].env.CLAUDE_CODE_OAUTH_TOKEN).toBe("tok-1");
+
+    // Token is now about to expire — the next turn should refresh and resume
+    writeCredentials(credsPath, { accessToken: "tok-1", refreshToken: "ref-1", expiresAt: Date.now() + 1000 });
+    for await (const _ of client.queryV2({ prompt: "two", sessionKey: "chat-1" })) {
+      // consume
+    }
+
+    expect(first.close).toHaveBeenCalled();
+    expect(mockResumeSession).toHaveBeenCalledWith("sess-1", expect.anything());
+    expect(mockResumeSession.mock.calls[0][1].env.CLAUDE_CODE_OAUTH_TOKEN).toBe("tok-2");
+    expect(resumed.send).toHaveBeenCalledWith("two");
+    client.closeSession("chat-1");
+  });
+});
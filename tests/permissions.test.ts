@@ -0,0 +1,175 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const mockQuery = vi.fn();
+const mockCreateSession = vi.fn();
+
+vi.mock("@anthropic-ai/claude-agent-sdk", () => ({
+  query: mockQuery,
+  unstable_v2_createSession: mockCreateSession,
+  unstable_v2_resumeSession: vi.fn(),
+}));
+
+vi.mock("fs", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("fs")>();
+  return {
+    ...actual,
+    existsSync: vi.fn(() => false),
+    readFileSync: vi.fn((path: unknown) =>
+      path && String(path).endsWith("package.json")
+        ? JSON.stringify({ name: "@wopr-network/wopr-plugin-provider-anthropic", version: "2.3.0" })
+        : "{}",
+    ),
+  };
+});
+
+const HAIKU = "claude-haiku-4-5-20251001";
+
+function okRun() {
+  return (async function* () {
+    yield { type: "result", subtype: "success", result: "OK" };
+  })();
+}
+
+async function drain(stream: AsyncIterable<unknown>) {
+  for await (const _ of stream) {
+    // consume
+  }
+}
+
+async function initPlugin(config: Record<string, unknown>) {
+  const { default: plugin } = await import("../src/index.js");
+  await plugin.init({
+    log: { info: vi.fn(), warn: vi.fn() },
+    getConfig: () => config,
+    registerProvider: vi.fn(),
+    registerConfigSchema: vi.fn(),
+    registerExtension: vi.fn(),
+  } as any);
+}
+
+describe("resolvePermissionMode", () => {
+  it("defaults to bypass locally and to 'default' for hosted clients", async () => {
+    const { resolvePermissionMode } = await import("../src/permissions.js");
+    expect(resolvePermissionMode(undefined, {}, false)).toBe("bypassPermissions");
+    expect(resolvePermissionMode(undefined, {}, true)).toBe("default");
+  });
+
+  it("rejects bypass for hosted clients unless the operator allows it", async () => {
+    const { resolvePermissionMode, PermissionModeError } = await import("../src/permissions.js");
+    expect(() => resolvePermissionMode("bypass", {}, true)).toThrow(PermissionModeError);
+    expect(() => resolvePermissionMode("bypass", {}, true)).toThrow(/allowBypassWhenHosted/);
+    expect(resolvePermissionMode("acceptEdits", {}, true)).toBe("acceptEdits");
+    expect(resolvePermissionMode("bypass", { allowBypassWhenHosted: true }, true)).toBe("bypassPermissions");
+  });
+
+  it("enforces the configured maximum", async () => {
+    const { resolvePermissionMode } = await import("../src/permissions.js");
+    const config = { mode: "bypass" as const, maxMode: "default" as const };
+    expect(() => resolvePermissionMode("acceptEdits", config, false)).toThrow(
+      /exceeds the configured maximum "default"/,
+    );
+    expect(resolvePermissionMode("plan", config, false)).toBe("plan");
+    // A configured default above the maximum is lowered rather than rejected
+    expect(resolvePermissionMode(undefined, config, false)).toBe("default");
+  });
+
+  it("rejects unknown modes", async () => {
+    const { resolvePermissionMode } = await import("../src/permissions.js");
+    expect(() => resolvePermissionMode("yolo", {}, false)).toThrow(/is not one of plan, default/);
+    expect(() => resolvePermissionMode(undefined, { maxMode: "all" as any }, false)).toThrow(/"all"/);
+  });
+});
+
+describe("permission mode in AnthropicClient", () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    mockQuery.mockImplementation(() => okRun());
+    await initPlugin({});
+  });
+
+  it("passes a per-query mode to the SDK without the bypass opt-in", async () => {
+    const { AnthropicClient } = await import("../src/index.js");
+    const client = new AnthropicClient("sk-ant-permissions");
+
+    await drain(client.query({ prompt: "Hi", model: HAIKU, permissionMode: "plan" }));
+
+    const options = mockQuery.mock.calls[0][0].options;
+    expect(options.permissionMode).toBe("plan");
+    expect(options.allowDangerouslySkipPermissions).toBe(false);
+  });
+
+  it("does not let providerOptions exceed the configured maximum", async () => {
+    await initPlugin({ permissions: { maxMode: "acceptEdits" } });
+    const { AnthropicClient, PermissionModeError } = await import("../src/index.js");
+    const client = new AnthropicClient("sk-ant-permissions-max");
+
+    await expect(
+      drain(client.query({ prompt: "Hi", model: HAIKU, providerOptions: { permissionMode: "bypassPermissions" } })),
+    ).rejects.toBeInstanceOf(PermissionModeError);
+    expect(mockQuery).not.toHaveBeenCalled();
+
+    await drain(client.query({ prompt: "Hi", model: HAIKU }));
+    expect(mockQuery.mock.calls[0][0].options).toMatchObject({
+      permissionMode: "acceptEdits",
+      allowDangerouslySkipPermissions: false,
+    });
+  });
+
+  it("defaults hosted clients to the 'default' mode", async () => {
+    const { AnthropicClient } = await import("../src/index.js");
+    const client = new AnthropicClient("", { baseUrl: "https://gw.example.com", tenantToken: "t" });
+
+    await drain(client.query({ prompt: "Hi", model: HAIKU }));
+
+    expect(mockQuery.mock.calls[0][0].options.permissionMode).toBe("default");
+  });
+
+  it("runs health checks without tool permissions", async () => {
+    const { AnthropicClient } = await import("../src/index.js");
+    const client = new AnthropicClient("sk-ant-permissions-health");
+
+    expect(await client.healthCheck()).toBe(true);
+
+    const options = mockQuery.mock.calls[0][0].options;
+    expect(options.permissionMode).toBe("dontAsk");
+    expect(options.allowDangerouslySkipPermissions).toBeUndefined();
+  });
+
+  it("applies the mode when creating a V2 session", async () => {
+    mockCreateSession.mockImplementation(() => ({
+      send: vi.fn(async () => {}),
+      stream: () => okRun(),
+      close: vi.fn(),
+    }));
+    const { AnthropicClient } = await import("../src/index.js");
+    const client = new AnthropicClient("sk-ant-permissions-v2");
+
+    await drain(client.queryV2({ prompt: "Hi", sessionKey: "perm-v2", model: HAIKU, permissionMode: "acceptEdits" }));
+
+    expect(mockCreateSession.mock.calls[0][0]).toMatchObject({
+      permissionMode: "acceptEdits",
+      allowDangerouslySkipPermissions: false,
+    });
+    client.closeSession("perm-v2");
+  });
+
+  it("defaults V2 sessions to 'default' unless the operator configures a mode", async () => {
+    mockCreateSession.mockImplementation(() => ({
+      send: vi.fn(async () => {}),
+      stream: () => okRun(),
+      close: vi.fn(),
+    }));
+    const { AnthropicClient } = await import("../src/index.js");
+    const client = new AnthropicClient("sk-ant-REDACTED");
+
+    await drain(client.queryV2({ prompt: "Hi", sessionKey: "perm-v2-default", model: HAIKU }));
+    await initPlugin({ permissions: { mode: "acceptEdits" } });
+    await drain(client.queryV2({ prompt: "Hi", sessionKey: "perm-v2-configured", model: HAIKU }));
+
+    const [unset, configured] = mockCreateSession.mock.calls.map((c) => c[0]);
+    expect(unset).toMatchObject({ permissionMode: "default", allowDangerouslySkipPermissions: false });
+    expect(configured.permissionMode).toBe("acceptEdits");
+    client.closeSession("perm-v2-default");
+    client.closeSession("perm-v2-configured");
+  });
+});
@@ -0,0 +1,173 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+const mockQuery = vi.fn();
+
+vi.mock("@anthropic-ai/claude-agent-sdk", () => ({
+  query: mockQuery,
+  unstable_v2_createSession: vi.fn(),
+  unstable_v2_resumeSession: vi.fn(),
+}));
+
+vi.mock("fs", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("fs")>();
+  return {
+    ...actual,
+    existsSync: vi.fn(() => false),
+    readFileSync: vi.fn((path: unknown) =>
+      path && String(path).endsWith("package.json")
+        ? JSON.stringify({ name: "@wopr-network/wopr-plugin-provider-anthropic", version: "2.3.0" })
+        : "{}",
+    ),
+  };
+});
+
+const HAIKU = "claude-haiku-4-5-20251001";
+const USAGE = { inputTokens: 0, outputTokens: 0, cacheReadTokens: 0, cacheWriteTokens: 0 };
+
+describe("RateLimiter", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("paces requests per minute and reports the queue wait", async () => {
+    const { RateLimiter } = await import("../src/rate-limiter.js");
+    const limiter = new RateLimiter("t", { requestsPerMinute: 2 });
+
+    (await limiter.acquire()).release();
+    (await limiter.acquire()).release();
+    const third = limiter.acquire();
+    expect(limiter.queued).toBe(1);
+
+    await vi.advanceTimersByTimeAsync(30_000);
+    const permit = await third;
+    expect(permit.waitedMs).toBe(30_000);
+    expect(limiter.queued).toBe(0);
+  });
+
+  it("caps concurrent streams and serves waiters in order", async () => {
+    const { RateLimiter } = await import("../src/rate-limiter.js");
+    const limiter = new RateLimiter("t", { maxConcurrentStreams: 1 });
+    const order: string[] = [];
+
+    const first = await limiter.acquire();
+    const second = limiter.acquire().then((p) => {
+      order.push("second");
+      return p;
+    });
+    const third = limiter.acquire().then((p) => {
+      order.push("third");
+      return p;
+    });
+    await vi.advanceTimersByTimeAsync(0);
+    expect(order).toEqual([]);
+
+    first.release();
+    first.release(); // releasing twice frees only one slot
+    (await second).release();
+    await third;
+    expect(order).toEqual(["second", "third"]);
+  });
+
+  it("removes an aborted request from the queue", async () => {
+    const { RateLimiter } = await import("../src/rate-limiter.js");
+    const limiter = new RateLimiter("t", { maxConcurrentStreams: 1 });
+    const held = await limiter.acquire();
+    const controller = new AbortController();
+
+    const cancelled = limiter.acquire(controller.signal);
+    const next = limiter.acquire();
+    controller.abort(new Error("cancelled"));
+
+    await expect(cancelled).rejects.toThrow("cancelled");
+    held.release();
+    await expect(next).resolves.toMatchObject({ waitedMs: 0 });
+  });
+
+  it("holds new requests while a token bucket is in debt", async () => {
+    const { RateLimiter } = await import("../src/rate-limiter.js");
+    const limiter = new RateLimiter("t", { outputTokensPerMinute: 1000, inputTokensPerMinute: 100_000 });
+
+    (await limiter.acquire()).release();
+    limiter.recordUsage({ ...USAGE, inputTokens: 10, outputTokens: 1500 });
+
+    let granted = false;
+    const waiting = limiter.acquire().then((p) => {
+      granted = true;
+      return p;
+    });
+    await vi.advanceTimersByTimeAsync(29_000);
+    expect(granted).toBe(false);
+    await vi.advanceTimersByTimeAsync(2_000);
+    expect((await waiting).waitedMs).toBeGreaterThanOrEqual(30_000);
+  });
+
+  it("applies per-credential overrides from the registry config", async () => {
+    const { RateLimiterRegistry } = await import("../src/rate-limiter.js");
+    const registry = new RateLimiterRegistry();
+    registry.configure({ maxConcurrentStreams: 1, credentials: { oauth: { maxConcurrentStreams: 2 } } });
+
+    const oauth = registry.get("oauth");
+    await oauth.acquire();
+    await oauth.acquire();
+    expect(oauth.queued).toBe(0);
+
+    const apiKey = registry.get("api_key:abc");
+    await apiKey.acquire();
+    void apiKey.acquire();
+    expect(apiKey.queued).toBe(1);
+  });
+});
+
+describe("rate limiting in AnthropicClient", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  function gatedRun(gate: Promise<void>) {
+    return (async function* () {
+      await gate;
+      yield { type: "result", subtype: "success", result: "OK" };
+    })();
+  }
+
+  async function drain(stream: AsyncIterable<unknown>) {
+    for await (const _ of stream) {
+      // consume
+    }
+  }
+
+  it("queues streams beyond the concurrency cap and lets queued calls be cancelled", async () => {
+    let open: () => void = () => {};
+    const gate = new Promise<void>((r) => (open = r));
+    mockQuery.mockImplementation(() => gatedRun(gate));
+    const { default: plugin, AnthropicClient, QueryCancelledError } = await import("../src/index.js");
+    const { logger } = await import("../src/logger.js");
+    const info = vi.spyOn(logger, "info");
+    await plugin.init({
+      log: { info: vi.fn(), warn: vi.fn() },
+      getConfig: () => ({ rateLimits: { maxConcurrentStreams: 1 } }),
+      registerProvider: vi.fn(),
+      registerConfigSchema: vi.fn(),
+      registerExtension: vi.fn(),
+    } as any);
+    const client = new AnthropicClient("sk-ant-rate-limited");
+
+    const first = drain(client.query({ prompt: "one", model: HAIKU }));
+    const controller = new AbortController();
+    const cancelled = drain(client.query({ prompt: "two", model: HAIKU, signal: controller.signal }));
+    const third = drain(client.query({ prompt: "three", model: HAIKU }));
+    await vi.waitFor(() => expect(mockQuery).toHaveBeenCalledTimes(1));
+
+    controller.abort();
+    await expect(cancelled).rejects.toBeInstanceOf(QueryCancelledError);
+
+    await new Promise((r) => setTimeout(r, 5));
+    open();
+    await Promise.all([first, third]);
+    expect(mockQuery.mock.calls.map((c) => c[0].prompt)).toEqual(["one", "three"]);
+    expect(info.mock.calls.some(([msg]) => /Rate limit queue wait \d+ms for api_key:/.test(String(msg)))).toBe(true);
+  });
+});
@@ -0,0 +1,168 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const mockQuery = vi.fn();
+
+vi.mock("@anthropic-ai/claude-agent-sdk", () => ({
+  query: mockQuery,
+  unstable_v2_createSession: vi.fn(),
+  unstable_v2_resumeSession: vi.fn(),
+}));
+
+vi.mock("fs", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("fs")>();
+  return {
+    ...actual,
+    existsSync: vi.fn(() => false),
+    readFileSync: vi.fn((path: unknown) =>
+      path && String(path).endsWith("package.json")
+        ? JSON.stringify({ name: "@wopr-network/wopr-plugin-provider-anthropic", version: "2.3.0" })
+        : "{}",
+    ),
+  };
+});
+
+const HAIKU = "claude-haiku-4-5-20251001";
+
+function withStatus(status: number, headers?: Record<string, string>) {
+  return Object.assign(new Error(`status ${status}`), { status, headers });
+}
+
+describe("RetryPolicy classification", () => {
+  it("retries overloaded, server and rate-limit statuses but not client errors", async () => {
+    const { RetryPolicy } = await import("../src/retry.js");
+    const policy = new RetryPolicy();
+
+    for (const status of [429, 500, 502, 503, 504, 529]) {
+      expect(policy.classify(withStatus(status))).toEqual({ retryable: true, reason: String(status) });
+    }
+    for (const status of [400, 401, 403, 404, 413]) {
+      expect(policy.classify(withStatus(status)).retryable).toBe(false);
+    }
+    // The SDK reports API failures as "API Error: NNN" messages
+    expect(policy.classify(new Error('API Error: 529 {"type":"error"}'))).toEqual({ retryable: true, reason: "529" });
+    expect(policy.classify(new Error("API Error: 400 bad request")).retryable).toBe(false);
+  });
+
+  it("classifies by API error type and by network error code", async () => {
+    const { RetryPolicy } = await import("../src/retry.js");
+    const policy = new RetryPolicy();
+
+    const overloaded = Object.assign(new Error("Overloaded"), {
+      error: { type: "error", error: { type: "overloaded_error" } },
+    });
+    expect(policy.classify(overloaded)).toEqual({ retryable: true, reason: "overloaded_error" });
+    const invalid = Object.assign(new Error("bad"), { error: { type: "invalid_request_error" } });
+    expect(policy.classify(invalid).retryable).toBe(false);
+
+    const reset = new TypeError("fetch failed", {
+      cause: Object.assign(new Error("other side closed"), { code: "ECONNRESET" }),
+    });
+    expect(policy.classify(reset)).toEqual({ retryable: true, reason: "ECONNRESET" });
+    expect(policy.classify(Object.assign(new Error("no such file"), { code: "ENOENT" })).retryable).toBe(false);
+  });
+});
+
+describe("RetryPolicy delays", () => {
+  it("uses full jitter up to the exponential ceiling, capped by maxDelayMs", async () => {
+    const { RetryPolicy } = await import("../src/retry.js");
+    const policy = new RetryPolicy(
+      { baseDelayMs: 1000, maxDelayMs: 5000, maxRetries: 5 },
+      () => 0.5,
+      () => 0,
+    );
+
+    expect(policy.nextDelay(withStatus(529), 0, 0)).toBe(500);
+    expect(policy.nextDelay(withStatus(529), 2, 0)).toBe(2000);
+    expect(policy.nextDelay(withStatus(529), 4, 0)).toBe(2500);
+    expect(policy.nextDelay(withStatus(529), 5, 0)).toBeNull();
+    expect(policy.nextDelay(withStatus(400), 0, 0)).toBeNull();
+  });
+
+  it("honours retry-after, retry-after-ms and rate-limit reset headers", async () => {
+    const { RetryPolicy } = await import("../src/retry.js");
+    const now = Date.parse("2026-01-01T00:00:00Z");
+    const policy = new RetryPolicy(
+      {},
+      () => 0,
+      () => now,
+    );
+
+    expect(policy.nextDelay(withStatus(429, { "retry-after": "7" }), 0, now)).toBe(7000);
+    expect(policy.nextDelay(withStatus(429, { "retry-after-ms": "250", "retry-after": "7" }), 0, now)).toBe(250);
+    expect(policy.nextDelay(withStatus(503, { "retry-after": "Thu, 01 Jan 2026 00:00:03 GMT" }), 0, now)).toBe(3000);
+    const resets = new Headers({
+      "anthropic-ratelimit-requests-reset": "2026-01-01T00:00:02Z",
+      "anthropic-ratelimit-tokens-reset": "2026-01-01T00:00:04Z",
+    });
+    expect(policy.nextDelay(Object.assign(withStatus(429), { headers: resets }), 0, now)).toBe(4000);
+  });
+
+  it("gives up once the next wait would pass maxElapsedMs", async () => {
+    const { RetryPolicy } = await import("../src/retry.js");
+    let now = 0;
+    const policy = new RetryPolicy({ maxElapsedMs: 10_000, jitter: "none" }, Math.random, () => now);
+
+    expect(policy.nextDelay(withStatus(429, { "retry-after": "8" }), 0, 0)).toBe(8000);
+    now = 8000;
+    expect(policy.nextDelay(withStatus(529), 1, 0)).toBe(2000);
+    expect(policy.nextDelay(withStatus(429, { "retry-after": "3" }), 1, 0)).toBeNull();
+  });
+
+  it("run() waits with the injected sleep and rethrows the last error", async () => {
+    const { RetryPolicy } = await import("../src/retry.js");
+    const sleep = vi.fn(async () => {});
+    const warn = vi.fn();
+    const fn = vi.fn().mockRejectedValue(withStatus(500));
+
+    await expect(new RetryPolicy({ maxRetries: 2, jitter: "none" }).run(fn, { warn }, sleep)).rejects.toThrow(
+      "status 500",
+    );
+    expect(fn).toHaveBeenCalledTimes(3);
+    expect(sleep.mock.calls).toEqual([[1000], [2000]]);
+    expect(warn.mock.calls[0][0]).toBe("[retry] Attempt 1/2 failed (500), retrying in 1000ms");
+  });
+});
+
+describe("retry policy in AnthropicClient", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("applies providerOptions.retry per call and does not forward it to the SDK", async () => {
+    mockQuery.mockImplementation(() => {
+      throw withStatus(529);
+    });
+    const { AnthropicClient } = await import("../src/index.js");
+    const client = new AnthropicClient("sk-ant-retry-policy");
+
+    await expect(async () => {
+      for await (const _ of client.query({
+        prompt: "Hi",
+        model: HAIKU,
+        providerOptions: { retry: { maxRetries: 2, baseDelayMs: 1 }, maxTurns: 1 },
+      })) {
+        // consume
+      }
+    }).rejects.toThrow("Anthropic query failed: status 529");
+
+    expect(mockQuery).toHaveBeenCalledTimes(3);
+    const options = mockQuery.mock.calls[0][0].options;
+    expect(options.maxTurns).toBe(1);
+    expect(options).not.toHaveProperty("retry");
+  });
+
+  it("does not retry client errors", async () => {
+    mockQuery.mockImplementation(() => {
+      throw withStatus(400);
+    });
+    const { AnthropicClient } = await import("../src/index.js");
+    const client = new AnthropicClient("sk-ant-retry-policy-400");
+
+    await expect(async () => {
+      for await (const _ of client.query({ prompt: "Hi", model: HAIKU })) {
+        // consume
+      }
+    }).rejects.toThrow("status 400");
+    expect(mockQuery).toHaveBeenCalledTimes(1);
+  });
+});
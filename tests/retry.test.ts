@@ -25,6 +25,12 @@ describe("retryWithBackoff", () => {
     expect(fn).toHaveBeenCalledTimes(1);
   });
 
+  it("uses the default policy when no options are given", async () => {
+    const { retryWithBackoff } = await import("../src/index.js");
+    const fn = vi.fn().mockResolvedValue("ok");
+    await expect(retryWithBackoff(fn, undefined, { warn: vi.fn() })).resolves.toBe("ok");
+  });
+
   it("retries on 429 and succeeds", async () => {
     const { retryWithBackoff } = await import("../src/index.js");
     const error429 = Object.assign(new Error("rate limited"), { status: 429 });
@@ -74,7 +80,7 @@ describe("retryWithBackoff", () => {
     const error429 = Object.assign(new Error("rate limited"), { status: 429 });
     const warnFn = vi.fn();
     const fn = vi.fn().mockRejectedValueOnce(error429).mockRejectedValueOnce(error429).mockResolvedValue("ok");
-    await retryWithBackoff(fn, { maxRetries: 3, baseDelayMs: 1 }, { warn: warnFn });
+    await retryWithBackoff(fn, { maxRetries: 3, baseDelayMs: 1, jitter: "none" }, { warn: warnFn });
     expect(warnFn).toHaveBeenCalledTimes(2);
     // Check that delay messages mention increasing delays
     expect(warnFn.mock.calls[0][0]).toContain("1ms");
@@ -0,0 +1,304 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const mockQuery = vi.fn();
+const mockCreateSession = vi.fn();
+
+vi.mock("@anthropic-ai/claude-agent-sdk", () => ({
+  query: mockQuery,
+  unstable_v2_createSession: mockCreateSession,
+  unstable_v2_resumeSession: vi.fn(),
+}));
+
+vi.mock("fs", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("fs")>();
+  return {
+    ...actual,
+    existsSync: vi.fn(() => false),
+    readFileSync: vi.fn((path: unknown) =>
+      path && String(path).endsWith("package.json")
+        ? JSON.stringify({ name: "@wopr-network/wopr-plugin-provider-anthropic", version: "2.3.0" })
+        : "{}",
+    ),
+  };
+});
+
+const HAIKU = "claude-haiku-4-5-20251001";
+
+const INIT = {
+  type: "system",
+  subtype: "init",
+  session_id: "sdk-1",
+  model: HAIKU,
+  tools: ["Read", "Bash"],
+};
+
+const TOOL_TURN = [
+  INIT,
+  {
+    type: "assistant",
+    session_id: "sdk-1",
+    parent_tool_use_id: null,
+    message: {
+      id: "msg_1",
+      content: [
+        { type: "thinking", thinking: "Need to list files" },
+        { type: "text", text: "Let me look." },
+        { type: "tool_use", id: "toolu_1", name: "Bash", input: { command: "ls" } },
+      ],
+    },
+  },
+  {
+    type: "user",
+    session_id: "sdk-1",
+    parent_tool_use_id: null,
+    message: {
+      role: "user",
+      content: [{ type: "tool_result", tool_use_id: "toolu_1", content: "README.md", is_error: false }],
+    },
+  },
+  {
+    type: "assistant",
+    session_id: "sdk-1",
+    parent_tool_use_id: null,
+    message: { id: "msg_2", content: [{ type: "text", text: "There is a README." }] },
+  },
+  {
+    type: "result",
+    subtype: "success",
+    session_id: "sdk-1",
+    is_error: false,
+    result: "There is a README.",
+    num_turns: 2,
+    duration_ms: 1200,
+    usage: { input_tokens: 100, output_tokens: 20 },
+  },
+];
+
+function streamOf(messages: unknown[]) {
+  return (async function* () {
+    for (const msg of messages) yield msg;
+  })();
+}
+
+async function collect(stream: AsyncIterable<unknown>) {
+  const events: any[] = [];
+  for await (const event of stream) events.push(event);
+  return events;
+}
+
+describe("EventNormalizer", () => {
+  it("translates a tool-using turn into normalized events", async () => {
+    const { normalizeStream } = await import("../src/events.js");
+    const events = await collect(normalizeStream(streamOf(TOOL_TURN)));
+
+    expect(events.map((e) => e.type)).toEqual([
+      "session-started",
+      "thinking-delta",
+      "text-delta",
+      "tool-call",
+      "tool-result",
+      "text-delta",
+      "final-result",
+    ]);
+    expect(events[0]).toEqual({ type: "session-started", sessionId: "sdk-1", model: HAIKU, tools: ["Read", "Bash"] });
+    expect(events[3]).toEqual({
+      type: "tool-call",
+      toolUseId: "toolu_1",
+      name: "Bash",
+      input: { command: "ls" },
+      parentToolUseId: null,
+    });
+    expect(events[4]).toEqual({ type: "tool-result", toolUseId: "toolu_1", content: "README.md", isError: false });
+    expect(events[6]).toEqual({
+      type: "final-result",
+      sessionId: "sdk-1",
+      subtype: "success",
+      isError: false,
+      result: "There is a README.",
+      numTurns: 2,
+      durationMs: 1200,
+    });
+  });
+
+  it("emits partial-message deltas without repeating the complete message", async () => {
+    const { normalizeStream } = await import("../src/events.js");
+    const events = await collect(
+      normalizeStream(
+        streamOf([
+          {
+            type: "stream_event",
+            parent_tool_use_id: null,
+            event: { type: "message_start", message: { id: "msg_1" } },
+          },
+          {
+            type: "stream_event",
+            parent_tool_use_id: null,
+            event: { type: "content_block_delta", delta: { type: "thinking_delta", thinking: "Hmm" } },
+          },
+          {
+            type: "stream_event",
+            parent_tool_use_id: null,
+            event: { type: "content_block_delta", delta: { type: "text_delta", text: "Hel" } },
+          },
+          {
+            type: "stream_event",
+            parent_tool_use_id: null,
+            event: { type: "content_block_delta", delta: { type: "text_delta", text: "lo" } },
+          },
+          {
+            type: "assistant",
+            parent_tool_use_id: null,
+            message: {
+              id: "msg_1",
+              content: [
+                { type: "thinking", thinking: "Hmm" },
+                { type: "text", text: "Hello" },
+                { type: "tool_use", id: "toolu_1", name: "Read", input: {} },
+              ],
+            },
+          },
+        ]),
+      ),
+    );
+
+    expect(events.map((e) => [e.type, e.text ?? e.thinking ?? e.name])).toEqual([
+      ["thinking-delta", "Hmm"],
+      ["text-delta", "Hel"],
+      ["text-delta", "lo"],
+      ["tool-call", "Read"],
+    ]);
+  });
+
+  it("reports error results and assistant errors as error events", async () => {
+    const { EventNormalizer } = await import("../src/events.js");
+    const normalizer = new EventNormalizer();
+
+    expect(normalizer.normalize({ type: "assistant", error: "rate_limit", message: { id: "m", content: [] } })).toEqual(
+      [{ type: "error", message: "Assistant message failed: rate_limit", code: "rate_limit" }],
+    );
+
+    const events = normalizer.normalize({
+      type: "result",
+      subtype: "error_max_turns",
+      is_error: true,
+      session_id: "sdk-1",
+      errors: ["Reached maximum number of turns"],
+      num_turns: 10,
+      duration_ms: 5,
+    });
+    expect(events[0]).toEqual({ type: "error", message: "Reached maximum number of turns", code: "error_max_turns" });
+    expect(events[1]).toMatchObject({ type: "final-result", subtype: "error_max_turns", isError: true });
+    expect(events[1].result).toBeUndefined();
+  });
+
+  it("translates the plugin's own system messages", async () => {
+    const { EventNormalizer } = await import("../src/events.js");
+    const normalizer = new EventNormalizer();
+    const image = {
+      source: "attachment #1",
+      width: 1024,
+      height: 768,
+      mediaType: "image/png",
+      bytes: 9,
+      estimatedTokens: 1049,
+    };
+
+    expect(
+      normalizer.normalize({ type: "system", subtype: "model_resolved", requested: "haiku", model: HAIKU }),
+    ).toEqual([{ type: "model-resolved", requested: "haiku", model: HAIKU }]);
+    expect(
+      normalizer.normalize({
+        type: "system",
+        subtype: "budget_warning",
+        scope: "day",
+        metric: "cost",
+        threshold: 0.8,
+        used: 8.5,
+        limit: 10,
+      }),
+    ).toEqual([{ type: "budget-warning", scope: "day", metric: "cost", threshold: 0.8, used: 8.5, limit: 10 }]);
+    expect(
+      normalizer.normalize({ type: "system", subtype: "images_processed", images: [image], estimatedTokens: 1049 }),
+    ).toEqual([{ type: "images-processed", images: [image], estimatedTokens: 1049 }]);
+    expect(
+      normalizer.normalize({
+        type: "system",
+        subtype: "stream_resumed",
+        sessionId: "sdk-1",
+        attempt: 1,
+        reason: "529",
+      }),
+    ).toEqual([{ type: "stream-resumed", sessionId: "sdk-1", attempt: 1, reason: "529" }]);
+  });
+
+  it("ignores messages outside the union", async () => {
+    const { EventNormalizer } = await import("../src/events.js");
+    const normalizer = new EventNormalizer();
+    expect(normalizer.normalize({ type: "system", subtype: "compact_boundary" })).toEqual([]);
+    expect(normalizer.normalize({ type: "tool_progress" })).toEqual([]);
+    expect(normalizer.normalize(null)).toEqual([]);
+  });
+});
+
+describe("normalized events in AnthropicClient", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("keeps yielding raw SDK messages by default", async () => {
+    mockQuery.mockImplementation(() => streamOf(TOOL_TURN));
+    const { AnthropicClient } = await import("../src/index.js");
+    const client = new AnthropicClient("sk-ant-test-key");
+
+    const chunks = await collect(client.query({ prompt: "Hi", model: HAIKU }));
+    expect(chunks.map((c) => c.type)).toEqual(["system", "assistant", "user", "assistant", "result"]);
+  });
+
+  it("normalizes V1 queries on request, with priced usage", async () => {
+    mockQuery.mockImplementation(() => streamOf(TOOL_TURN));
+    const { AnthropicClient } = await import("../src/index.js");
+    const client = new AnthropicClient("sk-ant-test-key");
+
+    const events = await collect(client.query({ prompt: "Hi", model: HAIKU, eventFormat: "normalized" }));
+    const usage = events.find((e) => e.type === "usage");
+    expect(usage).toMatchObject({ model: HAIKU, inputTokens: 100, outputTokens: 20, priced: true });
+    expect(events.at(-1).type).toBe("final-result");
+    expect(mockQuery.mock.calls[0][0].options.eventFormat).toBeUndefined();
+  });
+
+  it("takes the default format from client options for V2 sessions", async () => {
+    mockCreateSession.mockReturnValue({
+      send: vi.fn().mockResolvedValue(undefined),
+      stream: () => streamOf(TOOL_TURN),
+      close: vi.fn(),
+    });
+    const { AnthropicClient } = await import("../src/index.js");
+    const client = new AnthropicClient("sk-ant-test-key", { eventFormat: "normalized" });
+
+    const events = await collect(client.queryV2({ prompt: "Hi", sessionKey: "events-v2", model: HAIKU }));
+    expect(events[0].type).toBe("session-started");
+    expect(events.at(-1).type).toBe("final-result");
+    expect(mockCreateSession.mock.calls[0][0].eventFormat).toBeUndefined();
+    client.closeSession("events-v2");
+  });
+
+  it("yields an error event before rethrowing a failed query", async () => {
+    mockQuery.mockImplementation(() =>
+      (async function* () {
+        yield INIT;
+        throw new Error("invalid request");
+      })(),
+    );
+    const { AnthropicClient } = await import("../src/index.js");
+    const client = new AnthropicClient("sk-ant-test-key");
+
+    const events: any[] = [];
+    await expect(async () => {
+      for await (const event of client.query({ prompt: "Hi", model: HAIKU, eventFormat: "normalized" })) {
+        events.push(event);
+      }
+    }).rejects.toThrow("Anthropic query failed: invalid request");
+    expect(events.map((e) => e.type)).toEqual(["session-started", "error"]);
+    expect(events[1].message).toBe("Anthropic query failed: invalid request");
+  });
+});
@@ -0,0 +1,183 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const mockQuery = vi.fn();
+
+vi.mock("@anthropic-ai/claude-agent-sdk", () => ({
+  query: mockQuery,
+  unstable_v2_createSession: vi.fn(),
+  unstable_v2_resumeSession: vi.fn(),
+}));
+
+vi.mock("fs", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("fs")>();
+  return {
+    ...actual,
+    existsSync: vi.fn(() => false),
+    readFileSync: vi.fn((path: unknown) =>
+      path && String(path).endsWith("package.json")
+        ? JSON.stringify({ name: "@wopr-network/wopr-plugin-provider-anthropic", version: "2.3.0" })
+        : "{}",
+    ),
+  };
+});
+
+const HAIKU = "claude-haiku-4-5-20251001";
+const FAST_RETRY = { retry: { baseDelayMs: 1, jitter: "none" } };
+
+const init = { type: "system", subtype: "init", session_id: "sdk-1", uuid: "u-init" };
+const text = (uuid: string, value: string, sessionId: string | null = "sdk-1") => ({
+  type: "assistant",
+  ...(sessionId ? { session_id: sessionId } : {}),
+  uuid,
+  message: { content: [{ type: "text", text: value }] },
+});
+const result = (value: string) => ({
+  type: "result",
+  subtype: "success",
+  session_id: "sdk-1",
+  uuid: "u-res",
+  result: value,
+});
+
+function networkError() {
+  return Object.assign(new Error("socket closed"), { code: "ECONNRESET" });
+}
+
+/** An SDK run that yields `messages`, then throws `error` if given. */
+function run(messages: unknown[], error?: Error) {
+  return (async function* () {
+    yield* messages;
+    if (error) throw error;
+  })();
+}
+
+async function collect(stream: AsyncIterable<unknown>): Promise<{ chunks: any[]; error?: any }> {
+  const chunks: any[] = [];
+  try {
+    for await (const chunk of stream) chunks.push(chunk);
+  } catch (error) {
+    return { chunks, error };
+  }
+  return { chunks };
+}
+
+function describeChunk(c: any): string {
+  if (c.type === "system") return `${c.subtype}`;
+  if (c.type === "assistant") return c.message.content[0].text;
+  return `${c.type}:${c.result}`;
+}
+
+describe("V1 query retries around the stream", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("retries from scratch when the stream fails before its first message", async () => {
+    mockQuery
+      .mockImplementationOnce(() => run([], networkError()))
+      .mockImplementationOnce(() => run([init, text("u-1", "Hello"), result("Hello")]));
+    const { AnthropicClient } = await import("../src/index.js");
+    const client = new AnthropicClient("sk-ant-stream-retry");
+
+    const { chunks, error } = await collect(client.query({ prompt: "Hi", model: HAIKU, providerOptions: FAST_RETRY }));
+
+    expect(error).toBeUndefined();
+    expect(chunks.map(describeChunk)).toEqual(["init", "Hello", "result:Hello"]);
+    expect(mockQuery).toHaveBeenCalledTimes(2);
+    expect(mockQuery.mock.calls[1][0].prompt).toBe("Hi");
+    expect(mockQuery.mock.calls[1][0].options.resume).toBeUndefined();
+  });
+
+  it("resumes the SDK session after a mid-stream failure without duplicating output", async () => {
+    mockQuery
+      .mockImplementationOnce(() => run([init, text("u-1", "Part one")], networkError()))
+      // The resumed run announces the session again and replays a message the caller has seen
+      .mockImplementationOnce(() => run([init, text("u-1", "Part one"), text("u-2", "Part two"), result("done")]));
+    const { AnthropicClient } = await import("../src/index.js");
+    const client = new AnthropicClient("sk-ant-stream-resume");
+
+    const { chunks, error } = await collect(client.query({ prompt: "Hi", model: HAIKU, providerOptions: FAST_RETRY }));
+
+    expect(error).toBeUndefined();
+    expect(chunks.map(describeChunk)).toEqual(["init", "Part one", "stream_resumed", "Part two", "result:done"]);
+    expect(chunks[2]).toEqual({
+      type: "system",
+      subtype: "stream_resumed",
+      sessionId: "sdk-1",
+      attempt: 1,
+      reason: "ECONNRESET",
+    });
+
+    const resumedCall = mockQuery.mock.calls[1][0];
+    expect(resumedCall.options.resume).toBe("sdk-1");
+    expect(resumedCall.prompt).not.toBe("Hi");
+    expect(resumedCall.prompt).toMatch(/Continue from exactly where you stopped/);
+  });
+
+  it("marks the resume with a stream-resumed event in normalized mode", async () => {
+    mockQuery
+      .mockImplementationOnce(() => run([init, text("u-1", "Part one")], networkError()))
+      .mockImplementationOnce(() => run([init, text("u-1", "Part one"), text("u-2", "Part two"), result("done")]));
+    const { AnthropicClient } = await import("../src/index.js");
+    const client = new AnthropicClient("sk-ant-REDACTED");
+
+    const { chunks } = await collect(
+      client.query({ prompt: "Hi", model: HAIKU, eventFormat: "normalized", providerOptions: FAST_RETRY }),
+    );
+
+    expect(chunks.filter((e) => e.type !== "usage").map((e) => e.type)).toEqual([
+      "session-started",
+      "text-delta",
+      "stream-resumed",
+      "text-delta",
+      "final-result",
+    ]);
+    expect(chunks[2]).toEqual({ type: "stream-resumed", sessionId: "sdk-1", attempt: 1, reason: "ECONNRESET" });
+  });
+
+  it("does not retry after output was yielded when midStream is 'fail'", async () => {
+    mockQuery.mockImplementation(() => run([init, text("u-1", "Part one")], networkError()));
+    const { AnthropicClient } = await import("../src/index.js");
+    const client = new AnthropicClient("sk-ant-stream-fail");
+
+    const { chunks, error } = await collect(
+      client.query({
+        prompt: "Hi",
+        model: HAIKU,
+        providerOptions: { retry: { baseDelayMs: 1, midStream: "fail" } },
+      }),
+    );
+
+    expect(error?.message).toMatch(/Anthropic query failed: socket closed/);
+    expect(chunks.map(describeChunk)).toEqual(["init", "Part one"]);
+    expect(mockQuery).toHaveBeenCalledTimes(1);
+  });
+
+  it("does not retry after output was yielded when no session ID was seen", async () => {
+    mockQuery.mockImplementation(() => run([text("u-1", "Part one", null)], networkError()));
+    const { AnthropicClient } = await import("../src/index.js");
+    const client = new AnthropicClient("sk-ant-stream-nosession");
+
+    const { chunks, error } = await collect(client.query({ prompt: "Hi", model: HAIKU, providerOptions: FAST_RETRY }));
+
+    expect(error).toBeDefined();
+    expect(chunks.map(describeChunk)).toEqual(["Part one"]);
+    expect(mockQuery).toHaveBeenCalledTimes(1);
+  });
+
+  it("gives up when a resumed stream fails before the retry budget allows another attempt", async () => {
+    mockQuery
+      .mockImplementationOnce(() => run([init, text("u-1", "Part one")], networkError()))
+      .mockImplementationOnce(() => run([text("u-2", "Part two")], networkError()));
+    const { AnthropicClient } = await import("../src/index.js");
+    const client = new AnthropicClient("sk-ant-stream-exhausted");
+
+    const { chunks, error } = await collect(
+      client.query({ prompt: "Hi", model: HAIKU, providerOptions: { retry: { baseDelayMs: 1, maxRetries: 1 } } }),
+    );
+
+    expect(error?.message).toMatch(/Anthropic query failed/);
+    expect(chunks.map(describeChunk)).toEqual(["init", "Part one", "stream_resumed", "Part two"]);
+    expect(mockQuery).toHaveBeenCalledTimes(2);
+  });
+});
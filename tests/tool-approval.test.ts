@@ -0,0 +1,218 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+const mockQuery = vi.fn();
+const mockCreateSession = vi.fn();
+
+vi.mock("@anthropic-ai/claude-agent-sdk", () => ({
+  query: mockQuery,
+  unstable_v2_createSession: mockCreateSession,
+  unstable_v2_resumeSession: vi.fn(),
+}));
+
+vi.mock("fs", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("fs")>();
+  return {
+    ...actual,
+    existsSync: vi.fn(() => false),
+    readFileSync: vi.fn((path: unknown) =>
+      path && String(path).endsWith("package.json")
+        ? JSON.stringify({ name: "@wopr-network/wopr-plugin-provider-anthropic", version: "2.3.0" })
+        : "{}",
+    ),
+  };
+});
+
+const HAIKU = "claude-haiku-4-5-20251001";
+
+function sdkContext(signal = new AbortController().signal) {
+  return { signal, toolUseID: "toolu_1", title: "Claude wants to run git status" };
+}
+
+function okRun() {
+  return (async function* () {
+    yield { type: "result", subtype: "success", result: "OK" };
+  })();
+}
+
+async function drain(stream: AsyncIterable<unknown>) {
+  for await (const _ of stream) {
+    // consume
+  }
+}
+
+describe("createCanUseTool", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("forwards the request with the sessionKey and allows with modified input", async () => {
+    const { createCanUseTool } = await import("../src/tool-approval.js");
+    const approver = vi.fn(async () => ({ behavior: "allow" as const, updatedInput: { command: "git status -s" } }));
+    const canUseTool = createCanUseTool(approver, { sessionKey: "discord:42" });
+
+    const result = await canUseTool("Bash", { command: "git status" }, sdkContext());
+
+    expect(approver).toHaveBeenCalledWith(
+      expect.objectContaining({
+        toolName: "Bash",
+        input: { command: "git status" },
+        sessionKey: "discord:42",
+        toolUseId: "toolu_1",
+        title: "Claude wants to run git status",
+      }),
+    );
+    expect(result).toEqual({ behavior: "allow", updatedInput: { command: "git status -s" }, toolUseID: "toolu_1" });
+  });
+
+  it("keeps the original input when allowed unchanged", async () => {
+    const { createCanUseTool } = await import("../src/tool-approval.js");
+    const canUseTool = createCanUseTool(() => ({ behavior: "allow" }));
+
+    const result = await canUseTool("Read", { file_path: "/tmp/a" }, sdkContext());
+
+    expect(result).toMatchObject({ behavior: "allow", updatedInput: { file_path: "/tmp/a" } });
+  });
+
+  it("passes a denial and its message back to the SDK", async () => {
+    const { createCanUseTool } = await import("../src/tool-approval.js");
+    const canUseTool = createCanUseTool(() => ({ behavior: "deny", message: "Not on main", interrupt: true }));
+
+    const result = await canUseTool("Bash", { command: "git push" }, sdkContext());
+
+    expect(result).toEqual({ behavior: "deny", message: "Not on main", interrupt: true, toolUseID: "toolu_1" });
+  });
+
+  it("denies when the approver does not answer in time", async () => {
+    vi.useFakeTimers();
+    const { createCanUseTool } = await import("../src/tool-approval.js");
+    let approverSignal: AbortSignal | undefined;
+    const canUseTool = createCanUseTool(
+      ({ signal }) => {
+        approverSignal = signal;
+        return new Promise(() => {});
+      },
+      { timeoutMs: 1000 },
+    );
+
+    const pending = canUseTool("Bash", { command: "rm -rf build" }, sdkContext());
+    await vi.advanceTimersByTimeAsync(1000);
+
+    await expect(pending).resolves.toEqual({ behavior: "deny", message: "No approval received within 1000ms" });
+    expect(approverSignal?.aborted).toBe(true);
+  });
+
+  it("denies when the approver answers without a decision", async () => {
+    const { createCanUseTool } = await import("../src/tool-approval.js");
+
+    for (const answer of [undefined, null, {}, "yes", { behavior: "maybe" }]) {
+      const canUseTool = createCanUseTool(() => answer as any, { timeoutMs: 1000 });
+      await expect(canUseTool("Bash", { command: "ls" }, sdkContext())).resolves.toEqual({
+        behavior: "deny",
+        message: "The approver did not return an allow or deny decision",
+      });
+    }
+  });
+
+  it("denies when the query is cancelled or the approver throws", async () => {
+    const { createCanUseTool } = await import("../src/tool-approval.js");
+    const controller = new AbortController();
+    const waiting = createCanUseTool(() => new Promise(() => {}))("Bash", {}, sdkContext(controller.signal));
+    controller.abort();
+    await expect(waiting).resolves.toMatchObject({ behavior: "deny", message: expect.stringMatching(/cancelled/) });
+
+    const failing = createCanUseTool(() => {
+      throw new Error("channel offline");
+    });
+    await expect(failing("Bash", {}, sdkContext())).resolves.toEqual({
+      behavior: "deny",
+      message: "Approval failed: channel offline",
+    });
+  });
+});
+
+describe("tool approval in AnthropicClient", () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    mockQuery.mockImplementation(() => okRun());
+    const { default: plugin } = await import("../src/index.js");
+    await plugin.init({
+      log: { info: vi.fn(), warn: vi.fn() },
+      getConfig: () => ({}),
+      registerProvider: vi.fn(),
+      registerConfigSchema: vi.fn(),
+      registerExtension: vi.fn(),
+    } as any);
+  });
+
+  it("wires a per-query approver into the SDK and defaults to the 'default' mode", async () => {
+    const { AnthropicClient } = await import("../src/index.js");
+    const client = new AnthropicClient("sk-ant-approval");
+    const approver = vi.fn(() => ({ behavior: "deny" as const }));
+
+    await drain(client.query({ prompt: "Hi", model: HAIKU, sessionKey: "slack:7", canUseTool: approver }));
+
+    const options = mockQuery.mock.calls[0][0].options;
+    expect(options.permissionMode).toBe("default");
+    expect(options.allowDangerouslySkipPermissions).toBe(false);
+    await expect(options.canUseTool("Bash", { command: "ls" }, sdkContext())).resolves.toMatchObject({
+      behavior: "deny",
+    });
+    expect(approver).toHaveBeenCalledWith(expect.objectContaining({ toolName: "Bash", sessionKey: "slack:7" }));
+  });
+
+  it("uses the approver registered through the extension for V2 sessions", async () => {
+    mockCreateSession.mockImplementation(() => ({
+      send: vi.fn(async () => {}),
+      stream: () => okRun(),
+      close: vi.fn(),
+    }));
+    const { default: plugin, AnthropicClient } = await import("../src/index.js");
+    const registerExtension = vi.fn();
+    await plugin.init({
+      log: { info: vi.fn(), warn: vi.fn() },
+      getConfig: () => ({ toolApproval: { timeoutMs: 5000 } }),
+      registerProvider: vi.fn(),
+      registerConfigSchema: vi.fn(),
+      registerExtension,
+    } as any);
+    const approver = vi.fn(() => ({ behavior: "allow" as const }));
+    registerExtension.mock.calls[0][1].setToolApprover(approver);
+
+    const client = new AnthropicClient("sk-ant-approval-v2");
+    await drain(client.queryV2({ prompt: "Hi", sessionKey: "approval-v2", model: HAIKU }));
+
+    const options = mockCreateSession.mock.calls[0][0];
+    expect(options.permissionMode).toBe("default");
+    await options.canUseTool("Write", { file_path: "a.txt" }, sdkContext());
+    expect(approver).toHaveBeenCalledWith(expect.objectContaining({ toolName: "Write", sessionKey: "approval-v2" }));
+
+    registerExtension.mock.calls[0][1].setToolApprover(null);
+    client.closeSession("approval-v2");
+  });
+
+  it("only pre-allows read-only tools in V2 sessions with an approver, so Bash is asked about", async () => {
+    mockCreateSession.mockImplementation(() => ({
+      send: vi.fn(async () => {}),
+      stream: () => okRun(),
+      close: vi.fn(),
+    }));
+    const { AnthropicClient } = await import("../src/index.js");
+    const client = new AnthropicClient("sk-ant-approval-v2-bash");
+    const approver = vi.fn(() => ({ behavior: "deny" as const, message: "not here" }));
+
+    await drain(client.queryV2({ prompt: "Hi", sessionKey: "approval-bash", model: HAIKU, canUseTool: approver }));
+    await drain(client.queryV2({ prompt: "Hi", sessionKey: "no-approver", model: HAIKU }));
+
+    const [withApprover, without] = mockCreateSession.mock.calls.map((c) => c[0]);
+    expect(withApprover.allowedTools).toEqual(["Read", "Glob", "Grep"]);
+    await expect(withApprover.canUseTool("Bash", { command: "rm -rf /" }, sdkContext())).resolves.toMatchObject({
+      behavior: "deny",
+      message: "not here",
+    });
+    expect(approver).toHaveBeenCalledWith(expect.objectContaining({ toolName: "Bash", sessionKey: "approval-bash" }));
+    expect(without.allowedTools).toContain("Bash");
+
+    client.closeSession("approval-bash");
+    client.closeSession("no-approver");
+  });
+});
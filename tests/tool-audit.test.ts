@@ -0,0 +1,211 @@
+import { mkdtempSync, readFileSync, rmSync, statSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+const mockQuery = vi.fn();
+const mockCreateSession = vi.fn();
+
+vi.mock("@anthropic-ai/claude-agent-sdk", () => ({
+  query: mockQuery,
+  unstable_v2_createSession: mockCreateSession,
+  unstable_v2_resumeSession: vi.fn(),
+}));
+
+vi.mock("fs", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("fs")>();
+  return {
+    ...actual,
+    existsSync: vi.fn((path: unknown) => String(path).includes("tool-audit-test-") && actual.existsSync(String(path))),
+    readFileSync: vi.fn((path: unknown, ...rest: unknown[]) => {
+      if (String(path).includes("tool-audit-test-")) return (actual.readFileSync as any)(path, ...rest);
+      return path && String(path).endsWith("package.json")
+        ? JSON.stringify({ name: "@wopr-network/wopr-plugin-provider-anthropic", version: "2.3.0" })
+        : "{}";
+    }),
+  };
+});
+
+const HAIKU = "claude-haiku-4-5-20251001";
+
+function toolUse(id: string, name: string, input: Record<string, unknown>) {
+  return { type: "assistant", session_id: "sdk-1", message: { content: [{ type: "tool_use", id, name, input }] } };
+}
+
+function toolResult(id: string, content: string, isError = false) {
+  return {
+    type: "user",
+    session_id: "sdk-1",
+    message: { content: [{ type: "tool_result", tool_use_id: id, content, is_error: isError }] },
+  };
+}
+
+const TOOL_RUN = [
+  { type: "system", subtype: "init", session_id: "sdk-1", model: HAIKU },
+  toolUse("toolu_1", "Bash", { command: "curl -H 'Authorization: Bearer abc123' https://x", description: "fetch" }),
+  toolResult("toolu_1", "ok"),
+  toolUse("toolu_2", "Write", { file_path: "/tmp/a", content: "x".repeat(2000), api_key: "k" }),
+  toolResult("toolu_2", "EACCES: permission denied", true),
+  toolUse("toolu_3", "Read", { file_path: "/tmp/b" }),
+  { type: "result", subtype: "success", session_id: "sdk-1", result: "done" },
+];
+
+function run(messages: unknown[]) {
+  return (async function* () {
+    yield* messages;
+  })();
+}
+
+async function drain(stream: AsyncIterable<unknown>) {
+  for await (const _ of stream) {
+    // consume
+  }
+}
+
+let dir: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), "tool-audit-test-"));
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe("ToolAuditLog", () => {
+  it("pairs tool_use with tool_result and records outcome and duration", async () => {
+    const { ToolAuditLog } = await import("../src/audit.js");
+    let now = 1_000;
+    const log = new ToolAuditLog(() => now);
+    const messages = (async function* () {
+      yield TOOL_RUN[0];
+      yield TOOL_RUN[1];
+      now += 250;
+      yield TOOL_RUN[2];
+    })();
+
+    await drain(log.observe(messages, { sessionKey: "discord:1", model: "haiku" }));
+
+    expect(log.recent("discord:1")).toEqual([
+      {
+        timestamp: new Date(1_000).toISOString(),
+        sessionKey: "discord:1",
+        sdkSessionId: "sdk-1",
+        model: HAIKU,
+        tool: "Bash",
+        toolUseId: "toolu_1",
+        input: { command: "curl -H 'Authorization: Bearer [REDACTED]' https://x", description: "fetch" },
+        durationMs: 250,
+        outcome: "success",
+      },
+    ]);
+  });
+
+  it("records errors, redacts inputs and marks unanswered calls as interrupted", async () => {
+    const { ToolAuditLog } = await import("../src/audit.js");
+    const log = new ToolAuditLog();
+
+    await drain(log.observe(run(TOOL_RUN), { sessionKey: "s" }));
+
+    const [, write, read] = log.recent("s");
+    expect(write).toMatchObject({ tool: "Write", outcome: "error", error: "EACCES: permission denied" });
+    expect((write.input as any).api_key).toBe("[REDACTED]");
+    expect((write.input as any).content).toMatch(/^x{500}…\[2000 chars\]$/);
+    expect(read).toMatchObject({ tool: "Read", outcome: "interrupted", durationMs: null });
+    expect(log.recent("other")).toEqual([]);
+    expect(log.recent(undefined, 1)).toEqual([read]);
+  });
+
+  it("appends JSON lines and rotates the file when it grows too large", async () => {
+    const { ToolAuditLog } = await import("../src/audit.js");
+    const file = join(dir, "audit.jsonl");
+    const log = new ToolAuditLog();
+    log.configure({ enabled: true, file, maxBytes: 400, maxFiles: 2 });
+
+    await drain(log.observe(run(TOOL_RUN), { sessionKey: "s0" }));
+    // Written in the background, not while the stream is being consumed
+    expect(() => statSync(file)).toThrow();
+    for (let i = 1; i < 3; i++) await drain(log.observe(run(TOOL_RUN), { sessionKey: `s${i}` }));
+    await log.flush();
+
+    const current = readFileSync(file, "utf-8")
+      .trim()
+      .split("\n")
+      .map((line) => JSON.parse(line));
+    expect(current.at(-1)).toMatchObject({ sessionKey: "s2", tool: "Read" });
+    expect(statSync(`${file}.1`).size).toBeGreaterThan(0);
+    expect(statSync(`${file}.2`).size).toBeGreaterThan(0);
+    expect(() => statSync(`${file}.3`)).toThrow();
+    await log.close();
+  });
+});
+
+describe("tool audit in AnthropicClient", () => {
+  it("records tool calls from V1 and V2 streams and exposes them through the extension", async () => {
+    mockQuery.mockImplementation(() => run(TOOL_RUN));
+    mockCreateSession.mockImplementation(() => ({
+      send: vi.fn(async () => {}),
+      stream: () => run(TOOL_RUN),
+      close: vi.fn(),
+    }));
+    const { default: plugin, AnthropicClient } = await import("../src/index.js");
+    const registerExtension = vi.fn();
+    await plugin.init({
+      log: { info: vi.fn(), warn: vi.fn() },
+      getConfig: () => ({ toolAudit: { enabled: true, file: join(dir, "audit.jsonl") } }),
+      registerProvider: vi.fn(),
+      registerConfigSchema: vi.fn(),
+      registerExtension,
+    } as any);
+    const client = new AnthropicClient("sk-ant-audit");
+
+    await drain(client.query({ prompt: "Hi", model: HAIKU, sessionKey: "audit-v1", eventFormat: "normalized" }));
+    await drain(client.queryV2({ prompt: "Hi", model: HAIKU, sessionKey: "audit-v2" }));
+
+    const { getToolAudit } = registerExtension.mock.calls[0][1];
+    expect(getToolAudit("audit-v1").map((e: any) => e.tool)).toEqual(["Bash", "Write", "Read"]);
+    expect(getToolAudit("audit-v2", 2).map((e: any) => e.toolUseId)).toEqual(["toolu_2", "toolu_3"]);
+    await vi.waitFor(() => expect(readFileSync(join(dir, "audit.jsonl"), "utf-8").trim().split("\n")).toHaveLength(6));
+    client.closeSession("audit-v2");
+  });
+
+  it("records tool calls read through getActiveSessionStream()", async () => {
+    let release!: () => void;
+    const gate = new Promise<void>((resolve) => {
+      release = resolve;
+    });
+    const stream = (async function* () {
+      yield TOOL_RUN[0];
+      await gate;
+      yield* TOOL_RUN.slice(1);
+    })();
+    mockCreateSession.mockImplementation(() => ({ send: vi.fn(async () => {}), stream: () => stream, close: vi.fn() }));
+    const { default: plugin, AnthropicClient } = await import("../src/index.js");
+    const registerExtension = vi.fn();
+    await plugin.init({
+      log: { info: vi.fn(), warn: vi.fn() },
+      getConfig: () => ({}),
+      registerProvider: vi.fn(),
+      registerConfigSchema: vi.fn(),
+      registerExtension,
+    } as any);
+    const client = new AnthropicClient("sk-ant-audit-active");
+
+    const turn = client.queryV2({ prompt: "Hi", model: HAIKU, sessionKey: "audit-active" });
+    while (((await turn.next()).value as any)?.subtype !== "init") {
+      // skip the plugin's own messages
+    }
+    const active = client.getActiveSessionStream("audit-active");
+    release();
+    await drain(active as AsyncGenerator<unknown>);
+    await drain(turn);
+
+    const { getToolAudit } = registerExtension.mock.calls[0][1];
+    expect(getToolAudit("audit-active").map((e: any) => [e.tool, e.outcome])).toEqual([
+      ["Bash", "success"],
+      ["Write", "error"],
+      ["Read", "interrupted"],
+    ]);
+    client.closeSession("audit-active");
+  });
+});
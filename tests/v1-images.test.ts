@@ -0,0 +1,121 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const mockQuery = vi.fn();
+
+vi.mock("@anthropic-ai/claude-agent-sdk", () => ({
+  query: mockQuery,
+  unstable_v2_createSession: vi.fn(),
+  unstable_v2_resumeSession: vi.fn(),
+}));
+
+vi.mock("fs", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("fs")>();
+  return {
+    ...actual,
+    existsSync: vi.fn(() => false),
+    readFileSync: vi.fn((path: unknown) =>
+      path && String(path).endsWith("package.json")
+        ? JSON.stringify({ name: "@wopr-network/wopr-plugin-provider-anthropic", version: "2.3.0" })
+        : "{}",
+    ),
+  };
+});
+
+vi.mock("../src/media-fetch.js", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("../src/media-fetch.js")>();
+  return { ...actual, fetchMedia: vi.fn() };
+});
+
+const HAIKU = "claude-haiku-4-5-20251001";
+const PNG = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+const FAST_RETRY = { retry: { baseDelayMs: 1, jitter: "none" } };
+
+const init = { type: "system", subtype: "init", session_id: "sdk-1", uuid: "u-init" };
+const text = (uuid: string, value: string) => ({
+  type: "assistant",
+  session_id: "sdk-1",
+  uuid,
+  message: { content: [{ type: "text", text: value }] },
+});
+const result = { type: "result", subtype: "success", session_id: "sdk-1", uuid: "u-res", result: "done" };
+
+function run(messages: unknown[], error?: Error) {
+  return (async function* () {
+    yield* messages;
+    if (error) throw error;
+  })();
+}
+
+async function drain(stream: AsyncIterable<unknown>) {
+  for await (const _ of stream) {
+    // consume
+  }
+}
+
+/** The user messages a query() call streamed to the SDK. */
+async function sentMessages(call: number): Promise<any[]> {
+  const prompt = mockQuery.mock.calls[call][0].prompt;
+  if (typeof prompt === "string") return [prompt];
+  const messages: any[] = [];
+  for await (const msg of prompt as AsyncIterable<any>) messages.push(msg);
+  return messages;
+}
+
+describe("images in V1 queries", () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    const { fetchMedia } = await import("../src/media-fetch.js");
+    vi.mocked(fetchMedia).mockImplementation(async (url: string) => ({ url, bytes: PNG, contentType: "image/png" }));
+  });
+
+  it("streams a user message with the image blocks ahead of the prompt text", async () => {
+    mockQuery.mockImplementation(() => run([init, result]));
+    const { AnthropicClient } = await import("../src/index.js");
+    const client = new AnthropicClient("sk-ant-v1-images");
+
+    await drain(
+      client.query({
+        prompt: "What is this?",
+        model: HAIKU,
+        images: ["https://example.com/a.png", { data: PNG }],
+      }),
+    );
+
+    const { options } = mockQuery.mock.calls[0][0];
+    expect(options).not.toHaveProperty("imageContents");
+    const messages = await sentMessages(0);
+    expect(messages).toHaveLength(1);
+    expect(messages[0]).toMatchObject({ type: "user", parent_tool_use_id: null });
+    const image = { type: "image", source: { type: "base64", media_type: "image/png", data: PNG.toString("base64") } };
+    expect(messages[0].message).toEqual({
+      role: "user",
+      content: [image, image, { type: "text", text: "What is this?" }],
+    });
+  });
+
+  it("sends the images again on a retry but not when resuming the session", async () => {
+    const networkError = () => Object.assign(new Error("socket closed"), { code: "ECONNRESET" });
+    mockQuery
+      .mockImplementationOnce(() => run([], networkError()))
+      .mockImplementationOnce(() => run([init, text("u-1", "Part one")], networkError()))
+      .mockImplementationOnce(() => run([text("u-2", "Part two"), result]));
+    const { AnthropicClient } = await import("../src/index.js");
+    const client = new AnthropicClient("sk-ant-v1-images-retry");
+
+    await drain(
+      client.query({
+        prompt: "Describe",
+        model: HAIKU,
+        images: ["https://example.com/a.png"],
+        providerOptions: FAST_RETRY,
+      }),
+    );
+
+    expect(mockQuery).toHaveBeenCalledTimes(3);
+    expect((await sentMessages(0))[0].message.content.map((b: any) => b.type)).toEqual(["image", "text"]);
+    expect((await sentMessages(1))[0].message.content.map((b: any) => b.type)).toEqual(["image", "text"]);
+    const [resumePrompt] = await sentMessages(2);
+    expect(resumePrompt).toMatch(/Continue from exactly where you stopped/);
+    expect(mockQuery.mock.calls[2][0].options.resume).toBe("sdk-1");
+  });
+});
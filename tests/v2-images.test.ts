@@ -0,0 +1,127 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const mockCreateSession = vi.fn();
+
+vi.mock("@anthropic-ai/claude-agent-sdk", () => ({
+  query: vi.fn(),
+  unstable_v2_createSession: mockCreateSession,
+  unstable_v2_resumeSession: vi.fn(),
+}));
+
+vi.mock("fs", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("fs")>();
+  return {
+    ...actual,
+    existsSync: vi.fn(() => false),
+    readFileSync: vi.fn((path: unknown) =>
+      path && String(path).endsWith("package.json")
+        ? JSON.stringify({ name: "@wopr-network/wopr-plugin-provider-anthropic", version: "2.3.0" })
+        : "{}",
+    ),
+  };
+});
+
+vi.mock("../src/media-fetch.js", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("../src/media-fetch.js")>();
+  return { ...actual, fetchMedia: vi.fn() };
+});
+
+const HAIKU = "claude-haiku-4-5-20251001";
+const PNG = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+function okRun() {
+  return (async function* () {
+    yield { type: "system", subtype: "init", session_id: "sdk-img" };
+    yield { type: "result", subtype: "success", session_id: "sdk-img", result: "OK" };
+  })();
+}
+
+async function drain(stream: AsyncIterable<unknown>) {
+  for await (const _ of stream) {
+    // consume
+  }
+}
+
+describe("images in V2 sessions", () => {
+  let session: { send: ReturnType<typeof vi.fn>; stream: () => AsyncGenerator<unknown>; close: () => void };
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    session = { send: vi.fn(async () => {}), stream: okRun, close: vi.fn() };
+    mockCreateSession.mockImplementation(() => session);
+    const { fetchMedia, MediaFetchError } = await import("../src/media-fetch.js");
+    vi.mocked(fetchMedia).mockImplementation(async (url: string) => {
+      if (url.includes("missing")) throw new MediaFetchError("http_status", url, "HTTP 404", 404);
+      return { url, bytes: PNG, contentType: "image/png" };
+    });
+  });
+
+  it("sends image blocks ahead of the prompt text on the first turn", async () => {
+    const { AnthropicClient } = await import("../src/index.js");
+    const client = new AnthropicClient("sk-ant-v2-images");
+
+    await drain(
+      client.queryV2({
+        prompt: "What is this?",
+        sessionKey: "img-first",
+        model: HAIKU,
+        images: ["https://example.com/a.png"],
+      }),
+    );
+
+    expect(session.send).toHaveBeenCalledTimes(1);
+    const sent = session.send.mock.calls[0][0];
+    expect(sent).toMatchObject({ type: "user", parent_tool_use_id: null });
+    expect(sent.message).toEqual({
+      role: "user",
+      content: [
+        { type: "image", source: { type: "base64", media_type: "image/png", data: PNG.toString("base64") } },
+        { type: "text", text: "What is this?" },
+      ],
+    });
+    client.closeSession("img-first");
+  });
+
+  it("fails the query without sending when an image can't be downloaded", async () => {
+    const { AnthropicClient, ImageInputError } = await import("../src/index.js");
+    const client = new AnthropicClient("sk-ant-v2-images-missing");
+
+    const run = drain(
+      client.queryV2({
+        prompt: "What is this?",
+        sessionKey: "img-missing",
+        model: HAIKU,
+        images: ["https://example.com/a.png", "https://example.com/missing.png"],
+      }),
+    );
+
+    await expect(run).rejects.toBeInstanceOf(ImageInputError);
+    await expect(run).rejects.toMatchObject({ code: "http_status", source: "https://example.com/missing.png" });
+    expect(session.send).not.toHaveBeenCalled();
+    client.closeSession("img-missing");
+  });
+
+  it("keeps sending plain text when there are no images", async () => {
+    const { AnthropicClient } = await import("../src/index.js");
+    const client = new AnthropicClient("sk-ant-v2-noimages");
+
+    await drain(client.queryV2({ prompt: "Hi", sessionKey: "img-none", model: HAIKU }));
+
+    expect(session.send).toHaveBeenCalledWith("Hi");
+    client.closeSession("img-none");
+  });
+
+  it("sends images injected with sendToActiveSession()", async () => {
+    const { AnthropicClient } = await import("../src/index.js");
+    const client = new AnthropicClient("sk-ant-v2-inject");
+    await drain(client.queryV2({ prompt: "Hi", sessionKey: "img-inject", model: HAIKU }));
+
+    await client.sendToActiveSession("img-inject", "And this one?", ["https://example.com/b.png"]);
+
+    const sent = session.send.mock.calls[1][0];
+    expect(sent.session_id).toBe("sdk-img");
+    expect(sent.message.content.map((b: any) => b.type)).toEqual(["image", "text"]);
+    expect(sent.message.content[1].text).toBe("And this one?");
+    client.closeSession("img-inject");
+  });
+});
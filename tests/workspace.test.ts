@@ -0,0 +1,166 @@
+import { execFileSync } from "node:child_process";
+import { mkdtempSync, realpathSync, rmSync, statSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+const mockCreateSession = vi.fn();
+
+vi.mock("@anthropic-ai/claude-agent-sdk", () => ({
+  query: vi.fn(),
+  unstable_v2_createSession: mockCreateSession,
+  unstable_v2_resumeSession: vi.fn(),
+}));
+
+vi.mock("fs", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("fs")>();
+  return {
+    ...actual,
+    existsSync: vi.fn(() => false),
+    readFileSync: vi.fn((path: unknown) =>
+      path && String(path).endsWith("package.json")
+        ? JSON.stringify({ name: "@wopr-network/wopr-plugin-provider-anthropic", version: "2.3.0" })
+        : "{}",
+    ),
+  };
+});
+
+const HAIKU = "claude-haiku-4-5-20251001";
+
+function exists(path: string): boolean {
+  try {
+    statSync(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function okRun() {
+  return (async function* () {
+    yield { type: "result", subtype: "success", result: "OK" };
+  })();
+}
+
+async function drain(stream: AsyncIterable<unknown>) {
+  for await (const _ of stream) {
+    // consume
+  }
+}
+
+/** Where a session's CLI process really starts: runs a script the way the SDK spawns cli.js. */
+function launch(options: { executable: string; executableArgs: string[] }): { cwd: string; args: string[] } {
+  const script = join(root, "print-cwd.mjs");
+  writeFileSync(script, "console.log(JSON.stringify({ cwd: process.cwd(), args: process.argv.slice(2) }));");
+  return JSON.parse(
+    execFileSync(options.executable, [...options.executableArgs, script, "--print"], { encoding: "utf8" }),
+  );
+}
+
+let root: string;
+
+beforeEach(() => {
+  root = mkdtempSync(join(tmpdir(), "workspace-test-"));
+});
+
+afterEach(() => {
+  rmSync(root, { recursive: true, force: true });
+});
+
+describe("WorkspaceManager", () => {
+  it("creates one temporary workspace per sessionKey and deletes it on release", async () => {
+    const { WorkspaceManager } = await import("../src/workspace.js");
+    const manager = new WorkspaceManager();
+    manager.configure({ enabled: true, root });
+
+    const a = manager.acquire("discord:123/chan");
+    const b = manager.acquire("slack:9");
+    expect(a?.path).not.toBe(b?.path);
+    expect(a?.path.startsWith(join(root, "discord_123_chan-"))).toBe(true);
+    expect(manager.acquire("discord:123/chan")).toBe(a);
+
+    writeFileSync(join(a?.path as string, "notes.md"), "hi");
+    manager.release("discord:123/chan");
+    expect(exists(a?.path as string)).toBe(false);
+    expect(exists(b?.path as string)).toBe(true);
+  });
+
+  it("keeps configured paths and returns null when disabled", async () => {
+    const { WorkspaceManager } = await import("../src/workspace.js");
+    const manager = new WorkspaceManager();
+    const fixed = join(root, "fixed", "project");
+    manager.configure({ paths: { "team:1": fixed } });
+
+    expect(manager.acquire("other")).toBeNull();
+    const workspace = manager.acquire("team:1");
+    expect(workspace).toMatchObject({ path: fixed, temporary: false });
+    manager.release("team:1");
+    expect(exists(fixed)).toBe(true);
+  });
+
+  it("releases idle workspaces whose session is gone", async () => {
+    const { WorkspaceManager } = await import("../src/workspace.js");
+    let now = 0;
+    const manager = new WorkspaceManager(() => now);
+    manager.configure({ enabled: true, root });
+
+    const idle = manager.acquire("idle") as { path: string };
+    const busy = manager.acquire("busy") as { path: string };
+    now = 60_000;
+    manager.releaseIdle(30_000, (key) => key === "busy");
+
+    expect(exists(idle.path)).toBe(false);
+    expect(manager.get("idle")).toBeUndefined();
+    expect(exists(busy.path)).toBe(true);
+  });
+});
+
+describe("workspaces in queryV2()", () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    mockCreateSession.mockImplementation(() => ({
+      send: vi.fn(async () => {}),
+      stream: () => okRun(),
+      close: vi.fn(),
+    }));
+    const { default: plugin } = await import("../src/index.js");
+    await plugin.init({
+      log: { info: vi.fn(), warn: vi.fn() },
+      getConfig: () => ({ workspaces: { enabled: true, root, additionalDirectories: [join(root, "shared")] } }),
+      registerProvider: vi.fn(),
+      registerConfigSchema: vi.fn(),
+      registerExtension: vi.fn(),
+    } as any);
+  });
+
+  it("runs each session in its own workspace and removes it on closeSession()", async () => {
+    const { AnthropicClient } = await import("../src/index.js");
+    const client = new AnthropicClient("sk-ant-workspace");
+
+    await drain(client.queryV2({ prompt: "Hi", sessionKey: "ws-a", model: HAIKU }));
+    await drain(client.queryV2({ prompt: "Hi", sessionKey: "ws-b", model: HAIKU }));
+
+    const [a, b] = mockCreateSession.mock.calls.map((c) => launch(c[0]));
+    expect(a.cwd).not.toBe(b.cwd);
+    expect(a.cwd.startsWith(realpathSync(root))).toBe(true);
+    expect(a.args).toEqual(["--print", "--add-dir", join(root, "shared")]);
+    expect(exists(a.cwd)).toBe(true);
+
+    client.closeSession("ws-a");
+    expect(exists(a.cwd)).toBe(false);
+    expect(exists(b.cwd)).toBe(true);
+    client.closeSession("ws-b");
+  });
+
+  it("uses a per-query workspace and keeps it after the session closes", async () => {
+    const { AnthropicClient } = await import("../src/index.js");
+    const client = new AnthropicClient("sk-ant-workspace-fixed");
+    const dir = join(root, "repo");
+
+    await drain(client.queryV2({ prompt: "Hi", sessionKey: "ws-fixed", model: HAIKU, workspace: dir }));
+
+    expect(launch(mockCreateSession.mock.calls[0][0]).cwd).toBe(realpathSync(dir));
+    client.closeSession("ws-fixed");
+    expect(exists(dir)).toBe(true);
+  });
+});